@@ -0,0 +1,89 @@
+/**
+ * train-weights
+ * Fits new default matching weights from the outcome log and writes the next
+ * version of the weights file. The service loads it on its next start.
+ *
+ * Usage: node dist/cli/train-weights.js [--holdout 0.2] [--k 10] [--l2 0.01] [--min-examples 50] [--dry-run]
+ *
+ * Reads OUTCOME_LOG_PATH and writes MATCHING_WEIGHTS_PATH.
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { outcomeRepository } from '../repositories/outcome.repository.js';
+import { outcomeService } from '../services/outcome.service.js';
+import { weightsService } from '../services/weights.service.js';
+import { weightTrainer } from '../core/weight.trainer.js';
+import type { RankingMetrics, WeightsFile } from '../types/outcome.types.js';
+
+const { values: args } = parseArgs({
+  options: {
+    holdout: { type: 'string', default: '0.2' },
+    k: { type: 'string', default: '10' },
+    l2: { type: 'string', default: '0.01' },
+    'min-examples': { type: 'string', default: '50' },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+function formatMetric(value: number | null): string {
+  return value === null ? '   n/a' : value.toFixed(4);
+}
+
+function printMetrics(label: string, metrics: RankingMetrics): void {
+  console.log(
+    `  ${label.padEnd(10)} AUC ${formatMetric(metrics.auc)}  NDCG@k ${formatMetric(metrics.ndcgAtK)}  MRR ${formatMetric(metrics.mrr)}`
+  );
+}
+
+async function main(): Promise<void> {
+  const holdoutFraction = Number(args.holdout);
+  const k = Number(args.k);
+  const l2 = Number(args.l2);
+  const minExamples = Number(args['min-examples']);
+
+  if (!(holdoutFraction >= 0 && holdoutFraction < 1) || !Number.isInteger(k) || k < 1 || !(l2 >= 0) || !(minExamples >= 1)) {
+    throw new Error('--holdout must be in [0, 1), --k a positive integer, --l2 non-negative and --min-examples at least 1');
+  }
+
+  await weightsService.initialize();
+  const current = weightsService.getActive();
+
+  const examples = outcomeService.buildExamples(await outcomeRepository.readAll());
+  console.log(`Read ${examples.length} labelled matches from ${outcomeRepository.filePath}`);
+  if (examples.length < minExamples) {
+    throw new Error(`Need at least ${minExamples} labelled matches to train, found ${examples.length}`);
+  }
+
+  const { weights, report } = weightTrainer.train(examples, {
+    holdoutFraction,
+    k,
+    l2,
+  });
+
+  console.log(`Trained on ${report.trainExamples}, held out ${report.holdoutExamples} (${report.positives} positives overall)`);
+  console.log(`  current v${current.version}: ${JSON.stringify(current.weights)}`);
+  console.log(`  learned:    ${JSON.stringify(weights)}`);
+  console.log(`Held-out metrics (k = ${k}, ${report.learned.evaluatedUsers} users, log loss ${formatMetric(report.logLoss)}):`);
+  printMetrics('shown', report.baseline);
+  printMetrics('learned', report.learned);
+
+  if (args['dry-run']) {
+    console.log('Dry run, weights file not written');
+    return;
+  }
+
+  const file: WeightsFile = {
+    version: current.version + 1,
+    weights,
+    trainedAt: new Date().toISOString(),
+    report,
+  };
+  const archivePath = await weightsService.write(file);
+  console.log(`Wrote weights v${file.version} to ${weightsService.filePath} (copy at ${archivePath})`);
+}
+
+main().catch((error) => {
+  console.error('Failed to train weights:', (error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * users
+ * Bulk export and import of user profiles through a running service, e.g. to
+ * snapshot an in-memory store or copy users between environments.
+ *
+ * Usage:
+ *   node dist/cli/users.js export [--format jsonl|csv] [--out users.jsonl]
+ *   node dist/cli/users.js import <file> [--format jsonl|csv] [--upsert] [--dry-run]
+ *
+ * The format defaults to the file extension (.csv or .jsonl). --url (default
+ * MATCHING_ENGINE_URL, or localhost on MATCHING_ENGINE_PORT) selects the service.
+ */
+
+import 'dotenv/config';
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ImportReport, UserTransferFormat } from '../types/user-transfer.types.js';
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: {
+      type: 'string',
+      default: process.env.MATCHING_ENGINE_URL ?? `http://localhost:${process.env.MATCHING_ENGINE_PORT || 8081}`,
+    },
+    format: { type: 'string' },
+    out: { type: 'string' },
+    upsert: { type: 'boolean', default: false },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+function resolveFormat(file: string | undefined): UserTransferFormat {
+  const format = args.format ?? (file && extname(file) === '.csv' ? 'csv' : 'jsonl');
+  if (format !== 'jsonl' && format !== 'csv') {
+    throw new Error('--format must be jsonl or csv');
+  }
+  return format;
+}
+
+async function request(path: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(new URL(path, args.url), init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { message?: string } | null;
+    throw new Error(`${response.status} ${body?.message ?? response.statusText}`);
+  }
+  return response;
+}
+
+async function exportUsers(): Promise<void> {
+  const format = resolveFormat(args.out);
+  const content = await (await request(`/api/users/export?format=${format}`)).text();
+
+  if (!args.out) {
+    process.stdout.write(content);
+    return;
+  }
+  await writeFile(args.out, content, 'utf8');
+  console.error(`Exported users as ${format} to ${args.out}`);
+}
+
+async function importUsers(file: string): Promise<boolean> {
+  const format = resolveFormat(file);
+  const query = new URLSearchParams({
+    format,
+    mode: args.upsert ? 'upsert' : 'create',
+    dryRun: String(args['dry-run']),
+  });
+
+  const response = await request(`/api/users/import?${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'application/x-ndjson' },
+    body: await readFile(file, 'utf8'),
+  });
+  const report = await response.json() as ImportReport;
+
+  for (const { line, userId, errors } of report.errors) {
+    const where = userId ? `line ${line} (${userId})` : `line ${line}`;
+    for (const error of errors) {
+      console.log(`${where}: ${error.field ? `${error.field} ` : ''}${error.message}`);
+    }
+  }
+
+  const verb = report.dryRun ? 'Would create' : 'Created';
+  console.log(
+    `${verb} ${report.created}, ${report.dryRun ? 'would update' : 'updated'} ${report.updated}, ` +
+    `${report.failed} failed of ${report.records} records`
+  );
+  return report.failed === 0;
+}
+
+async function main(): Promise<boolean> {
+  const [command, file] = positionals;
+  if (command === 'export') {
+    await exportUsers();
+    return true;
+  }
+  if (command === 'import' && file) {
+    return importUsers(file);
+  }
+  throw new Error('Usage: users export [--format jsonl|csv] [--out file] | users import <file> [--upsert] [--dry-run]');
+}
+
+// exitCode rather than exit(), so piped exports are flushed
+main()
+  .then((ok) => {
+    process.exitCode = ok ? 0 : 1;
+  })
+  .catch((error) => {
+    console.error('Failed:', (error as Error).message);
+    process.exitCode = 1;
+  });
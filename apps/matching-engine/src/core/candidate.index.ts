@@ -0,0 +1,305 @@
+/**
+ * Candidate index
+ * Approximate nearest-neighbour retrieval of candidates whose offers are close to a user's wants.
+ * Keeps an HNSW index over offered-skill embeddings in sync with the user repository.
+ */
+
+import type { EventEmitter } from 'node:events';
+import { mkdir, readFile, writeFile, rename } from 'node:fs/promises';
+import path from 'node:path';
+import type { UserProfile } from '../types/user.types.js';
+import type { MatchingConfig, CandidateRecallReport, CandidateRetrieval } from '../types/matching.types.js';
+import type { UserRepositoryEvents } from '../repositories/user.repository.js';
+import { HnswIndex, type SerializedHnswIndex } from './hnsw.index.js';
+import { matchingEngine } from './matching.engine.js';
+import { semanticService } from '../services/semantic.service.js';
+
+interface SerializedCandidateIndex {
+  versions: Record<string, string>;
+  index: SerializedHnswIndex;
+}
+
+/**
+ * ANN retrieval pays off only while the filtered candidates are a fair share of the
+ * index; below this share, widening the search to find enough of them costs more
+ * than scoring them all
+ */
+const MIN_FILTERED_SHARE = 0.1;
+
+export interface CandidateIndexStats {
+  users: number;
+  vectors: number;
+  tombstones: number;
+  persisted: boolean;
+}
+
+class CandidateIndex {
+  private index = new HnswIndex();
+  private versions: Map<string, string> = new Map(); // userId → updatedAt of the indexed profile
+  private updates: Promise<void> = Promise.resolve();
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(private filePath: string | null) {}
+
+  /**
+   * Load the persisted index and reconcile it with the current users
+   */
+  async initialize(users: UserProfile[]): Promise<void> {
+    await this.load();
+
+    const current = new Map(users.map((user) => [user.id, user]));
+    for (const userId of this.index.labels()) {
+      if (!current.has(userId)) {
+        this.removeUser(userId);
+      }
+    }
+
+    for (const user of users) {
+      if (this.versions.get(user.id) !== this.versionOf(user)) {
+        await this.upsertUsers([user]);
+      }
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Keep the index in sync with repository changes
+   */
+  attach(repository: EventEmitter<UserRepositoryEvents>): void {
+    repository.on('saved', (user) => this.enqueue(() => this.upsertUsers([user])));
+    repository.on('savedMany', (users) => this.enqueue(() => this.upsertUsers(users)));
+    repository.on('deleted', (userId) => this.enqueue(() => this.removeUser(userId)));
+    repository.on('cleared', () => this.enqueue(() => this.reset()));
+  }
+
+  /**
+   * Narrow the (already filtered) candidates to the poolSize closest ones for full scoring
+   * Falls back to scoring every candidate when there are few of them, when filters leave
+   * only a small share of the index, or when the index cannot serve the user
+   */
+  async retrieve(
+    user: UserProfile,
+    candidates: UserProfile[],
+    poolSize: number
+  ): Promise<{ candidates: UserProfile[]; strategy: CandidateRetrieval['strategy'] }> {
+    await this.updates;
+
+    if (candidates.length <= poolSize || candidates.length < this.index.labelCount * MIN_FILTERED_SHARE) {
+      return { candidates, strategy: 'exhaustive' };
+    }
+
+    const candidateIds = await this.findCandidates(user, poolSize, new Set(candidates.map((candidate) => candidate.id)));
+    if (!candidateIds || candidateIds.length === 0) {
+      return { candidates, strategy: 'exhaustive' };
+    }
+
+    const retrieved = new Set(candidateIds);
+    return { candidates: candidates.filter((candidate) => retrieved.has(candidate.id)), strategy: 'ann' };
+  }
+
+  /**
+   * Retrieve up to `limit` candidate ids whose offers best match the user's wants
+   * With `allowed`, only those users count, and the search widens until `limit` of them
+   * are found or the whole index has been searched
+   * Returns null when the index cannot serve the user (no wants or no embeddings)
+   */
+  async findCandidates(
+    user: UserProfile,
+    limit: number,
+    allowed: ReadonlySet<string> | null = null
+  ): Promise<string[] | null> {
+    await this.updates;
+
+    if (user.wants.length === 0 || this.index.size === 0) {
+      return null;
+    }
+
+    const embeddings = await semanticService.embedSkills(user.wants);
+    const vectors = user.wants
+      .map((want) => semanticService.getSkillVector(want, embeddings))
+      .filter((vector): vector is number[] => vector !== undefined);
+
+    if (vectors.length === 0) {
+      return null;
+    }
+
+    // Over-fetch because several vectors can belong to one user
+    for (let fetch = limit * 2; ; fetch *= 2) {
+      const best: Map<string, number> = new Map();
+      for (const vector of vectors) {
+        for (const hit of this.index.search(vector, fetch, Math.max(64, fetch))) {
+          if (hit.label === user.id || (allowed && !allowed.has(hit.label))) {
+            continue;
+          }
+          best.set(hit.label, Math.max(best.get(hit.label) ?? -1, hit.similarity));
+        }
+      }
+
+      if (best.size >= limit || fetch >= this.index.size) {
+        return Array.from(best.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, limit)
+          .map(([userId]) => userId);
+      }
+    }
+  }
+
+  /**
+   * Compare ANN retrieval against exhaustive scoring for one user
+   * Recall is the share of the exhaustive top-k that survives candidate retrieval
+   */
+  async measureRecall(
+    user: UserProfile,
+    population: UserProfile[],
+    k: number,
+    poolSize: number,
+    config: MatchingConfig
+  ): Promise<CandidateRecallReport> {
+    const rankingConfig: MatchingConfig = { ...config, minMatchScore: 0, maxResults: k };
+
+    const exhaustiveStart = Date.now();
+    const exhaustive = await matchingEngine.findMatches(user, population, rankingConfig);
+    const exhaustiveTime = Date.now() - exhaustiveStart;
+
+    const approximateStart = Date.now();
+    const allowed = new Set(population.map((candidate) => candidate.id));
+    const ids = new Set(await this.findCandidates(user, poolSize, allowed) ?? []);
+    const approximate = await matchingEngine.findMatches(
+      user,
+      population.filter((candidate) => ids.has(candidate.id)),
+      rankingConfig
+    );
+    const approximateTime = Date.now() - approximateStart;
+
+    const exhaustiveIds = exhaustive.map((match) => match.userB.id);
+    const approximateIds = approximate.map((match) => match.userB.id);
+    const retrieved = new Set(approximateIds);
+    const found = exhaustiveIds.filter((id) => retrieved.has(id)).length;
+
+    return {
+      k,
+      poolSize,
+      recall: exhaustiveIds.length === 0 ? 1 : found / exhaustiveIds.length,
+      exhaustiveIds,
+      approximateIds,
+      exhaustiveTime,
+      approximateTime,
+    };
+  }
+
+  /**
+   * Wait for queued updates (for tests and tooling)
+   */
+  async flush(): Promise<void> {
+    await this.updates;
+  }
+
+  /**
+   * Get index size statistics
+   */
+  getStats(): CandidateIndexStats {
+    return {
+      users: this.index.labelCount,
+      vectors: this.index.size,
+      tombstones: this.index.tombstones,
+      persisted: this.filePath !== null,
+    };
+  }
+
+  private enqueue(task: () => Promise<void> | void): void {
+    this.updates = this.updates
+      .then(task)
+      .catch((error) => console.error('Failed to update candidate index:', error))
+      .then(() => this.schedulePersist());
+  }
+
+  /**
+   * Re-index users' offers, embedding the whole batch at once
+   */
+  private async upsertUsers(users: UserProfile[]): Promise<void> {
+    const embeddings = await semanticService.embedSkills(users.flatMap((user) => user.offers));
+
+    for (const user of users) {
+      this.index.remove(user.id);
+      for (const offer of user.offers) {
+        const vector = semanticService.getSkillVector(offer, embeddings);
+        if (vector) {
+          this.index.add(user.id, vector);
+        }
+      }
+      this.versions.set(user.id, this.versionOf(user));
+    }
+
+    // Rebuild once tombstones dominate the graph
+    if (this.index.tombstones > this.index.size) {
+      this.index.compact();
+    }
+  }
+
+  private removeUser(userId: string): void {
+    this.index.remove(userId);
+    this.versions.delete(userId);
+  }
+
+  private reset(): void {
+    this.index = new HnswIndex();
+    this.versions.clear();
+  }
+
+  private versionOf(user: UserProfile): string {
+    return new Date(user.updatedAt).toISOString();
+  }
+
+  private async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      const data: SerializedCandidateIndex = JSON.parse(await readFile(this.filePath, 'utf8'));
+      this.index = HnswIndex.fromJSON(data.index);
+      this.versions = new Map(Object.entries(data.versions));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load candidate index, rebuilding:', error);
+      }
+      this.reset();
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch((error) => console.error('Failed to persist candidate index:', error));
+    }, 1000);
+    this.persistTimer.unref();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const data: SerializedCandidateIndex = {
+      versions: Object.fromEntries(this.versions),
+      index: this.index.toJSON(),
+    };
+
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(data));
+    await rename(tmp, this.filePath);
+  }
+}
+
+const indexPathEnv = process.env.CANDIDATE_INDEX_PATH;
+
+// Singleton instance
+export const candidateIndex = new CandidateIndex(
+  indexPathEnv === 'off' ? null : indexPathEnv ?? '.cache/candidate-index.json'
+);
@@ -0,0 +1,23 @@
+/**
+ * Opaque pagination cursors
+ * A cursor is the sort key of the last item on a page, encoded as base64url JSON
+ */
+
+export function encodeCursor(position: object): string {
+  return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor, returning null when it is malformed or missing a field
+ */
+export function decodeCursor<T extends object>(cursor: string, fields: Array<keyof T>): T | null {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof position !== 'object' || position === null) {
+      return null;
+    }
+    return fields.every((field) => field in position) ? (position as T) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Cycle engine
+ * Finds multi-party exchange rings (A teaches B, B teaches C, C teaches A) for users
+ * without a reciprocal partner. Rings are ranked by their weakest link.
+ * Users who blocked or declined each other, or are already swapping, are never linked.
+ */
+
+import type { UserProfile } from '../types/user.types.js';
+import type { CycleRequest, CycleResponse, SwapCycle, TeachingEdge } from '../types/matching.types.js';
+import { matchingEngine } from './matching.engine.js';
+import { matchRequestService } from '../services/match-request.service.js';
+
+// Stop enumerating once this many rings have been found; the response is then truncated
+const MAX_ENUMERATED_CYCLES = 10000;
+
+class CycleEngine {
+  /**
+   * Find exchange rings of minLength..maxLength users
+   * With userId, only rings through that user are enumerated, starting from them
+   */
+  async findCycles(users: UserProfile[], request: CycleRequest = {}): Promise<CycleResponse> {
+    const startTime = Date.now();
+    const minLength = Math.max(3, request.minLength ?? 3);
+    const maxLength = Math.max(minLength, request.maxLength ?? 5);
+    const minEdgeScore = request.minEdgeScore ?? 0.5;
+    const maxEdgesPerUser = request.maxEdgesPerUser ?? 10;
+    const maxResults = request.maxResults ?? 20;
+
+    const exclusions = await matchRequestService.getExclusions(users.map((user) => user.id));
+    const edges = (
+      await matchingEngine.calculateTeachingEdges(users, minEdgeScore, request.levelGapPolicy ?? 'gap-aware')
+    ).filter((edge) => !exclusions.get(edge.teacher.id)?.has(edge.learner.id));
+    const adjacency = this.buildAdjacency(users, edges, maxEdgesPerUser);
+    const order = new Map(users.map((user, i) => [user.id, i]));
+
+    const found: TeachingEdge[][] = [];
+
+    // Enumerate each ring once, starting from the requested user or else from its lowest-index member
+    const anchor = request.userId !== undefined ? order.get(request.userId) ?? -1 : null;
+    const starts = anchor === null ? Array.from(users.keys()) : anchor === -1 ? [] : [anchor];
+
+    for (const start of starts) {
+      if (found.length >= MAX_ENUMERATED_CYCLES) {
+        break;
+      }
+      const path: TeachingEdge[] = [];
+      const onPath = new Set<number>([start]);
+
+      const visit = (current: number): void => {
+        if (found.length >= MAX_ENUMERATED_CYCLES) {
+          return;
+        }
+
+        for (const edge of adjacency[current] ?? []) {
+          const next = order.get(edge.learner.id)!;
+
+          if (next === start) {
+            if (path.length + 1 >= minLength) {
+              found.push([...path, edge]);
+            }
+            continue;
+          }
+
+          if ((anchor === null && next < start) || onPath.has(next) || path.length + 1 >= maxLength) {
+            continue;
+          }
+
+          path.push(edge);
+          onPath.add(next);
+          visit(next);
+          onPath.delete(next);
+          path.pop();
+        }
+      };
+
+      visit(start);
+    }
+
+    const cycles = found.map((ring) => this.toSwapCycle(ring));
+
+    // Strongest weakest link first; shorter rings win ties since they are easier to run
+    cycles.sort((a, b) => b.weakestLink - a.weakestLink || a.length - b.length);
+
+    const processingTime = Date.now() - startTime;
+    console.log(`Found ${cycles.length} swap cycles in ${processingTime}ms`);
+
+    return {
+      cycles: cycles.slice(0, maxResults),
+      totalCycles: cycles.length,
+      truncated: found.length >= MAX_ENUMERATED_CYCLES,
+      totalUsers: users.length,
+      processingTime,
+    };
+  }
+
+  /**
+   * Outgoing edges per user, keeping each user's strongest edges only
+   */
+  private buildAdjacency(
+    users: UserProfile[],
+    edges: TeachingEdge[],
+    maxEdgesPerUser: number
+  ): TeachingEdge[][] {
+    const byTeacher = new Map<string, TeachingEdge[]>();
+    for (const edge of edges) {
+      byTeacher.set(edge.teacher.id, [...(byTeacher.get(edge.teacher.id) ?? []), edge]);
+    }
+
+    return users.map((user) =>
+      (byTeacher.get(user.id) ?? [])
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxEdgesPerUser)
+    );
+  }
+
+  private toSwapCycle(ring: TeachingEdge[]): SwapCycle {
+    return {
+      members: ring.map((edge) => ({ id: edge.teacher.id, username: edge.teacher.username })),
+      edges: ring.map((edge) => {
+        // Report the strongest skill pair carried by this edge
+        const best = edge.pairs.reduce((top, pair) =>
+          pair.similarity * pair.levelWeight > top.similarity * top.levelWeight ? pair : top
+        );
+
+        return {
+          from: { id: edge.teacher.id, username: edge.teacher.username },
+          to: { id: edge.learner.id, username: edge.learner.username },
+          score: edge.score,
+          offer: best.offer,
+          want: best.want,
+          similarity: best.similarity,
+        };
+      }),
+      weakestLink: Math.min(...ring.map((edge) => edge.score)),
+      length: ring.length,
+    };
+  }
+}
+
+// Singleton instance
+export const cycleEngine = new CycleEngine();
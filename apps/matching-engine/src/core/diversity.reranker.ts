@@ -0,0 +1,98 @@
+/**
+ * Diversity re-ranker
+ * Reorders scored matches by maximal marginal relevance, so the top results
+ * don't all teach the same skill:
+ *
+ * next = argmax λ * totalScore - (1 - λ) * max similarity to the results already picked
+ *
+ * A match is represented by the candidate's skills it was judged on: what they
+ * can teach the user, or, when they teach nothing the user wants, what they want
+ * to learn. Similarity between two matches is the best similarity between their
+ * skills, from the same embeddings used for scoring.
+ */
+
+import type { MatchResult, Skill } from '../types/user.types.js';
+import type { DiversityConfig, SkillEmbeddings } from '../types/matching.types.js';
+import { semanticService } from '../services/semantic.service.js';
+
+interface MatchedSkills {
+  skills: Skill[];
+  category: string | null; // Category of the strongest matched skill
+}
+
+class DiversityReranker {
+  /**
+   * Pick up to limit matches in diversity order; matches must be sorted by totalScore
+   * With maxPerCategory, matches whose category is full are passed over
+   */
+  async rerank(matches: MatchResult[], config: DiversityConfig, limit: number): Promise<MatchResult[]> {
+    const described = matches.map((match) => this.describe(match));
+    const embeddings = await semanticService.embedSkills(described.flatMap((entry) => entry.skills));
+
+    const remaining = new Set(matches.keys());
+    const redundancy = matches.map(() => 0); // Max similarity to any picked match
+    const perCategory = new Map<string, number>();
+    const picked: number[] = [];
+
+    while (picked.length < limit) {
+      let best = -1;
+      let bestValue = -Infinity;
+      for (const i of remaining) {
+        const category = described[i]!.category;
+        if (config.maxPerCategory !== undefined && category !== null &&
+          (perCategory.get(category) ?? 0) >= config.maxPerCategory) {
+          continue;
+        }
+
+        // Strictly greater, so ties keep the score order
+        const value = config.lambda * matches[i]!.matchScore.totalScore - (1 - config.lambda) * redundancy[i]!;
+        if (value > bestValue) {
+          best = i;
+          bestValue = value;
+        }
+      }
+      if (best === -1) {
+        break;
+      }
+
+      picked.push(best);
+      remaining.delete(best);
+      const category = described[best]!.category;
+      if (category !== null) {
+        perCategory.set(category, (perCategory.get(category) ?? 0) + 1);
+      }
+      for (const i of remaining) {
+        redundancy[i] = Math.max(redundancy[i]!, this.similarity(described[best]!, described[i]!, embeddings));
+      }
+    }
+
+    return picked.map((i, position) => ({
+      ...matches[i]!,
+      diversity: {
+        relevanceRank: i + 1,
+        category: described[i]!.category,
+        promoted: position < i,
+      },
+    }));
+  }
+
+  private describe(match: MatchResult): MatchedSkills {
+    const pairs = match.matchScore.explanation.matchedPairs;
+    const teaches = pairs.filter((pair) => pair.direction === 'BtoA').map((pair) => pair.offerSkill);
+    const skills = teaches.length > 0
+      ? teaches
+      : pairs.filter((pair) => pair.direction === 'AtoB').map((pair) => pair.wantSkill);
+
+    return { skills, category: skills[0]?.category ?? null };
+  }
+
+  private similarity(a: MatchedSkills, b: MatchedSkills, embeddings: SkillEmbeddings): number {
+    if (a.skills.length === 0 || b.skills.length === 0) {
+      return 0;
+    }
+    return Math.max(...semanticService.similarityMatrix(a.skills, b.skills, embeddings).flat());
+  }
+}
+
+// Singleton instance
+export const diversityReranker = new DiversityReranker();
@@ -0,0 +1,546 @@
+/**
+ * Maximum-weight matching on a general (non-bipartite) graph
+ * Edmonds' blossom algorithm with dual variables, O(n^3).
+ * Adapted from Joris van Rantwijk's reference implementation (mwmatching.py).
+ *
+ * Weights must be integers so every dual update stays exact.
+ */
+
+export interface WeightedEdge {
+  u: number;
+  v: number;
+  weight: number; // Non-negative integer
+}
+
+/**
+ * Compute a maximum-weight matching
+ * Returns mate[], where mate[v] is the vertex matched to v or -1
+ */
+export function maxWeightMatching(edges: WeightedEdge[], vertexCount: number): number[] {
+  const nvertex = vertexCount;
+  const nedge = edges.length;
+
+  if (nedge === 0 || nvertex === 0) {
+    return new Array(nvertex).fill(-1);
+  }
+
+  // A reduce, not Math.max(...): spreading hundreds of thousands of edges overflows the stack
+  const maxWeight = edges.reduce((max, edge) => Math.max(max, edge.weight), 0);
+
+  // endpoint[p] is the vertex at endpoint p; edge k has endpoints 2k and 2k + 1
+  const endpoint: number[] = [];
+  for (const edge of edges) {
+    endpoint.push(edge.u, edge.v);
+  }
+
+  // neighbend[v] lists the remote endpoints of edges incident to v
+  const neighbend: number[][] = Array.from({ length: nvertex }, () => []);
+  edges.forEach((edge, k) => {
+    neighbend[edge.u]!.push(2 * k + 1);
+    neighbend[edge.v]!.push(2 * k);
+  });
+
+  const mate: number[] = new Array(nvertex).fill(-1);
+  const label: number[] = new Array(2 * nvertex).fill(0);
+  const labelend: number[] = new Array(2 * nvertex).fill(-1);
+  const inblossom: number[] = Array.from({ length: nvertex }, (_, i) => i);
+  const blossomparent: number[] = new Array(2 * nvertex).fill(-1);
+  const blossomchilds: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const blossombase: number[] = [
+    ...Array.from({ length: nvertex }, (_, i) => i),
+    ...new Array(nvertex).fill(-1),
+  ];
+  const blossomendps: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const bestedge: number[] = new Array(2 * nvertex).fill(-1);
+  const blossombestedges: Array<number[] | null> = new Array(2 * nvertex).fill(null);
+  const unusedblossoms: number[] = Array.from({ length: nvertex }, (_, i) => nvertex + i);
+  const dualvar: number[] = [
+    ...new Array(nvertex).fill(maxWeight),
+    ...new Array(nvertex).fill(0),
+  ];
+  const allowedge: boolean[] = new Array(nedge).fill(false);
+  let queue: number[] = [];
+
+  const edgeAt = (k: number): WeightedEdge => edges[k]!;
+
+  const slack = (k: number): number => {
+    const { u, v, weight } = edgeAt(k);
+    return dualvar[u]! + dualvar[v]! - 2 * weight;
+  };
+
+  const blossomLeaves = (b: number): number[] => {
+    if (b < nvertex) {
+      return [b];
+    }
+    const leaves: number[] = [];
+    for (const t of blossomchilds[b]!) {
+      if (t < nvertex) {
+        leaves.push(t);
+      } else {
+        leaves.push(...blossomLeaves(t));
+      }
+    }
+    return leaves;
+  };
+
+  // Assign label t to the top-level blossom containing vertex w, reached via endpoint p
+  const assignLabel = (w: number, t: number, p: number): void => {
+    const b = inblossom[w]!;
+    label[w] = label[b] = t;
+    labelend[w] = labelend[b] = p;
+    bestedge[w] = bestedge[b] = -1;
+
+    if (t === 1) {
+      // b became an S-blossom; scan its vertices
+      queue.push(...blossomLeaves(b));
+    } else if (t === 2) {
+      // b became a T-blossom; its mate becomes an S-vertex
+      const base = blossombase[b]!;
+      assignLabel(endpoint[mate[base]!]!, 1, mate[base]! ^ 1);
+    }
+  };
+
+  // Trace back from v and w to find a new blossom base, or -1 for an augmenting path
+  const scanBlossom = (start: number, other: number): number => {
+    const path: number[] = [];
+    let base = -1;
+    let v = start;
+    let w = other;
+
+    while (v !== -1 || w !== -1) {
+      let b = inblossom[v]!;
+      if (label[b]! & 4) {
+        base = blossombase[b]!;
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+
+      if (labelend[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelend[b]!]!;
+        b = inblossom[v]!;
+        v = endpoint[labelend[b]!]!;
+      }
+
+      if (w !== -1) {
+        [v, w] = [w, v];
+      }
+    }
+
+    for (const b of path) {
+      label[b] = 1;
+    }
+    return base;
+  };
+
+  // Build a new blossom with the given base through S-vertices connected by edge k
+  const addBlossom = (base: number, k: number): void => {
+    let { u: v, v: w } = edgeAt(k);
+    const bb = inblossom[base]!;
+    let bv = inblossom[v]!;
+    let bw = inblossom[w]!;
+
+    const b = unusedblossoms.pop()!;
+    blossombase[b] = base;
+    blossomparent[b] = -1;
+    blossomparent[bb] = b;
+
+    const path: number[] = [];
+    const endps: number[] = [];
+    blossomchilds[b] = path;
+    blossomendps[b] = endps;
+
+    while (bv !== bb) {
+      blossomparent[bv] = b;
+      path.push(bv);
+      endps.push(labelend[bv]!);
+      v = endpoint[labelend[bv]!]!;
+      bv = inblossom[v]!;
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+
+    while (bw !== bb) {
+      blossomparent[bw] = b;
+      path.push(bw);
+      endps.push(labelend[bw]! ^ 1);
+      w = endpoint[labelend[bw]!]!;
+      bw = inblossom[w]!;
+    }
+
+    label[b] = 1;
+    labelend[b] = labelend[bb]!;
+    dualvar[b] = 0;
+
+    for (const leaf of blossomLeaves(b)) {
+      if (label[inblossom[leaf]!] === 2) {
+        // T-vertices inside the blossom become S-vertices
+        queue.push(leaf);
+      }
+      inblossom[leaf] = b;
+    }
+
+    // Compute the least-slack edges to neighbouring S-blossoms
+    const bestedgeto: number[] = new Array(2 * nvertex).fill(-1);
+    for (const child of path) {
+      const nblists: number[][] = blossombestedges[child]
+        ? [blossombestedges[child]!]
+        : blossomLeaves(child).map((leaf) => neighbend[leaf]!.map((p) => Math.floor(p / 2)));
+
+      for (const nblist of nblists) {
+        for (const edgeIndex of nblist) {
+          let { u: i, v: j } = edgeAt(edgeIndex);
+          if (inblossom[j] === b) {
+            [i, j] = [j, i];
+          }
+          const bj = inblossom[j]!;
+          if (
+            bj !== b &&
+            label[bj] === 1 &&
+            (bestedgeto[bj] === -1 || slack(edgeIndex) < slack(bestedgeto[bj]!))
+          ) {
+            bestedgeto[bj] = edgeIndex;
+          }
+        }
+      }
+      blossombestedges[child] = null;
+      bestedge[child] = -1;
+    }
+
+    blossombestedges[b] = bestedgeto.filter((edgeIndex) => edgeIndex !== -1);
+    bestedge[b] = -1;
+    for (const edgeIndex of blossombestedges[b]!) {
+      if (bestedge[b] === -1 || slack(edgeIndex) < slack(bestedge[b]!)) {
+        bestedge[b] = edgeIndex;
+      }
+    }
+  };
+
+  // Expand a blossom, either mid-stage (T-blossom with zero dual) or at the end of a stage
+  const expandBlossom = (b: number, endstage: boolean): void => {
+    const childs = blossomchilds[b]!;
+    const endps = blossomendps[b]!;
+
+    for (const s of childs) {
+      blossomparent[s] = -1;
+      if (s < nvertex) {
+        inblossom[s] = s;
+      } else if (endstage && dualvar[s] === 0) {
+        expandBlossom(s, endstage);
+      } else {
+        for (const leaf of blossomLeaves(s)) {
+          inblossom[leaf] = s;
+        }
+      }
+    }
+
+    if (!endstage && label[b] === 2) {
+      // Relabel the sub-blossoms along the even path through the expanded blossom
+      const entrychild = inblossom[endpoint[labelend[b]! ^ 1]!]!;
+      let j = childs.indexOf(entrychild);
+      let jstep: number;
+      let endptrick: number;
+
+      if (j & 1) {
+        j -= childs.length;
+        jstep = 1;
+        endptrick = 0;
+      } else {
+        jstep = -1;
+        endptrick = 1;
+      }
+
+      let p = labelend[b]!;
+      while (j !== 0) {
+        label[endpoint[p ^ 1]!] = 0;
+        label[endpoint[endps.at(j - endptrick)! ^ endptrick ^ 1]!] = 0;
+        assignLabel(endpoint[p ^ 1]!, 2, p);
+        allowedge[Math.floor(endps.at(j - endptrick)! / 2)] = true;
+        j += jstep;
+        p = endps.at(j - endptrick)! ^ endptrick;
+        allowedge[Math.floor(p / 2)] = true;
+        j += jstep;
+      }
+
+      const bv = childs.at(j)!;
+      label[endpoint[p ^ 1]!] = label[bv] = 2;
+      labelend[endpoint[p ^ 1]!] = labelend[bv] = p;
+      bestedge[bv] = -1;
+
+      j += jstep;
+      while (childs.at(j) !== entrychild) {
+        const child = childs.at(j)!;
+        if (label[child] === 1) {
+          j += jstep;
+          continue;
+        }
+
+        const labelled = blossomLeaves(child).find((leaf) => label[leaf] !== 0);
+        if (labelled !== undefined) {
+          label[labelled] = 0;
+          label[endpoint[mate[blossombase[child]!]!]!] = 0;
+          assignLabel(labelled, 2, labelend[labelled]!);
+        }
+        j += jstep;
+      }
+    }
+
+    label[b] = labelend[b] = -1;
+    blossomchilds[b] = blossomendps[b] = null;
+    blossombase[b] = -1;
+    blossombestedges[b] = null;
+    bestedge[b] = -1;
+    unusedblossoms.push(b);
+  };
+
+  // Swap matched and unmatched edges along the path inside blossom b from vertex v to the base
+  const augmentBlossom = (b: number, v: number): void => {
+    let t = v;
+    while (blossomparent[t] !== b) {
+      t = blossomparent[t]!;
+    }
+    if (t >= nvertex) {
+      augmentBlossom(t, v);
+    }
+
+    const childs = blossomchilds[b]!;
+    const endps = blossomendps[b]!;
+    const i = childs.indexOf(t);
+    let j = i;
+    let jstep: number;
+    let endptrick: number;
+
+    if (i & 1) {
+      j -= childs.length;
+      jstep = 1;
+      endptrick = 0;
+    } else {
+      jstep = -1;
+      endptrick = 1;
+    }
+
+    while (j !== 0) {
+      j += jstep;
+      t = childs.at(j)!;
+      const p = endps.at(j - endptrick)! ^ endptrick;
+      if (t >= nvertex) {
+        augmentBlossom(t, endpoint[p]!);
+      }
+      j += jstep;
+      t = childs.at(j)!;
+      if (t >= nvertex) {
+        augmentBlossom(t, endpoint[p ^ 1]!);
+      }
+      mate[endpoint[p]!] = p ^ 1;
+      mate[endpoint[p ^ 1]!] = p;
+    }
+
+    // Rotate so the new base comes first
+    blossomchilds[b] = [...childs.slice(i), ...childs.slice(0, i)];
+    blossomendps[b] = [...endps.slice(i), ...endps.slice(0, i)];
+    blossombase[b] = blossombase[blossomchilds[b]![0]!]!;
+  };
+
+  // Augment the matching along the path through edge k
+  const augmentMatching = (k: number): void => {
+    const { u: v, v: w } = edgeAt(k);
+
+    for (let [s, p] of [[v, 2 * k + 1], [w, 2 * k]] as Array<[number, number]>) {
+      for (;;) {
+        const bs = inblossom[s]!;
+        if (bs >= nvertex) {
+          augmentBlossom(bs, s);
+        }
+        mate[s] = p;
+
+        if (labelend[bs] === -1) {
+          break;
+        }
+
+        const t = endpoint[labelend[bs]!]!;
+        const bt = inblossom[t]!;
+        s = endpoint[labelend[bt]!]!;
+        const j = endpoint[labelend[bt]! ^ 1]!;
+        if (bt >= nvertex) {
+          augmentBlossom(bt, j);
+        }
+        mate[j] = labelend[bt]!;
+        p = labelend[bt]! ^ 1;
+      }
+    }
+  };
+
+  // Main loop: each stage either augments the matching or proves it is maximum
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestedge.fill(-1);
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      blossombestedges[b] = null;
+    }
+    allowedge.fill(false);
+    queue = [];
+
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inblossom[v]!] === 0) {
+        assignLabel(v, 1, -1);
+      }
+    }
+
+    let augmented = false;
+
+    for (;;) {
+      while (queue.length > 0 && !augmented) {
+        const v = queue.pop()!;
+
+        for (const p of neighbend[v]!) {
+          const k = Math.floor(p / 2);
+          const w = endpoint[p]!;
+
+          if (inblossom[v] === inblossom[w]) {
+            continue;
+          }
+
+          let kslack = 0;
+          if (!allowedge[k]) {
+            kslack = slack(k);
+            if (kslack <= 0) {
+              allowedge[k] = true;
+            }
+          }
+
+          if (allowedge[k]) {
+            if (label[inblossom[w]!] === 0) {
+              // w is free: label it T and its mate S
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inblossom[w]!] === 1) {
+              // Two S-vertices: either a new blossom or an augmenting path
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              // w is inside a T-blossom but not yet reached from outside
+              label[w] = 2;
+              labelend[w] = p ^ 1;
+            }
+          } else if (label[inblossom[w]!] === 1) {
+            const b = inblossom[v]!;
+            if (bestedge[b] === -1 || kslack < slack(bestedge[b]!)) {
+              bestedge[b] = k;
+            }
+          } else if (label[w] === 0) {
+            if (bestedge[w] === -1 || kslack < slack(bestedge[w]!)) {
+              bestedge[w] = k;
+            }
+          }
+        }
+      }
+
+      if (augmented) {
+        break;
+      }
+
+      // No augmenting path with current duals: compute the dual adjustment
+      let deltatype = 1;
+      let delta = dualvar.slice(0, nvertex).reduce((min, value) => Math.min(min, value), Infinity);
+      let deltaedge = -1;
+      let deltablossom = -1;
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]!] === 0 && bestedge[v] !== -1) {
+          const d = slack(bestedge[v]!);
+          if (d < delta) {
+            delta = d;
+            deltatype = 2;
+            deltaedge = bestedge[v]!;
+          }
+        }
+      }
+
+      for (let b = 0; b < 2 * nvertex; b++) {
+        if (blossomparent[b] === -1 && label[b] === 1 && bestedge[b] !== -1) {
+          const d = slack(bestedge[b]!) / 2;
+          if (d < delta) {
+            delta = d;
+            deltatype = 3;
+            deltaedge = bestedge[b]!;
+          }
+        }
+      }
+
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (
+          blossombase[b]! >= 0 &&
+          blossomparent[b] === -1 &&
+          label[b] === 2 &&
+          dualvar[b]! < delta
+        ) {
+          delta = dualvar[b]!;
+          deltatype = 4;
+          deltablossom = b;
+        }
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]!] === 1) {
+          dualvar[v] = dualvar[v]! - delta;
+        } else if (label[inblossom[v]!] === 2) {
+          dualvar[v] = dualvar[v]! + delta;
+        }
+      }
+
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b]! >= 0 && blossomparent[b] === -1) {
+          if (label[b] === 1) {
+            dualvar[b] = dualvar[b]! + delta;
+          } else if (label[b] === 2) {
+            dualvar[b] = dualvar[b]! - delta;
+          }
+        }
+      }
+
+      if (deltatype === 1) {
+        // Optimum reached
+        break;
+      } else if (deltatype === 2) {
+        allowedge[deltaedge] = true;
+        let { u: i, v: j } = edgeAt(deltaedge);
+        if (label[inblossom[i]!] === 0) {
+          [i, j] = [j, i];
+        }
+        queue.push(i);
+      } else if (deltatype === 3) {
+        allowedge[deltaedge] = true;
+        queue.push(edgeAt(deltaedge).u);
+      } else {
+        expandBlossom(deltablossom, false);
+      }
+    }
+
+    if (!augmented) {
+      break;
+    }
+
+    // Expand S-blossoms with zero dual at the end of the stage
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      if (
+        blossomparent[b] === -1 &&
+        blossombase[b]! >= 0 &&
+        label[b] === 1 &&
+        dualvar[b] === 0
+      ) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  return mate.map((p) => (p >= 0 ? endpoint[p]! : -1));
+}
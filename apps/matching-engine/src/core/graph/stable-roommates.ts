@@ -0,0 +1,151 @@
+/**
+ * Stable roommates matching
+ * Irving's algorithm, extended to incomplete preference lists.
+ * People missing from someone's list are unacceptable to them.
+ */
+
+/**
+ * Compute a stable matching
+ * preferences[x] lists acceptable partners of x, most preferred first, and must be mutual
+ * Returns mate[], where mate[x] is x's partner or -1, or null if no stable matching exists
+ */
+export function stableRoommates(preferences: number[][]): number[] | null {
+  const n = preferences.length;
+  const alive: Array<Set<number>> = preferences.map((list) => new Set(list));
+  const head: number[] = new Array(n).fill(0);
+  const tail: number[] = preferences.map((list) => list.length - 1);
+  const rank: Array<Map<number, number>> = preferences.map(
+    (list) => new Map(list.map((person, position) => [person, position]))
+  );
+
+  const removePair = (a: number, b: number): void => {
+    alive[a]!.delete(b);
+    alive[b]!.delete(a);
+  };
+
+  const first = (x: number): number => {
+    const list = preferences[x]!;
+    while (head[x]! <= tail[x]! && !alive[x]!.has(list[head[x]!]!)) {
+      head[x]!++;
+    }
+    return head[x]! <= tail[x]! ? list[head[x]!]! : -1;
+  };
+
+  const last = (x: number): number => {
+    const list = preferences[x]!;
+    while (tail[x]! >= head[x]! && !alive[x]!.has(list[tail[x]!]!)) {
+      tail[x]!--;
+    }
+    return tail[x]! >= head[x]! ? list[tail[x]!]! : -1;
+  };
+
+  const second = (x: number): number => {
+    const list = preferences[x]!;
+    let seen = 0;
+    for (let i = head[x]!; i <= tail[x]!; i++) {
+      if (alive[x]!.has(list[i]!) && ++seen === 2) {
+        return list[i]!;
+      }
+    }
+    return -1;
+  };
+
+  // Remove everyone y ranks below x from y's list
+  const truncateAfter = (y: number, x: number): void => {
+    const list = preferences[y]!;
+    const cutoff = rank[y]!.get(x)!;
+    for (let i = tail[y]!; i > cutoff; i--) {
+      const other = list[i]!;
+      if (alive[y]!.has(other)) {
+        removePair(y, other);
+      }
+    }
+  };
+
+  // Phase 1: proposals, with each recipient holding their best offer so far
+  const heldBy: number[] = new Array(n).fill(-1); // heldBy[y] = proposer y currently holds
+  const free: number[] = Array.from({ length: n }, (_, x) => x);
+
+  while (free.length > 0) {
+    const x = free.pop()!;
+    const y = first(x);
+    if (y === -1) {
+      // x is unacceptable to everyone left and stays unmatched
+      continue;
+    }
+
+    const previous = heldBy[y]!;
+    heldBy[y] = x;
+    truncateAfter(y, x);
+
+    if (previous !== -1 && previous !== x) {
+      free.push(previous);
+    }
+  }
+
+  // Anyone left with a partner after phase 1 must keep one in every stable matching
+  const active = alive
+    .map((set, x) => (set.size > 0 ? x : -1))
+    .filter((x) => x !== -1);
+
+  // Phase 2: eliminate rotations until every list has at most one entry
+  for (;;) {
+    let start = -1;
+    for (let x = 0; x < n; x++) {
+      if (alive[x]!.size >= 2) {
+        start = x;
+        break;
+      }
+    }
+    if (start === -1) {
+      break;
+    }
+
+    // Walk p(i+1) = last(second(p(i))) until a person repeats
+    const sequence: number[] = [];
+    const seenAt: Map<number, number> = new Map();
+    let p = start;
+    while (!seenAt.has(p)) {
+      seenAt.set(p, sequence.length);
+      sequence.push(p);
+      const q = second(p);
+      if (q === -1) {
+        return null;
+      }
+      p = last(q);
+      if (p === -1) {
+        return null;
+      }
+    }
+
+    const rotation = sequence.slice(seenAt.get(p)!);
+    const seconds = rotation.map((x) => second(x));
+
+    // Each second choice rejects everyone worse than the rotating proposer
+    rotation.forEach((x, i) => {
+      truncateAfter(seconds[i]!, x);
+    });
+
+    if (active.some((x) => alive[x]!.size === 0)) {
+      return null;
+    }
+  }
+
+  const mate: number[] = new Array(n).fill(-1);
+  for (let x = 0; x < n; x++) {
+    const partner = first(x);
+    if (partner !== -1) {
+      mate[x] = partner;
+    }
+  }
+
+  // Lists must pair up symmetrically for the matching to be valid
+  for (let x = 0; x < n; x++) {
+    const partner = mate[x]!;
+    if (partner !== -1 && mate[partner] !== x) {
+      return null;
+    }
+  }
+
+  return mate;
+}
@@ -0,0 +1,397 @@
+/**
+ * HNSW (Hierarchical Navigable Small World) vector index
+ * In-process approximate nearest-neighbour search over cosine similarity.
+ * Several vectors may share a label (e.g. one vector per offered skill of a user).
+ */
+
+export interface HnswOptions {
+  m?: number; // Max neighbours per node on upper layers (layer 0 uses 2 * m)
+  efConstruction?: number; // Candidate list size while inserting
+  efSearch?: number; // Default candidate list size while searching
+  seed?: number; // Seed for level assignment, keeps builds reproducible
+}
+
+export interface HnswSearchResult {
+  label: string;
+  similarity: number; // Cosine similarity (-1 to 1)
+}
+
+interface HnswNode {
+  label: string;
+  vector: number[];
+  level: number;
+  neighbors: number[][]; // neighbors[layer] = node ids
+  deleted: boolean;
+}
+
+export interface SerializedHnswIndex {
+  version: 1;
+  options: Required<HnswOptions>;
+  rngState: number;
+  entryPoint: number | null;
+  maxLevel: number;
+  nodes: HnswNode[];
+}
+
+interface Candidate {
+  id: number;
+  distance: number;
+}
+
+export class HnswIndex {
+  private options: Required<HnswOptions>;
+  private nodes: HnswNode[] = [];
+  private labelNodes: Map<string, number[]> = new Map();
+  private entryPoint: number | null = null;
+  private maxLevel = -1;
+  private rngState: number;
+  private levelMultiplier: number;
+  private deletedCount = 0;
+
+  constructor(options: HnswOptions = {}) {
+    this.options = {
+      m: options.m ?? 16,
+      efConstruction: options.efConstruction ?? 100,
+      efSearch: options.efSearch ?? 64,
+      seed: options.seed ?? 42,
+    };
+    this.rngState = this.options.seed >>> 0;
+    this.levelMultiplier = 1 / Math.log(Math.max(2, this.options.m));
+  }
+
+  /**
+   * Number of live (non-deleted) vectors
+   */
+  get size(): number {
+    return this.nodes.length - this.deletedCount;
+  }
+
+  /**
+   * Number of distinct live labels
+   */
+  get labelCount(): number {
+    return this.labelNodes.size;
+  }
+
+  /**
+   * Number of tombstoned vectors still kept in the graph
+   */
+  get tombstones(): number {
+    return this.deletedCount;
+  }
+
+  /**
+   * Check whether a label has vectors in the index
+   */
+  has(label: string): boolean {
+    return this.labelNodes.has(label);
+  }
+
+  /**
+   * All labels with live vectors
+   */
+  labels(): string[] {
+    return Array.from(this.labelNodes.keys());
+  }
+
+  /**
+   * Insert a vector under a label
+   */
+  add(label: string, vector: number[]): void {
+    const id = this.nodes.length;
+    const level = this.randomLevel();
+    const node: HnswNode = {
+      label,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.labelNodes.set(label, [...(this.labelNodes.get(label) ?? []), id]);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(vector, entry, layer);
+    }
+
+    // Connect the node on each of its layers
+    let entries = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(vector, entries, this.options.efConstruction, layer);
+      const maxNeighbors = this.maxNeighbors(layer);
+      const selected = found.slice(0, maxNeighbors).map((candidate) => candidate.id);
+
+      node.neighbors[layer] = selected;
+
+      for (const neighborId of selected) {
+        const neighbor = this.nodes[neighborId];
+        if (!neighbor) {
+          continue;
+        }
+        const links = neighbor.neighbors[layer] ?? [];
+        links.push(id);
+        neighbor.neighbors[layer] = links.length > maxNeighbors
+          ? this.pruneNeighbors(neighbor.vector, links, maxNeighbors)
+          : links;
+      }
+
+      entries = found.map((candidate) => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Remove every vector stored under a label
+   * Vectors are tombstoned so the graph stays navigable; call compact() to reclaim them
+   */
+  remove(label: string): boolean {
+    const ids = this.labelNodes.get(label);
+    if (!ids) {
+      return false;
+    }
+
+    for (const id of ids) {
+      const node = this.nodes[id];
+      if (node && !node.deleted) {
+        node.deleted = true;
+        this.deletedCount++;
+      }
+    }
+    this.labelNodes.delete(label);
+    return true;
+  }
+
+  /**
+   * Find the k vectors most similar to the query
+   */
+  search(query: number[], k: number, ef: number = this.options.efSearch): HnswSearchResult[] {
+    if (this.entryPoint === null || k <= 0) {
+      return [];
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(query, entry, layer);
+    }
+
+    // Widen the search so tombstoned vectors do not crowd out live ones
+    const width = Math.max(ef, k) + this.deletedCount;
+    const found = this.searchLayer(query, [entry], width, 0);
+
+    const results: HnswSearchResult[] = [];
+    for (const candidate of found) {
+      const node = this.nodes[candidate.id];
+      if (!node || node.deleted) {
+        continue;
+      }
+      results.push({ label: node.label, similarity: 1 - candidate.distance });
+      if (results.length >= k) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Rebuild the graph without tombstoned vectors
+   */
+  compact(): void {
+    const live = this.nodes.filter((node) => !node.deleted);
+
+    this.nodes = [];
+    this.labelNodes = new Map();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+    this.rngState = this.options.seed >>> 0;
+
+    for (const node of live) {
+      this.add(node.label, node.vector);
+    }
+  }
+
+  /**
+   * Serialize the index to a plain JSON-compatible object
+   */
+  toJSON(): SerializedHnswIndex {
+    return {
+      version: 1,
+      options: this.options,
+      rngState: this.rngState,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes,
+    };
+  }
+
+  /**
+   * Restore an index produced by toJSON()
+   */
+  static fromJSON(data: SerializedHnswIndex): HnswIndex {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported HNSW index version: ${data.version}`);
+    }
+
+    const index = new HnswIndex(data.options);
+    index.nodes = data.nodes;
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    index.rngState = data.rngState;
+
+    data.nodes.forEach((node, id) => {
+      if (node.deleted) {
+        index.deletedCount++;
+        return;
+      }
+      index.labelNodes.set(node.label, [...(index.labelNodes.get(node.label) ?? []), id]);
+    });
+
+    return index;
+  }
+
+  private maxNeighbors(layer: number): number {
+    return layer === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private randomLevel(): number {
+    // mulberry32
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+
+    return Math.floor(-Math.log(1 - random) * this.levelMultiplier);
+  }
+
+  private distance(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i]! * b[i]!;
+      normA += a[i]! * a[i]!;
+      normB += b[i]! * b[i]!;
+    }
+
+    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+    return denominator === 0 ? 1 : 1 - dot / denominator;
+  }
+
+  private greedyClosest(query: number[], entry: number, layer: number): number {
+    let current = entry;
+    let currentDistance = this.distance(query, this.nodes[current]!.vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighborId of this.nodes[current]!.neighbors[layer] ?? []) {
+        const neighbor = this.nodes[neighborId];
+        if (!neighbor) {
+          continue;
+        }
+        const neighborDistance = this.distance(query, neighbor.vector);
+        if (neighborDistance < currentDistance) {
+          current = neighborId;
+          currentDistance = neighborDistance;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Best-first search on one layer, returns up to ef candidates sorted by distance
+   */
+  private searchLayer(query: number[], entries: number[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<number>(entries);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const id of entries) {
+      const node = this.nodes[id];
+      if (!node) {
+        continue;
+      }
+      const entry = { id, distance: this.distance(query, node.vector) };
+      insertSorted(candidates, entry);
+      insertSorted(results, entry);
+    }
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      const furthest = results[results.length - 1];
+      if (furthest && closest.distance > furthest.distance && results.length >= ef) {
+        break;
+      }
+
+      for (const neighborId of this.nodes[closest.id]?.neighbors[layer] ?? []) {
+        if (visited.has(neighborId)) {
+          continue;
+        }
+        visited.add(neighborId);
+
+        const neighbor = this.nodes[neighborId];
+        if (!neighbor) {
+          continue;
+        }
+
+        const neighborDistance = this.distance(query, neighbor.vector);
+        const worst = results[results.length - 1];
+        if (results.length < ef || (worst && neighborDistance < worst.distance)) {
+          const entry = { id: neighborId, distance: neighborDistance };
+          insertSorted(candidates, entry);
+          insertSorted(results, entry);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private pruneNeighbors(vector: number[], links: number[], maxNeighbors: number): number[] {
+    return links
+      .map((id) => ({ id, distance: this.distance(vector, this.nodes[id]!.vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxNeighbors)
+      .map((candidate) => candidate.id);
+  }
+}
+
+/**
+ * Insert into an array kept sorted by ascending distance
+ */
+function insertSorted(list: Candidate[], item: Candidate): void {
+  let low = 0;
+  let high = list.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid]!.distance <= item.distance) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  list.splice(low, 0, item);
+}
@@ -0,0 +1,397 @@
+/**
+ * Match index
+ * Precomputed top-N matches per user under the default config, kept up to date
+ * from repository events so /find can skip scoring.
+ *
+ * When a profile is saved, its own list is recomputed and only the pairs that
+ * involve it are rescored in everyone else's list: O(N) pair scores per save.
+ * Saves that change no field the default config scores on (see
+ * matchingEngine.scoringFields) are skipped. A batch saved with saveMany is
+ * applied in one update. A list is rebuilt in full only when a changed or deleted
+ * user drops out of it and the next best candidate is unknown. Until a save is
+ * applied, the saved user's list and lists that contain them are scored live.
+ *
+ * The initial build scores every pair, O(N²), and yields between users so requests
+ * are still served (live) meanwhile. Blocks and match requests change often, so they
+ * are applied when the index is read, not stored in it.
+ */
+
+import type { MatchResult, MatchScore, UserProfile } from '../types/user.types.js';
+import type { MatchCursor, MatchingConfig, MatchPage } from '../types/matching.types.js';
+import type { UserRepository } from '../repositories/user.repository.js';
+import { matchRequestService } from '../services/match-request.service.js';
+import { matchingEngine } from './matching.engine.js';
+
+/**
+ * Config keys that change scores; a request setting any of them is scored live
+ */
+const SCORING_KEYS: Array<keyof MatchingConfig> = [
+  'weights',
+  'scorerWeights',
+  'enableBidirectionalMatching',
+  'reciprocity',
+  'reciprocityThreshold',
+  'reciprocityMean',
+  'levelGapPolicy',
+  'minAvailabilityOverlapHours',
+  'diversity', // Lists are kept in score order only
+  'fairness',
+];
+
+export interface IndexedMatch {
+  candidateId: string;
+  matchScore: MatchScore;
+}
+
+export interface IndexedMatches {
+  matches: IndexedMatch[]; // Best first: totalScore descending, then candidate id
+  complete: boolean; // Every other user is in the list, so no page runs past it
+  computedAt: Date; // Last time the list was rebuilt or patched
+}
+
+export interface IndexedMatchPage extends MatchPage {
+  computedAt: Date;
+}
+
+export interface MatchIndexStats {
+  enabled: boolean;
+  size: number; // Matches kept per user
+  users: number;
+  staleUsers: number; // Waiting for a rebuild
+  pendingUpdates: number;
+  ready: boolean; // Initial build finished
+}
+
+export class MatchIndex {
+  private lists: Map<string, IndexedMatches> = new Map();
+  private stale: Set<string> = new Set();
+  private signatures: Map<string, string> = new Map(); // userId → scored fields of the profile the index last saw
+  private queued: Map<string, number> = new Map(); // userId → saves not yet applied
+  private repository: UserRepository | null = null;
+  private updates: Promise<void> = Promise.resolve();
+  private pendingUpdates = 0;
+  private ready = false;
+
+  constructor(private size: number | null) {}
+
+  /**
+   * Keep the index in sync with repository changes
+   */
+  attach(repository: UserRepository): void {
+    if (this.size === null) {
+      return;
+    }
+
+    this.repository = repository;
+    repository.on('saved', (user) => this.enqueueSaved([user]));
+    repository.on('savedMany', (users) => this.enqueueSaved(users));
+    repository.on('deleted', (userId) => this.enqueue(() => this.removeUser(userId)));
+    repository.on('cleared', () => this.enqueue(() => this.reset()));
+  }
+
+  /**
+   * Build every list in the background; /find scores live until a user's list exists
+   */
+  initialize(): void {
+    this.enqueue(async () => {
+      const users = await this.getUsers();
+      for (const user of users) {
+        await this.rebuild(user, users);
+        await this.pause();
+      }
+      this.ready = true;
+      console.log(`Match index built for ${users.length} users`);
+    });
+  }
+
+  /**
+   * A user's precomputed matches, or null when the index can't serve them
+   */
+  get(userId: string): IndexedMatches | null {
+    if (this.size === null || this.stale.has(userId) || this.queued.has(userId)) {
+      return null;
+    }
+    return this.lists.get(userId) ?? null;
+  }
+
+  /**
+   * Serve a /find page from the index, or null when it has to be scored live
+   * candidates are the users that passed the request's filters
+   */
+  async findMatchPage(
+    user: UserProfile,
+    candidates: UserProfile[],
+    config: Partial<MatchingConfig>,
+    after: MatchCursor | null = null
+  ): Promise<IndexedMatchPage | null> {
+    if (SCORING_KEYS.some((key) => config[key] !== undefined)) {
+      return null;
+    }
+
+    const list = this.get(user.id);
+    if (!list) {
+      return null;
+    }
+    if (this.queued.size > 0 && list.matches.some((match) => this.queued.has(match.candidateId))) {
+      return null;
+    }
+
+    const minScore = config.minMatchScore ?? 0.3;
+    const maxResults = config.maxResults ?? 50;
+    const relationships = await matchRequestService.getRelationships(user.id);
+    const byId = new Map(candidates.map((candidate) => [candidate.id, candidate]));
+
+    const matches: MatchResult[] = [];
+    for (const { candidateId, matchScore } of list.matches) {
+      const candidate = byId.get(candidateId);
+      if (!candidate || relationships.excludedUserIds.has(candidateId) || matchScore.totalScore < minScore) {
+        continue;
+      }
+      if (after && !this.isAfter(candidateId, matchScore.totalScore, after)) {
+        continue;
+      }
+
+      const pendingRequest = relationships.pending.get(candidateId);
+      matches.push({
+        userA: user,
+        userB: candidate,
+        matchScore,
+        matchedAt: new Date(),
+        ...(pendingRequest && { pendingRequest }),
+      });
+    }
+
+    // Past the end of a truncated list the order is unknown, unless everything there scores below minScore
+    const lastListed = list.matches[list.matches.length - 1];
+    const pageKnown = list.complete || matches.length > maxResults ||
+      (lastListed !== undefined && lastListed.matchScore.totalScore < minScore);
+    if (!pageKnown) {
+      return null;
+    }
+
+    return {
+      matches: matches.slice(0, maxResults),
+      hasMore: matches.length > maxResults,
+      computedAt: list.computedAt,
+    };
+  }
+
+  getStats(): MatchIndexStats {
+    return {
+      enabled: this.size !== null,
+      size: this.size ?? 0,
+      users: this.lists.size,
+      staleUsers: this.stale.size,
+      pendingUpdates: this.pendingUpdates,
+      ready: this.ready,
+    };
+  }
+
+  /**
+   * Wait for queued updates (for tests and tooling)
+   */
+  async flush(): Promise<void> {
+    await this.updates;
+  }
+
+  private enqueue(task: () => Promise<void> | void): void {
+    this.pendingUpdates++;
+    this.updates = this.updates
+      .then(task)
+      .catch((error) => console.error('Failed to update match index:', error))
+      .then(() => this.rebuildStale())
+      .catch((error) => console.error('Failed to rebuild match index lists:', error))
+      .finally(() => {
+        this.pendingUpdates--;
+      });
+  }
+
+  /**
+   * Queue an update for saved profiles; their lists aren't served until it is applied
+   */
+  private enqueueSaved(saved: UserProfile[]): void {
+    for (const user of saved) {
+      this.queued.set(user.id, (this.queued.get(user.id) ?? 0) + 1);
+    }
+
+    this.enqueue(async () => {
+      try {
+        await this.updateUsers(saved);
+      } finally {
+        for (const user of saved) {
+          const count = (this.queued.get(user.id) ?? 1) - 1;
+          if (count > 0) {
+            this.queued.set(user.id, count);
+          } else {
+            this.queued.delete(user.id);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Recompute the saved users' lists and rescore their pairs in everyone else's
+   * Users whose scored fields didn't change are skipped
+   */
+  private async updateUsers(saved: UserProfile[]): Promise<void> {
+    const fields = matchingEngine.scoringFields();
+    const changed = saved.filter((user) => {
+      const signature = this.signatureOf(user, fields);
+      return signature === null || !this.lists.has(user.id) || this.signatures.get(user.id) !== signature;
+    });
+    if (changed.length === 0) {
+      return;
+    }
+
+    const users = await this.getUsers();
+    const changedIds = new Set(changed.map((user) => user.id));
+    for (const user of changed) {
+      await this.rebuild(user, users);
+    }
+
+    // Changed users' own lists are already current
+    const others = users.filter((other) => !changedIds.has(other.id));
+    for (const user of changed) {
+      const scores = await matchingEngine.scorePairs(others.map((other): [UserProfile, UserProfile] => [other, user]));
+      others.forEach((other, i) => this.patch(other.id, { candidateId: user.id, matchScore: scores[i]! }));
+      await this.pause();
+    }
+  }
+
+  private removeUser(userId: string): void {
+    this.lists.delete(userId);
+    this.stale.delete(userId);
+    this.signatures.delete(userId);
+
+    for (const [ownerId, list] of this.lists) {
+      const index = list.matches.findIndex((match) => match.candidateId === userId);
+      if (index === -1) {
+        continue;
+      }
+      list.matches.splice(index, 1);
+      list.computedAt = new Date();
+      if (!list.complete) {
+        this.stale.add(ownerId);
+      }
+    }
+  }
+
+  /**
+   * Put a rescored candidate into an owner's list
+   */
+  private patch(ownerId: string, match: IndexedMatch): void {
+    const list = this.lists.get(ownerId);
+    if (!list) {
+      this.stale.add(ownerId);
+      return;
+    }
+
+    const index = list.matches.findIndex((entry) => entry.candidateId === match.candidateId);
+    const wasListed = index !== -1;
+    if (wasListed) {
+      list.matches.splice(index, 1);
+    }
+
+    const last = list.matches[list.matches.length - 1];
+    const fits = list.complete || list.matches.length < this.size! - (wasListed ? 1 : 0) ||
+      !last || this.compare(match, last) < 0;
+
+    if (fits) {
+      const position = list.matches.findIndex((entry) => this.compare(match, entry) < 0);
+      list.matches.splice(position === -1 ? list.matches.length : position, 0, match);
+      if (list.matches.length > this.size!) {
+        list.matches.length = this.size!;
+        list.complete = false;
+      }
+    } else if (wasListed) {
+      // Someone outside the list may now rank above the candidate
+      this.stale.add(ownerId);
+    }
+
+    list.computedAt = new Date();
+  }
+
+  private async rebuildStale(): Promise<void> {
+    if (this.stale.size === 0) {
+      return;
+    }
+
+    const users = await this.getUsers();
+    const byId = new Map(users.map((user) => [user.id, user]));
+    for (const userId of Array.from(this.stale)) {
+      const user = byId.get(userId);
+      if (user) {
+        await this.rebuild(user, users);
+        await this.pause();
+      } else {
+        this.lists.delete(userId);
+      }
+      this.stale.delete(userId);
+    }
+  }
+
+  private async rebuild(user: UserProfile, users: UserProfile[]): Promise<void> {
+    const others = users.filter((other) => other.id !== user.id);
+    const scores = await matchingEngine.scorePairs(others.map((other): [UserProfile, UserProfile] => [user, other]));
+
+    const matches = others
+      .map((other, i) => ({ candidateId: other.id, matchScore: scores[i]! }))
+      .sort((a, b) => this.compare(a, b));
+
+    this.lists.set(user.id, {
+      matches: matches.slice(0, this.size!),
+      complete: matches.length <= this.size!,
+      computedAt: new Date(),
+    });
+    this.stale.delete(user.id);
+
+    const signature = this.signatureOf(user, matchingEngine.scoringFields());
+    if (signature !== null) {
+      this.signatures.set(user.id, signature);
+    }
+  }
+
+  private reset(): void {
+    this.lists.clear();
+    this.stale.clear();
+    this.signatures.clear();
+  }
+
+  /**
+   * The profile's scored fields as a string, or null when they aren't known
+   */
+  private signatureOf(user: UserProfile, fields: Set<keyof UserProfile> | null): string | null {
+    return fields ? JSON.stringify(Array.from(fields).sort().map((field) => user[field] ?? null)) : null;
+  }
+
+  /**
+   * Let requests through between long stretches of scoring
+   */
+  private pause(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+
+  private async getUsers(): Promise<UserProfile[]> {
+    return this.repository ? this.repository.getAll() : [];
+  }
+
+  private isAfter(candidateId: string, score: number, after: MatchCursor): boolean {
+    return score < after.score || (score === after.score && candidateId > after.userId);
+  }
+
+  private compare(a: IndexedMatch, b: IndexedMatch): number {
+    const byScore = b.matchScore.totalScore - a.matchScore.totalScore;
+    if (byScore !== 0) {
+      return byScore;
+    }
+    return a.candidateId < b.candidateId ? -1 : a.candidateId > b.candidateId ? 1 : 0;
+  }
+}
+
+const indexSizeEnv = process.env.MATCH_INDEX_SIZE;
+
+// Singleton instance
+export const matchIndex = new MatchIndex(
+  indexSizeEnv === 'off' ? null : Number(indexSizeEnv) || 100
+);
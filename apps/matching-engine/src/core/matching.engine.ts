@@ -2,68 +2,175 @@
  * Core matching engine
  * Implements the hybrid formula-based matching algorithm
  * 
- * Total Match Score = w1 * (semantic similarity of A's offer → B's want)
- *                   + w2 * (semantic similarity of B's offer → A's want)
- *                   + w3 * (language similarity)
- *                   + w4 * (trust score)
+ * Total Match Score = Σ weight(scorer) * scorer.score(userA, userB)
+ *
+ * The built-in scorers are semantic (both directions of offer → want similarity),
+ * language and trust; see scorer.registry.ts for adding more.
  */
 
-import type { UserProfile, MatchResult, MatchScore, MatchingWeights } from '../types/user.types.js';
-import { DEFAULT_WEIGHTS } from '../types/user.types.js';
-import type { MatchingConfig, SemanticSimilarityResult, LanguageSimilarityResult, TrustScoreResult } from '../types/matching.types.js';
+import type { UserProfile, MatchResult, MatchScore, Skill, ScoreComponent } from '../types/user.types.js';
+import { weightsService } from '../services/weights.service.js';
+import type { MatchingConfig, PairScore, SkillEmbeddings, TeachingEdge, ReciprocitySettings, DirectionalMatch, LanguageSimilarityResult, TrustScoreResult, LevelGapPolicy, MatchCursor, MatchPage, MatchSearchOptions } from '../types/matching.types.js';
+import type { ScorerResult, ScoringContext, ScoringOptions } from '../types/scorer.types.js';
 import { semanticService } from '../services/semantic.service.js';
-import { languageService } from '../services/language.service.js';
-import { trustService } from '../services/trust.service.js';
+import { availabilityService } from '../services/availability.service.js';
+import { explanationService } from '../services/explanation.service.js';
+import { matchRequestService } from '../services/match-request.service.js';
+import { exposureService } from '../services/exposure.service.js';
+import { scorerRegistry } from './scorer.registry.js';
+import { diversityReranker } from './diversity.reranker.js';
+import { TopK } from './top-k.js';
+import { semanticScorer, type SemanticScoreDetails } from '../scorers/semantic.scorer.js';
+import { languageScorer } from '../scorers/language.scorer.js';
+import { trustScorer } from '../scorers/trust.scorer.js';
+
+const EMPTY_DIRECTION: DirectionalMatch = { score: 0, pairs: [] };
+
+// Explanations name both users and describe skill and language matches, whatever the weights
+const EXPLANATION_FIELDS: Array<keyof UserProfile> = ['username', 'offers', 'wants', 'languages'];
+
+const NO_RECIPROCITY: ReciprocitySettings = { mode: 'off', threshold: 0.3, mean: 'geometric' };
 
 class MatchingEngine {
   /**
    * Find matches for a given user
+   * Blocked users, declined requests and existing swaps are left out;
+   * candidates with a pending request are marked
    */
   async findMatches(
     user: UserProfile,
-    candidates: UserProfile[],
-    config: MatchingConfig = { weights: DEFAULT_WEIGHTS }
+    allCandidates: UserProfile[],
+    config: MatchingConfig = { weights: weightsService.getDefaultWeights() }
   ): Promise<MatchResult[]> {
+    return (await this.findMatchPage(user, allCandidates, config)).matches;
+  }
+
+  /**
+   * Find one page of matches, starting after a cursor
+   * Matches are ordered by totalScore descending, then candidate id, so pages are stable
+   * With a chunkSize, candidates are scored in chunks: the signal is checked and
+   * onProgress gets the provisional page between chunks, kept in a bounded top-K
+   * so progress never re-sorts every match found so far
+   * With config.diversity, the final page is re-ranked by maximal marginal relevance
+   * With config.fairness, under-exposed candidates get a bonus and baseline holds the page without it
+   */
+  async findMatchPage(
+    user: UserProfile,
+    allCandidates: UserProfile[],
+    config: MatchingConfig = { weights: weightsService.getDefaultWeights() },
+    after: MatchCursor | null = null,
+    search: MatchSearchOptions = {}
+  ): Promise<MatchPage> {
     const startTime = Date.now();
-    const weights = config.weights;
     const minScore = config.minMatchScore ?? 0.3;
     const maxResults = config.maxResults ?? 50;
+    const options = this.resolveScoringOptions(config);
+    const reciprocity = options.reciprocity;
 
     // Ensure semantic service is initialized
     await semanticService.initialize();
 
+    const relationships = await matchRequestService.getRelationships(user.id);
+    const candidates = allCandidates.filter(
+      (candidate) => !relationships.excludedUserIds.has(candidate.id)
+    );
+
+    // Exposure is read once, so every candidate is boosted against the same target
+    const now = Date.now();
+    const fairness = config.fairness;
+    const targetExposure = fairness
+      ? fairness.targetExposure ?? exposureService.getMeanExposure(candidates.map((candidate) => candidate.id), now)
+      : 0;
+
     const matches: MatchResult[] = [];
+    const provisional = search.onProgress
+      ? new TopK<MatchResult>(maxResults, (a, b) => this.compareMatches(a, b))
+      : null;
+    const chunkSize = Math.max(1, search.chunkSize ?? candidates.length);
 
-    for (const candidate of candidates) {
-      // Skip self
-      if (user.id === candidate.id) {
-        continue;
-      }
+    for (let start = 0; start < candidates.length; start += chunkSize) {
+      search.signal?.throwIfAborted();
+      const chunk = candidates.slice(start, start + chunkSize);
 
-      // Calculate match score
-      const matchScore = await this.calculateMatchScore(user, candidate, weights);
+      // Embed every distinct skill of the user and the chunk's candidates once
+      const embeddings = await semanticService.embedSkills(
+        this.collectSkills([user, ...chunk])
+      );
+
+      for (const candidate of chunk) {
+        // Skip self
+        if (user.id === candidate.id) {
+          continue;
+        }
+
+        // Skip pairs that are rarely free at the same time
+        if (
+          config.minAvailabilityOverlapHours !== undefined &&
+          !availabilityService.meetsMinimumOverlap(user, candidate, config.minAvailabilityOverlapHours)
+        ) {
+          continue;
+        }
 
-      // Only include matches above threshold
-      if (matchScore.totalScore >= minScore) {
-        matches.push({
-          userA: user,
-          userB: candidate,
-          matchScore,
-          matchedAt: new Date(),
+        // Calculate match score
+        const matchScore = this.scorePair(user, candidate, options, embeddings);
+
+        // Strict reciprocity drops one-sided matches outright
+        if (
+          reciprocity.mode === 'strict' &&
+          !this.isBidirectional(matchScore, reciprocity.threshold)
+        ) {
+          continue;
+        }
+
+        // Only include matches above threshold; the fairness bonus only reorders them
+        if (matchScore.totalScore >= minScore) {
+          const pendingRequest = relationships.pending.get(candidate.id);
+          const adjustment = fairness && exposureService.getFairnessAdjustment(
+            candidate, matchScore.totalScore, fairness, targetExposure, now
+          );
+          const match: MatchResult = {
+            userA: user,
+            userB: candidate,
+            matchScore: adjustment
+              ? { ...matchScore, totalScore: adjustment.baseScore + adjustment.bonus }
+              : matchScore,
+            matchedAt: new Date(),
+            ...(pendingRequest && { pendingRequest }),
+            ...(adjustment && { fairness: adjustment }),
+          };
+          matches.push(match);
+          if (provisional && this.isAfterCursor(match, after)) {
+            provisional.push(match);
+          }
+        }
+      }
+
+      if (search.onProgress && provisional) {
+        search.onProgress({
+          matches: provisional.toSorted(),
+          scored: start + chunk.length,
+          total: candidates.length,
         });
+        // Let I/O such as client disconnects through before the next chunk
+        await new Promise((resolve) => setImmediate(resolve));
       }
     }
 
-    // Sort by total score (descending)
-    matches.sort((a, b) => b.matchScore.totalScore - a.matchScore.totalScore);
+    const page = await this.rank(matches, after, maxResults, config);
 
-    // Limit results
-    const limitedMatches = matches.slice(0, maxResults);
+    // Rank again without the bonus, so exposure can be compared before and after
+    if (fairness) {
+      const unadjusted = matches.map(({ fairness: adjustment, ...match }) => ({
+        ...match,
+        matchScore: { ...match.matchScore, totalScore: adjustment!.baseScore },
+      }));
+      page.baseline = (await this.rank(unadjusted, after, maxResults, config)).matches;
+    }
 
     const processingTime = Date.now() - startTime;
-    console.log(`Found ${limitedMatches.length} matches in ${processingTime}ms`);
+    console.log(`Found ${page.matches.length} matches in ${processingTime}ms`);
 
-    return limitedMatches;
+    return page;
   }
 
   /**
@@ -72,120 +179,254 @@ class MatchingEngine {
   async calculateMatchScore(
     userA: UserProfile,
     userB: UserProfile,
-    weights: MatchingWeights = DEFAULT_WEIGHTS
+    config: Partial<MatchingConfig> = {}
   ): Promise<MatchScore> {
-    // 1. Semantic similarity: A's offer → B's want
-    const semanticScoreAtoB = await this.calculateSemanticScoreAtoB(
-      userA,
-      userB
+    const embeddings = await semanticService.embedSkills(
+      this.collectSkills([userA, userB])
     );
 
-    // 2. Semantic similarity: B's offer → A's want
-    const semanticScoreBtoA = await this.calculateSemanticScoreBtoA(
-      userA,
-      userB
-    );
+    return this.scorePair(userA, userB, this.resolveScoringOptions(config), embeddings);
+  }
 
-    // 3. Language similarity
-    const languageResult = languageService.calculateLanguageSimilarity(
-      userA,
-      userB
+  /**
+   * Score a list of ordered pairs, embedding all their skills once
+   */
+  async scorePairs(
+    pairs: Array<[UserProfile, UserProfile]>,
+    config: Partial<MatchingConfig> = {}
+  ): Promise<MatchScore[]> {
+    await semanticService.initialize();
+
+    const options = this.resolveScoringOptions(config);
+    const embeddings = await semanticService.embedSkills(
+      this.collectSkills(Array.from(new Set(pairs.flat())))
     );
 
-    // 4. Trust score
-    const trustResult = trustService.calculateTrustScore(userA, userB);
+    return pairs.map(([userA, userB]) => this.scorePair(userA, userB, options, embeddings));
+  }
 
-    // Calculate weighted total score
-    const totalScore =
-      weights.w1 * semanticScoreAtoB +
-      weights.w2 * semanticScoreBtoA +
-      weights.w3 * languageResult.score +
-      weights.w4 * trustResult.score;
+  /**
+   * Profile fields a pair's MatchScore depends on under a config, or null when unknown
+   * A save that changes none of them leaves the pair's score as it was
+   */
+  scoringFields(config: Partial<MatchingConfig> = {}): Set<keyof UserProfile> | null {
+    const fields = scorerRegistry.weightedFields(config);
+    EXPLANATION_FIELDS.forEach((field) => fields?.add(field));
+    return fields;
+  }
+
+  /**
+   * Resolve scorer weights, reciprocity and direction weights from a config
+   * enableBidirectionalMatching: true is treated as strict mode unless a mode is given
+   */
+  resolveScoringOptions(config: Partial<MatchingConfig>): ScoringOptions {
+    const weights = config.weights ?? weightsService.getDefaultWeights();
+    const reciprocity: ReciprocitySettings = {
+      mode: config.reciprocity ?? (config.enableBidirectionalMatching ? 'strict' : 'off'),
+      threshold: config.reciprocityThreshold ?? 0.3,
+      mean: config.reciprocityMean ?? 'geometric',
+    };
 
     return {
-      totalScore: Math.max(0, Math.min(1, totalScore)), // Clamp to 0-1
-      semanticScoreAtoB,
-      semanticScoreBtoA,
-      languageScore: languageResult.score,
-      trustScore: trustResult.score,
-      breakdown: {
-        w1: weights.w1,
-        w2: weights.w2,
-        w3: weights.w3,
-        w4: weights.w4,
-      },
+      weights: scorerRegistry.resolveWeights(config),
+      reciprocity,
+      directionWeights: { aToB: weights.w1, bToA: weights.w2 },
+      levelGapPolicy: config.levelGapPolicy ?? 'gap-aware',
     };
   }
 
   /**
-   * Calculate semantic similarity: A's offers → B's wants
-   * Finds the best matching pair and returns the similarity score
+   * Score every unordered pair in a population, embedding all skills once
    */
-  private async calculateSemanticScoreAtoB(
-    userA: UserProfile,
-    userB: UserProfile
-  ): Promise<number> {
-    if (userA.offers.length === 0 || userB.wants.length === 0) {
-      return 0;
-    }
+  async calculatePairwiseScores(
+    users: UserProfile[],
+    config: Partial<MatchingConfig> = {}
+  ): Promise<PairScore[]> {
+    await semanticService.initialize();
 
-    // Find best matches for each of A's offers
-    const scores: number[] = [];
+    const options = this.resolveScoringOptions(config);
 
-    for (const offer of userA.offers) {
-      const bestMatch = await semanticService.findBestMatch(
-        offer,
-        userB.wants
-      );
+    const embeddings = await semanticService.embedSkills(
+      this.collectSkills(users)
+    );
 
-      if (bestMatch) {
-        // Weight by skill level (higher level = more valuable)
-        const levelWeight = this.getLevelWeight(offer.level);
-        scores.push(bestMatch.similarity * levelWeight);
+    const pairs: PairScore[] = [];
+    for (let i = 0; i < users.length; i++) {
+      for (let j = i + 1; j < users.length; j++) {
+        pairs.push({
+          userA: users[i]!,
+          userB: users[j]!,
+          matchScore: this.scorePair(users[i]!, users[j]!, options, embeddings),
+        });
       }
     }
 
-    // Return average of best matches, or max if we want to prioritize strong matches
-    if (scores.length === 0) {
-      return 0;
+    return pairs;
+  }
+
+  /**
+   * Build the directed "can teach" graph: one edge per ordered pair whose
+   * teacher → learner semantic score reaches minScore
+   */
+  async calculateTeachingEdges(
+    users: UserProfile[],
+    minScore: number,
+    levelGapPolicy: LevelGapPolicy = 'gap-aware'
+  ): Promise<TeachingEdge[]> {
+    await semanticService.initialize();
+
+    const embeddings = await semanticService.embedSkills(
+      this.collectSkills(users)
+    );
+
+    const edges: TeachingEdge[] = [];
+    for (const teacher of users) {
+      for (const learner of users) {
+        if (teacher.id === learner.id) {
+          continue;
+        }
+
+        const match = semanticService.calculateDirectionalMatch(teacher, learner, embeddings, levelGapPolicy);
+        if (match.pairs.length > 0 && match.score >= minScore) {
+          edges.push({ teacher, learner, ...match });
+        }
+      }
     }
 
-    // Use average for more balanced scoring
-    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
-    
-    // Also consider the best match
-    const max = Math.max(...scores);
-    
-    // Weighted combination: 70% average, 30% max
-    return average * 0.7 + max * 0.3;
+    return edges;
   }
 
   /**
-   * Calculate semantic similarity: B's offers → A's wants
-   * Finds the best matching pair and returns the similarity score
+   * Score a pair from precomputed embeddings (no model calls)
    */
-  private async calculateSemanticScoreBtoA(
+  private scorePair(
     userA: UserProfile,
-    userB: UserProfile
-  ): Promise<number> {
-    // This is the reverse direction, so swap users
-    return this.calculateSemanticScoreAtoB(userB, userA);
+    userB: UserProfile,
+    options: ScoringOptions,
+    embeddings: SkillEmbeddings
+  ): MatchScore {
+    const context: ScoringContext = {
+      embeddings,
+      reciprocity: options.reciprocity,
+      directionWeights: options.directionWeights,
+      levelGapPolicy: options.levelGapPolicy,
+    };
+
+    // Run every registered scorer and sum the weighted terms
+    const results: Map<string, ScorerResult> = new Map();
+    const components: Record<string, ScoreComponent> = {};
+    let totalScore = 0;
+
+    for (const scorer of scorerRegistry.list()) {
+      const result = scorer.score(userA, userB, context);
+      const weight = options.weights[scorer.id] ?? 0;
+
+      results.set(scorer.id, result);
+      components[scorer.id] = { score: result.score, weight, details: result.details };
+      totalScore += weight * result.score;
+    }
+
+    const semantic = results.get(semanticScorer.id) as ScorerResult<SemanticScoreDetails> | undefined;
+    const language = results.get(languageScorer.id) as ScorerResult<LanguageSimilarityResult> | undefined;
+    const trust = results.get(trustScorer.id) as ScorerResult<TrustScoreResult> | undefined;
+
+    return {
+      totalScore: Math.max(0, Math.min(1, totalScore)), // Clamp to 0-1
+      semanticScoreAtoB: semantic?.details.semanticScoreAtoB ?? 0,
+      semanticScoreBtoA: semantic?.details.semanticScoreBtoA ?? 0,
+      languageScore: language?.score ?? 0,
+      trustScore: trust?.score ?? 0,
+      breakdown: { ...options.weights },
+      components,
+      reciprocity: {
+        mode: options.reciprocity.mode,
+        combinedSemanticScore: semantic?.score ?? 0,
+      },
+      explanation: explanationService.explain(
+        userA,
+        userB,
+        semantic?.details.matchAtoB ?? EMPTY_DIRECTION,
+        semantic?.details.matchBtoA ?? EMPTY_DIRECTION,
+        language?.details ?? { score: 0, commonLanguages: [], totalLanguages: 0, sharedLanguages: [] },
+        trust?.details ?? { score: 0, factors: { userATrust: 0, userBTrust: 0, averageTrust: 0 } },
+        options.levelGapPolicy
+      ),
+    };
   }
 
   /**
-   * Get weight multiplier based on skill level
+   * Order matches into the final page
+   * Diversity re-ranking picks from every match, and fairness bonuses shift as pages
+   * are shown, so results with either come as a single page
    */
-  private getLevelWeight(
-    level: 'beginner' | 'intermediate' | 'advanced' | 'expert'
-  ): number {
-    const weights: Record<string, number> = {
-      beginner: 0.5,
-      intermediate: 0.75,
-      advanced: 0.9,
-      expert: 1.0,
+  private async rank(
+    matches: MatchResult[],
+    after: MatchCursor | null,
+    maxResults: number,
+    config: MatchingConfig
+  ): Promise<MatchPage> {
+    if (!config.diversity) {
+      const page = this.paginate(matches, after, maxResults);
+      return config.fairness ? { ...page, hasMore: false } : page;
+    }
+    return {
+      matches: await diversityReranker.rerank(
+        this.paginate(matches, after, matches.length).matches,
+        config.diversity,
+        maxResults
+      ),
+      hasMore: false,
     };
+  }
 
-    return weights[level] ?? 0.5;
+  /**
+   * Sort matches in place by total score (descending), ties by candidate id,
+   * then take the page after the cursor
+   */
+  private paginate(matches: MatchResult[], after: MatchCursor | null, maxResults: number): MatchPage {
+    matches.sort((a, b) => this.compareMatches(a, b));
+
+    // Skip to the cursor, then limit results
+    const remaining = after ? matches.filter((match) => this.isAfterCursor(match, after)) : matches;
+
+    return { matches: remaining.slice(0, maxResults), hasMore: remaining.length > maxResults };
+  }
+
+  /**
+   * Page order: total score descending, ties by candidate id
+   */
+  private compareMatches(a: MatchResult, b: MatchResult): number {
+    return b.matchScore.totalScore - a.matchScore.totalScore || this.compareIds(a.userB.id, b.userB.id);
+  }
+
+  /**
+   * Whether a match comes after the cursor in page order
+   */
+  private isAfterCursor(match: MatchResult, after: MatchCursor | null): boolean {
+    return !after ||
+      match.matchScore.totalScore < after.score ||
+      (match.matchScore.totalScore === after.score && this.compareIds(match.userB.id, after.userId) > 0);
+  }
+
+  private compareIds(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * Check that both semantic directions reach the threshold
+   */
+  private isBidirectional(matchScore: MatchScore, minScore: number): boolean {
+    return (
+      matchScore.semanticScoreAtoB >= minScore &&
+      matchScore.semanticScoreBtoA >= minScore
+    );
+  }
+
+  /**
+   * Gather every offered and wanted skill of the given users
+   */
+  private collectSkills(users: UserProfile[]): Skill[] {
+    return users.flatMap((user) => [...user.offers, ...user.wants]);
   }
 
   /**
@@ -196,11 +437,10 @@ class MatchingEngine {
     userB: UserProfile,
     minScore: number = 0.3
   ): Promise<boolean> {
-    const scoreAtoB = await this.calculateSemanticScoreAtoB(userA, userB);
-    const scoreBtoA = await this.calculateSemanticScoreBtoA(userA, userB);
+    const matchScore = await this.calculateMatchScore(userA, userB);
 
     // Both directions should have reasonable scores
-    return scoreAtoB >= minScore && scoreBtoA >= minScore;
+    return this.isBidirectional(matchScore, minScore);
   }
 }
 
@@ -0,0 +1,138 @@
+/**
+ * Pairing engine
+ * Pairs a whole population into one-to-one swaps over the weighted compatibility graph.
+ *
+ * Modes:
+ * - max-weight: maximises the summed totalScore of all pairs (Edmonds' blossom algorithm)
+ * - stable: no two users would both rather be with each other than with their partners (Irving)
+ *
+ * Users who blocked or declined each other, or are already swapping, are never paired.
+ */
+
+import type { UserProfile } from '../types/user.types.js';
+import type { MatchingConfig, PairingMode, PairScore, PairingResponse } from '../types/matching.types.js';
+import { matchingEngine } from './matching.engine.js';
+import { matchRequestService } from '../services/match-request.service.js';
+import { maxWeightMatching } from './graph/max-weight-matching.js';
+import { stableRoommates } from './graph/stable-roommates.js';
+
+// Scores are scaled to integers so the blossom algorithm stays exact
+const WEIGHT_SCALE = 1_000_000;
+
+class PairingEngine {
+  /**
+   * Pair users so each gets at most one partner
+   * Returns null in stable mode when no stable matching exists
+   */
+  async computePairs(
+    users: UserProfile[],
+    mode: PairingMode,
+    config: Partial<Pick<MatchingConfig, 'weights' | 'scorerWeights' | 'minMatchScore'>> = {}
+  ): Promise<PairingResponse | null> {
+    const startTime = Date.now();
+    const minScore = config.minMatchScore ?? 0.3;
+
+    // Build the compatibility graph, keeping only acceptable pairs as edges
+    const index = new Map(users.map((user, i) => [user.id, i]));
+    const exclusions = await matchRequestService.getExclusions(users.map((user) => user.id));
+    const edges = (
+      await matchingEngine.calculatePairwiseScores(users, config)
+    ).filter((pair) =>
+      pair.matchScore.totalScore >= minScore && !exclusions.get(pair.userA.id)?.has(pair.userB.id)
+    );
+
+    const mate = mode === 'stable'
+      ? this.stableMates(users.length, edges, index)
+      : this.maxWeightMates(users.length, edges, index);
+
+    if (!mate) {
+      return null;
+    }
+
+    const edgeByKey = new Map(
+      edges.map((edge) => [this.pairKey(index.get(edge.userA.id)!, index.get(edge.userB.id)!), edge])
+    );
+
+    const pairs: PairingResponse['pairs'] = [];
+    const unmatchedUserIds: string[] = [];
+
+    mate.forEach((partner, i) => {
+      if (partner === -1) {
+        unmatchedUserIds.push(users[i]!.id);
+        return;
+      }
+      if (partner < i) {
+        return;
+      }
+
+      const edge = edgeByKey.get(this.pairKey(i, partner))!;
+      pairs.push({
+        userA: { id: edge.userA.id, username: edge.userA.username },
+        userB: { id: edge.userB.id, username: edge.userB.username },
+        matchScore: edge.matchScore,
+      });
+    });
+
+    pairs.sort((a, b) => b.matchScore.totalScore - a.matchScore.totalScore);
+
+    const processingTime = Date.now() - startTime;
+    console.log(`Paired ${pairs.length * 2} of ${users.length} users (${mode}) in ${processingTime}ms`);
+
+    return {
+      mode,
+      pairs,
+      totalUtility: pairs.reduce((sum, pair) => sum + pair.matchScore.totalScore, 0),
+      unmatchedUserIds,
+      totalUsers: users.length,
+      processingTime,
+    };
+  }
+
+  private maxWeightMates(
+    userCount: number,
+    edges: PairScore[],
+    index: Map<string, number>
+  ): number[] {
+    return maxWeightMatching(
+      edges.map((edge) => ({
+        u: index.get(edge.userA.id)!,
+        v: index.get(edge.userB.id)!,
+        weight: Math.round(edge.matchScore.totalScore * WEIGHT_SCALE),
+      })),
+      userCount
+    );
+  }
+
+  private stableMates(
+    userCount: number,
+    edges: PairScore[],
+    index: Map<string, number>
+  ): number[] | null {
+    // Rank partners by score, breaking ties by edge order so preferences stay globally consistent
+    const ranked: Array<Array<{ partner: number; score: number; order: number }>> =
+      Array.from({ length: userCount }, () => []);
+
+    edges.forEach((edge, order) => {
+      const a = index.get(edge.userA.id)!;
+      const b = index.get(edge.userB.id)!;
+      const score = edge.matchScore.totalScore;
+      ranked[a]!.push({ partner: b, score, order });
+      ranked[b]!.push({ partner: a, score, order });
+    });
+
+    const preferences = ranked.map((list) =>
+      list
+        .sort((x, y) => y.score - x.score || x.order - y.order)
+        .map((entry) => entry.partner)
+    );
+
+    return stableRoommates(preferences);
+  }
+
+  private pairKey(a: number, b: number): string {
+    return a < b ? `${a}:${b}` : `${b}:${a}`;
+  }
+}
+
+// Singleton instance
+export const pairingEngine = new PairingEngine();
@@ -0,0 +1,105 @@
+/**
+ * Ranking metrics for labelled matches (label 1 for a good match, 0 otherwise)
+ * Used by the weight trainer to compare scores on held-out outcomes.
+ */
+
+import type { RankingMetrics } from '../types/outcome.types.js';
+
+/**
+ * A labelled match with the score it is ranked by
+ */
+export interface ScoredExample {
+  userId: string;
+  candidateId: string;
+  score: number;
+  label: 0 | 1;
+}
+
+/**
+ * Mann-Whitney AUC, counting ties as half; null without both labels
+ */
+export function auc(scores: number[], labels: number[]): number | null {
+  const positives = labels.filter((label) => label === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return null;
+  }
+
+  const order = scores.map((score, i) => ({ score, label: labels[i]! })).sort((a, b) => a.score - b.score);
+  let positiveRankSum = 0;
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j < order.length && order[j]!.score === order[i]!.score) {
+      j++;
+    }
+    const averageRank = (i + 1 + j) / 2;
+    for (let t = i; t < j; t++) {
+      if (order[t]!.label === 1) {
+        positiveRankSum += averageRank;
+      }
+    }
+    i = j;
+  }
+
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/**
+ * Discounted cumulative gain of labels in ranked order, cut off at k
+ */
+export function dcg(labels: number[], k: number): number {
+  return labels.slice(0, k).reduce((sum, label, i) => sum + label / Math.log2(i + 2), 0);
+}
+
+/**
+ * DCG@k over the DCG@k of the best possible order; 0 without a positive
+ */
+export function ndcgAtK(labels: number[], k: number): number {
+  const ideal = dcg([...labels].sort((a, b) => b - a), k);
+  return ideal > 0 ? dcg(labels, k) / ideal : 0;
+}
+
+/**
+ * 1 / rank of the first positive in ranked order; 0 without a positive
+ */
+export function reciprocalRank(labels: number[]): number {
+  const first = labels.findIndex((label) => label === 1);
+  return first === -1 ? 0 : 1 / (first + 1);
+}
+
+/**
+ * AUC over all examples, and NDCG@k and MRR per searching user, averaged over
+ * users with at least one positive
+ * Each user's matches are ranked by score descending, ties by candidate id
+ */
+export function evaluateRanking(examples: ScoredExample[], k: number): RankingMetrics {
+  const byUser = new Map<string, ScoredExample[]>();
+  for (const example of examples) {
+    const list = byUser.get(example.userId) ?? [];
+    list.push(example);
+    byUser.set(example.userId, list);
+  }
+
+  let ndcgTotal = 0;
+  let mrrTotal = 0;
+  let evaluatedUsers = 0;
+  for (const list of byUser.values()) {
+    if (!list.some((example) => example.label === 1)) {
+      continue;
+    }
+
+    const labels = [...list]
+      .sort((a, b) => b.score - a.score || (a.candidateId < b.candidateId ? -1 : 1))
+      .map((example) => example.label);
+    ndcgTotal += ndcgAtK(labels, k);
+    mrrTotal += reciprocalRank(labels);
+    evaluatedUsers++;
+  }
+
+  return {
+    auc: auc(examples.map((example) => example.score), examples.map((example) => example.label)),
+    ndcgAtK: evaluatedUsers > 0 ? ndcgTotal / evaluatedUsers : null,
+    mrr: evaluatedUsers > 0 ? mrrTotal / evaluatedUsers : null,
+    evaluatedUsers,
+  };
+}
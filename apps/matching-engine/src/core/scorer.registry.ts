@@ -0,0 +1,143 @@
+/**
+ * Scorer registry
+ * Holds the scorer plugins that make up the total match score:
+ *
+ * Total Match Score = Σ weight(scorer) * scorer.score(userA, userB)
+ *
+ * Register a MatchScorer to add a factor; its weight is then set by id in
+ * MatchingConfig.scorerWeights, falling back to the scorer's defaultWeight.
+ *
+ * Resolved weights are expected to sum to 1. With WEIGHT_SUM_POLICY=normalize
+ * (default) they are rescaled when they don't; with strict, API requests whose
+ * weights don't sum to 1 are rejected instead.
+ */
+
+import type { MatchingConfig } from '../types/matching.types.js';
+import type { MatchScorer, ScorerWeights } from '../types/scorer.types.js';
+import type { UserProfile } from '../types/user.types.js';
+import { semanticScorer } from '../scorers/semantic.scorer.js';
+import { languageScorer } from '../scorers/language.scorer.js';
+import { trustScorer } from '../scorers/trust.scorer.js';
+import { availabilityScorer } from '../scorers/availability.scorer.js';
+import { weightsService } from '../services/weights.service.js';
+
+export type WeightSumPolicy = 'normalize' | 'strict';
+
+export const WEIGHT_SUM_POLICIES: WeightSumPolicy[] = ['normalize', 'strict'];
+
+// How far a weight sum may be from 1 before it is rescaled or rejected
+export const WEIGHT_SUM_TOLERANCE = 1e-6;
+
+class ScorerRegistry {
+  private scorers: Map<string, MatchScorer> = new Map();
+
+  readonly weightSumPolicy: WeightSumPolicy = WEIGHT_SUM_POLICIES.includes(
+    process.env.WEIGHT_SUM_POLICY as WeightSumPolicy
+  )
+    ? (process.env.WEIGHT_SUM_POLICY as WeightSumPolicy)
+    : 'normalize';
+
+  /**
+   * Register a scorer plugin
+   */
+  register(scorer: MatchScorer): void {
+    if (this.scorers.has(scorer.id)) {
+      throw new Error(`Scorer "${scorer.id}" is already registered`);
+    }
+    this.scorers.set(scorer.id, scorer);
+  }
+
+  /**
+   * Remove a scorer plugin
+   */
+  unregister(id: string): boolean {
+    return this.scorers.delete(id);
+  }
+
+  /**
+   * Get a scorer by id
+   */
+  get(id: string): MatchScorer | null {
+    return this.scorers.get(id) ?? null;
+  }
+
+  /**
+   * All registered scorers, in registration order
+   */
+  list(): MatchScorer[] {
+    return Array.from(this.scorers.values());
+  }
+
+  /**
+   * Profile fields the weighted scorers read under a config, or null when one of
+   * them doesn't declare its fields
+   */
+  weightedFields(config: Partial<Pick<MatchingConfig, 'weights' | 'scorerWeights'>>): Set<keyof UserProfile> | null {
+    const weights = this.resolveWeights(config);
+    const fields = new Set<keyof UserProfile>();
+
+    for (const scorer of this.scorers.values()) {
+      if ((weights[scorer.id] ?? 0) === 0) {
+        continue;
+      }
+      if (!scorer.fields) {
+        return null;
+      }
+      scorer.fields.forEach((field) => fields.add(field));
+    }
+
+    return fields;
+  }
+
+  /**
+   * Resolve the weight of every registered scorer for a config,
+   * rescaled to sum to 1 under the normalize policy
+   */
+  resolveWeights(config: Partial<Pick<MatchingConfig, 'weights' | 'scorerWeights'>>): ScorerWeights {
+    const resolved = this.resolveRawWeights(config);
+    const sum = Object.values(resolved).reduce((total, weight) => total + weight, 0);
+
+    if (this.weightSumPolicy === 'normalize' && sum > 0 && Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+      for (const id of Object.keys(resolved)) {
+        resolved[id] = resolved[id]! / sum;
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Resolve weights as configured, without rescaling
+   * Legacy w1-w4 weights (default: the trained or built-in default weights) map onto
+   * semantic (w1 + w2), language (w3) and trust (w4); scorerWeights entries override them
+   */
+  resolveRawWeights(config: Partial<Pick<MatchingConfig, 'weights' | 'scorerWeights'>>): ScorerWeights {
+    const resolved: ScorerWeights = {};
+
+    for (const scorer of this.scorers.values()) {
+      resolved[scorer.id] = scorer.defaultWeight;
+    }
+
+    const weights = config.weights ?? weightsService.getDefaultWeights();
+    resolved[semanticScorer.id] = weights.w1 + weights.w2;
+    resolved[languageScorer.id] = weights.w3;
+    resolved[trustScorer.id] = weights.w4;
+
+    for (const [id, weight] of Object.entries(config.scorerWeights ?? {})) {
+      if (!this.scorers.has(id)) {
+        console.warn(`Ignoring weight for unknown scorer "${id}"`);
+        continue;
+      }
+      resolved[id] = weight;
+    }
+
+    return resolved;
+  }
+}
+
+// Singleton instance with the built-in scorers
+export const scorerRegistry = new ScorerRegistry();
+scorerRegistry.register(semanticScorer);
+scorerRegistry.register(languageScorer);
+scorerRegistry.register(trustScorer);
+scorerRegistry.register(availabilityScorer);
@@ -0,0 +1,87 @@
+/**
+ * Bounded top-K collection
+ * Keeps the k best items seen so far in a binary heap whose root is the worst kept
+ * item, so each push is O(log k) and memory stays O(k) however many items pass through.
+ */
+
+/**
+ * Negative when a ranks before b, positive when after, 0 when tied
+ */
+export type RankComparator<T> = (a: T, b: T) => number;
+
+export class TopK<T> {
+  private heap: T[] = [];
+
+  constructor(
+    readonly k: number,
+    private readonly compare: RankComparator<T>
+  ) {}
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Offer an item; it is kept if fewer than k are held or it ranks before the worst
+   */
+  push(item: T): void {
+    if (this.k <= 0) {
+      return;
+    }
+    if (this.heap.length < this.k) {
+      this.heap.push(item);
+      this.siftUp(this.heap.length - 1);
+      return;
+    }
+    if (this.compare(item, this.heap[0]!) < 0) {
+      this.heap[0] = item;
+      this.siftDown(0);
+    }
+  }
+
+  /**
+   * The kept items, best first; the collection is left unchanged
+   */
+  toSorted(): T[] {
+    return [...this.heap].sort(this.compare);
+  }
+
+  /**
+   * True when a ranks after b, i.e. a belongs nearer the root
+   */
+  private isWorse(a: T, b: T): boolean {
+    return this.compare(a, b) > 0;
+  }
+
+  private siftUp(index: number): void {
+    const heap = this.heap;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.isWorse(heap[index]!, heap[parent]!)) {
+        return;
+      }
+      [heap[index], heap[parent]] = [heap[parent]!, heap[index]!];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const heap = this.heap;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let worst = index;
+      if (left < heap.length && this.isWorse(heap[left]!, heap[worst]!)) {
+        worst = left;
+      }
+      if (right < heap.length && this.isWorse(heap[right]!, heap[worst]!)) {
+        worst = right;
+      }
+      if (worst === index) {
+        return;
+      }
+      [heap[index], heap[worst]] = [heap[worst]!, heap[index]!];
+      index = worst;
+    }
+  }
+}
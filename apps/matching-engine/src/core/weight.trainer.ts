@@ -0,0 +1,188 @@
+/**
+ * Weight trainer
+ * Fits the legacy weights w1-w4 from labelled match outcomes by logistic regression
+ * on the score components:
+ *
+ * P(accepted) = σ(b + β1 * semanticAtoB + β2 * semanticBtoA + β3 * language + β4 * trust)
+ *
+ * Coefficients are kept non-negative (projected gradient descent with L2
+ * regularization), then scaled to sum to 1. Only the ranking matters, so the
+ * scaled coefficients rank candidates exactly as the fitted model does.
+ * The most recent examples are held out to compare the new weights with the
+ * ranking users were actually shown, i.e. the logged total scores, which include
+ * every scorer, reciprocity, experiment variants and fairness bonuses.
+ */
+
+import type { MatchingWeights } from '../types/user.types.js';
+import type { MatchFeatures, RankingMetrics, TrainingExample, TrainingReport } from '../types/outcome.types.js';
+import { evaluateRanking } from './ranking.metrics.js';
+
+const FEATURES: Array<{ feature: keyof MatchFeatures; weight: keyof MatchingWeights }> = [
+  { feature: 'semanticScoreAtoB', weight: 'w1' },
+  { feature: 'semanticScoreBtoA', weight: 'w2' },
+  { feature: 'languageScore', weight: 'w3' },
+  { feature: 'trustScore', weight: 'w4' },
+];
+
+export interface TrainingOptions {
+  holdoutFraction?: number; // Share of the most recent examples held out (default 0.2)
+  k?: number; // NDCG cutoff (default 10)
+  l2?: number; // L2 regularization strength (default 0.01)
+  learningRate?: number; // Default 1
+  maxIterations?: number; // Default 5000
+}
+
+export interface TrainingResult {
+  weights: MatchingWeights;
+  intercept: number;
+  report: TrainingReport;
+}
+
+interface LogisticModel {
+  coefficients: number[];
+  intercept: number;
+}
+
+class WeightTrainer {
+  /**
+   * Fit weights on the older examples and evaluate them on the most recent ones
+   * Examples must be sorted by shownAt
+   */
+  train(examples: TrainingExample[], options: TrainingOptions): TrainingResult {
+    const holdoutFraction = options.holdoutFraction ?? 0.2;
+    const k = options.k ?? 10;
+
+    const holdoutSize = Math.floor(examples.length * holdoutFraction);
+    const train = examples.slice(0, examples.length - holdoutSize);
+    const holdout = examples.slice(examples.length - holdoutSize);
+
+    if (!train.some((example) => example.label === 1) || !train.some((example) => example.label === 0)) {
+      throw new Error('Training examples must include both accepted and declined matches');
+    }
+
+    const model = this.fit(train, options);
+    const total = model.coefficients.reduce((sum, coefficient) => sum + coefficient, 0);
+    if (total <= 0) {
+      throw new Error('No score component predicts acceptance; keeping the current weights');
+    }
+
+    const weights = this.toWeights(model.coefficients.map((coefficient) => coefficient / total));
+
+    return {
+      weights,
+      intercept: model.intercept,
+      report: {
+        examples: examples.length,
+        positives: examples.filter((example) => example.label === 1).length,
+        trainExamples: train.length,
+        holdoutExamples: holdout.length,
+        k,
+        logLoss: holdout.length > 0 ? this.logLoss(model, holdout) : null,
+        learned: this.evaluate(weights, holdout, k),
+        baseline: this.evaluateShown(holdout, k),
+      },
+    };
+  }
+
+  /**
+   * Ranking metrics of a set of weights on labelled examples
+   */
+  evaluate(weights: MatchingWeights, examples: TrainingExample[], k: number): RankingMetrics {
+    return evaluateRanking(
+      examples.map((example) => ({ ...example, score: this.score(weights, example.features) })),
+      k
+    );
+  }
+
+  /**
+   * Ranking metrics of the scores the examples were shown with
+   */
+  private evaluateShown(examples: TrainingExample[], k: number): RankingMetrics {
+    return evaluateRanking(examples.map((example) => ({ ...example, score: example.totalScore })), k);
+  }
+
+  /**
+   * Projected batch gradient descent on the regularized log loss
+   */
+  private fit(examples: TrainingExample[], options: TrainingOptions): LogisticModel {
+    const l2 = options.l2 ?? 0.01;
+    const learningRate = options.learningRate ?? 1;
+    const maxIterations = options.maxIterations ?? 5000;
+
+    const rows = examples.map((example) => this.featureVector(example.features));
+    const coefficients = FEATURES.map(() => 0.5);
+    let intercept = 0;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const gradient = FEATURES.map(() => 0);
+      let interceptGradient = 0;
+
+      rows.forEach((row, i) => {
+        const error = this.sigmoid(intercept + this.dot(coefficients, row)) - examples[i]!.label;
+        row.forEach((value, j) => {
+          gradient[j]! += error * value;
+        });
+        interceptGradient += error;
+      });
+
+      let maxStep = 0;
+      coefficients.forEach((coefficient, j) => {
+        const updated = Math.max(0, coefficient - learningRate * (gradient[j]! / rows.length + l2 * coefficient));
+        maxStep = Math.max(maxStep, Math.abs(updated - coefficient));
+        coefficients[j] = updated;
+      });
+      const interceptStep = learningRate * interceptGradient / rows.length;
+      intercept -= interceptStep;
+
+      if (Math.max(maxStep, Math.abs(interceptStep)) < 1e-7) {
+        break;
+      }
+    }
+
+    return { coefficients, intercept };
+  }
+
+  private logLoss(model: LogisticModel, examples: TrainingExample[]): number {
+    const epsilon = 1e-12;
+    const total = examples.reduce((sum, example) => {
+      const p = this.sigmoid(model.intercept + this.dot(model.coefficients, this.featureVector(example.features)));
+      const clamped = Math.min(1 - epsilon, Math.max(epsilon, p));
+      return sum - (example.label === 1 ? Math.log(clamped) : Math.log(1 - clamped));
+    }, 0);
+    return total / examples.length;
+  }
+
+  private score(weights: MatchingWeights, features: MatchFeatures): number {
+    return FEATURES.reduce((sum, { feature, weight }) => sum + weights[weight] * features[feature], 0);
+  }
+
+  private featureVector(features: MatchFeatures): number[] {
+    return FEATURES.map(({ feature }) => features[feature]);
+  }
+
+  /**
+   * Round to 4 decimals, keeping the sum at exactly 1
+   */
+  private toWeights(shares: number[]): MatchingWeights {
+    const rounded = shares.map((share) => Math.round(share * 10000) / 10000);
+    const largest = rounded.indexOf(Math.max(...rounded));
+    rounded[largest] = Math.round((rounded[largest]! + 1 - rounded.reduce((sum, share) => sum + share, 0)) * 10000) / 10000;
+
+    const weights = {} as MatchingWeights;
+    FEATURES.forEach(({ weight }, i) => {
+      weights[weight] = rounded[i]!;
+    });
+    return weights;
+  }
+
+  private dot(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i]!, 0);
+  }
+
+  private sigmoid(z: number): number {
+    return 1 / (1 + Math.exp(-z));
+  }
+}
+
+// Singleton instance
+export const weightTrainer = new WeightTrainer();
@@ -0,0 +1,64 @@
+/**
+ * Built-in skill taxonomy
+ * Used when SKILL_TAXONOMY_PATH is not set
+ */
+
+import type { SkillTaxonomyData } from '../types/taxonomy.types.js';
+
+export const DEFAULT_TAXONOMY: SkillTaxonomyData = {
+  version: 1,
+  categories: [
+    { id: 'technology', name: 'Technology', aliases: ['tech'] },
+    { id: 'programming', name: 'Programming', parent: 'technology', aliases: ['coding', 'software development'] },
+    { id: 'web-development', name: 'Web Development', parent: 'programming', aliases: ['web', 'frontend', 'backend'] },
+    { id: 'data-science', name: 'Data Science', parent: 'technology', aliases: ['data', 'machine learning'] },
+    { id: 'devops', name: 'DevOps', parent: 'technology', aliases: ['infrastructure', 'cloud'] },
+    { id: 'language', name: 'Languages', aliases: ['languages', 'spoken languages', 'foreign languages'] },
+    { id: 'music', name: 'Music' },
+    { id: 'instruments', name: 'Instruments', parent: 'music' },
+    { id: 'arts', name: 'Arts & Design', aliases: ['art', 'design'] },
+    { id: 'business', name: 'Business', aliases: ['career'] },
+    { id: 'cooking', name: 'Cooking', aliases: ['culinary', 'food'] },
+  ],
+  skills: [
+    { id: 'javascript', name: 'JavaScript', category: 'web-development', aliases: ['js', 'ecmascript', 'es6'] },
+    { id: 'typescript', name: 'TypeScript', category: 'web-development', aliases: ['ts'] },
+    { id: 'react', name: 'React', category: 'web-development', aliases: ['reactjs', 'react.js'] },
+    { id: 'nodejs', name: 'Node.js', category: 'web-development', aliases: ['node', 'nodejs'] },
+    { id: 'html', name: 'HTML', category: 'web-development', aliases: ['html5'] },
+    { id: 'css', name: 'CSS', category: 'web-development', aliases: ['css3'] },
+    { id: 'python', name: 'Python', category: 'programming', aliases: ['py', 'python3'] },
+    { id: 'java', name: 'Java', category: 'programming' },
+    { id: 'cpp', name: 'C++', category: 'programming', aliases: ['cpp', 'c plus plus'] },
+    { id: 'csharp', name: 'C#', category: 'programming', aliases: ['c sharp', 'csharp', '.net'] },
+    { id: 'go', name: 'Go', category: 'programming', aliases: ['golang'] },
+    { id: 'rust', name: 'Rust', category: 'programming' },
+    { id: 'sql', name: 'SQL', category: 'data-science', aliases: ['databases', 'postgresql', 'mysql'] },
+    { id: 'machine-learning', name: 'Machine Learning', category: 'data-science', aliases: ['ml'] },
+    { id: 'data-analysis', name: 'Data Analysis', category: 'data-science', aliases: ['data analytics', 'pandas'] },
+    { id: 'docker', name: 'Docker', category: 'devops', aliases: ['containers'] },
+    { id: 'kubernetes', name: 'Kubernetes', category: 'devops', aliases: ['k8s'] },
+    { id: 'git', name: 'Git', category: 'devops', aliases: ['github', 'version control'] },
+    { id: 'english', name: 'English', category: 'language', aliases: ['en'] },
+    { id: 'spanish', name: 'Spanish', category: 'language', aliases: ['es', 'espanol', 'español', 'castellano'] },
+    { id: 'french', name: 'French', category: 'language', aliases: ['fr', 'francais', 'français'] },
+    { id: 'german', name: 'German', category: 'language', aliases: ['de', 'deutsch'] },
+    { id: 'portuguese', name: 'Portuguese', category: 'language', aliases: ['pt', 'portugues', 'português'] },
+    { id: 'mandarin', name: 'Mandarin Chinese', category: 'language', aliases: ['mandarin', 'chinese', 'zh'] },
+    { id: 'japanese', name: 'Japanese', category: 'language', aliases: ['ja', 'nihongo'] },
+    { id: 'hindi', name: 'Hindi', category: 'language', aliases: ['hi'] },
+    { id: 'arabic', name: 'Arabic', category: 'language', aliases: ['ar'] },
+    { id: 'guitar', name: 'Guitar', category: 'instruments', aliases: ['acoustic guitar', 'electric guitar'] },
+    { id: 'piano', name: 'Piano', category: 'instruments', aliases: ['keyboard'] },
+    { id: 'singing', name: 'Singing', category: 'music', aliases: ['vocals', 'voice'] },
+    { id: 'music-theory', name: 'Music Theory', category: 'music' },
+    { id: 'drawing', name: 'Drawing', category: 'arts', aliases: ['sketching', 'illustration'] },
+    { id: 'photography', name: 'Photography', category: 'arts', aliases: ['photo'] },
+    { id: 'graphic-design', name: 'Graphic Design', category: 'arts', aliases: ['photoshop', 'illustrator'] },
+    { id: 'ux-design', name: 'UI/UX Design', category: 'arts', aliases: ['ux', 'ui', 'ui design', 'ux design', 'figma'] },
+    { id: 'marketing', name: 'Marketing', category: 'business', aliases: ['digital marketing', 'seo'] },
+    { id: 'public-speaking', name: 'Public Speaking', category: 'business', aliases: ['presentations'] },
+    { id: 'excel', name: 'Excel', category: 'business', aliases: ['spreadsheets', 'microsoft excel'] },
+    { id: 'baking', name: 'Baking', category: 'cooking', aliases: ['pastry'] },
+  ],
+};
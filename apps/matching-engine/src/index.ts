@@ -3,12 +3,30 @@
  * Perfect Match Engine - Intelligent skill-matching service
  */
 
-import express from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import cors from 'cors';
 import 'dotenv/config';
 import matchingRouter from './routes/matching.route.js';
 import userRouter from './routes/user.route.js';
+import skillRouter from './routes/skill.route.js';
+import feedbackRouter from './routes/feedback.route.js';
+import matchRequestRouter from './routes/match-request.route.js';
+import experimentRouter from './routes/experiment.route.js';
+import webhookRouter from './routes/webhook.route.js';
 import { semanticService } from './services/semantic.service.js';
+import { taxonomyService } from './services/taxonomy.service.js';
+import { reputationService } from './services/reputation.service.js';
+import { weightsService } from './services/weights.service.js';
+import { webhookService } from './services/webhook.service.js';
+import { exposureService } from './services/exposure.service.js';
+import { candidateIndex } from './core/candidate.index.js';
+import { matchIndex } from './core/match.index.js';
+import { userRepository } from './repositories/user.repository.js';
+import { experimentRepository } from './repositories/experiment.repository.js';
+import { feedbackRepository } from './repositories/feedback.repository.js';
+import { webhookRepository } from './repositories/webhook.repository.js';
+import { matchRequestRepository } from './repositories/match-request.repository.js';
+import { ApiError, sendError } from './validation/errors.js';
 
 const port = process.env.MATCHING_ENGINE_PORT || 8081;
 
@@ -30,12 +48,45 @@ app.get('/health', (req, res) => {
 // Routes
 app.use('/api/matching', matchingRouter);
 app.use('/api/users', userRouter);
+app.use('/api/skills', skillRouter);
+app.use('/api/feedback', feedbackRouter);
+app.use('/api/match-requests', matchRequestRouter);
+app.use('/api/admin/experiments', experimentRouter);
+app.use('/api/webhooks', webhookRouter);
+
+// Errors raised outside the route handlers, e.g. malformed JSON bodies
+app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+  const status = (error as { status?: number }).status;
+  if (status !== undefined && status >= 400 && status < 500) {
+    sendError(res, new ApiError(status, 'Invalid request', (error as Error).message), 'Invalid request');
+    return;
+  }
+  sendError(res, error, 'Unexpected error');
+});
 
 // Initialize semantic service on startup
 async function initialize() {
   try {
     console.log('Initializing Matching Engine...');
+    await taxonomyService.initialize();
+    await weightsService.initialize();
+    await matchRequestRepository.initialize();
+    await feedbackRepository.initialize();
+    await webhookRepository.initialize();
+    await reputationService.initialize();
     await semanticService.initialize();
+    await userRepository.initialize();
+    candidateIndex.attach(userRepository);
+    await candidateIndex.initialize(await userRepository.getAll());
+    matchIndex.attach(userRepository);
+    matchIndex.initialize();
+    await exposureService.initialize();
+    await experimentRepository.initialize();
+    if (!process.env.ADMIN_API_KEY) {
+      console.warn('ADMIN_API_KEY is not set; admin routes answer 401');
+    }
+    webhookService.attach(userRepository);
+    await webhookService.initialize();
     console.log('Matching Engine initialized successfully');
   } catch (error) {
     console.error('Failed to initialize Matching Engine:', error);
@@ -52,10 +103,35 @@ async function start() {
     console.log(`Health check: http://localhost:${port}/health`);
     console.log(`API endpoints:`);
     console.log(`  POST /api/matching/find - Find matches for a user`);
+    console.log(`  GET /api/matching/find/stream?userId= - Stream matches as Server-Sent Events`);
     console.log(`  POST /api/matching/score - Calculate match score between two users`);
+    console.log(`  POST /api/matching/pairs - Pair the population into one-to-one swaps`);
+    console.log(`  POST /api/matching/cycles - Find multi-party swap cycles`);
+    console.log(`  POST /api/matching/index/recall - ANN recall versus exhaustive scoring`);
+    console.log(`  GET /api/matching/scorers - List scorer plugins`);
+    console.log(`  GET /api/matching/weights - Default weights in use`);
+    console.log(`  GET /api/matching/match-index/stats - Precomputed match index status`);
+    console.log(`  GET /api/matching/exposure - Exposure distribution before and after fairness`);
+    console.log(`  GET /api/matching/cache/stats - Embedding cache statistics`);
     console.log(`  POST /api/users - Create/update user profile`);
     console.log(`  GET /api/users/:id - Get user by ID`);
     console.log(`  GET /api/users - Get all users`);
+    console.log(`  GET /api/users/export?format=jsonl|csv - Export user profiles`);
+    console.log(`  POST /api/users/import?format=jsonl|csv - Import user profiles`);
+    console.log(`  GET /api/skills/autocomplete?q= - Suggest canonical skills`);
+    console.log(`  GET /api/skills/resolve?name= - Resolve a skill name`);
+    console.log(`  GET /api/skills/categories - List skill categories`);
+    console.log(`  POST /api/feedback - Rate a completed swap session`);
+    console.log(`  GET /api/feedback/users/:userId - Feedback a user has received`);
+    console.log(`  GET /api/feedback/users/:userId/reputation - Derived trust score`);
+    console.log(`  POST /api/match-requests - Send a match request`);
+    console.log(`  POST /api/match-requests/:id/(accept|decline|cancel) - Respond to a match request`);
+    console.log(`  GET /api/match-requests/users/:userId - List a user's match requests`);
+    console.log(`  POST /api/match-requests/blocks - Block a user`);
+    console.log(`  POST /api/webhooks - Subscribe to new match webhooks`);
+    console.log(`  GET /api/webhooks/:id/deliveries - Webhook delivery log`);
+    console.log(`  POST /api/admin/experiments - Start a matching experiment`);
+    console.log(`  GET /api/admin/experiments/:id/results - Per-variant acceptance rates`);
   });
 }
 
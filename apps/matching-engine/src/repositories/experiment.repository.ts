@@ -0,0 +1,117 @@
+/**
+ * Experiment repository
+ * Stores matching experiments in memory and, unless EXPERIMENTS_PATH is off, writes
+ * them to a JSON file after every change (atomic write via a temporary file), so
+ * experiments and the running one survive restarts. Results are read from the
+ * outcome log, so they survive with them.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Experiment } from '../types/experiment.types.js';
+
+export class ExperimentRepository {
+  private experiments: Map<string, Experiment> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string | null) {}
+
+  /**
+   * Load stored experiments
+   */
+  async initialize(): Promise<void> {
+    this.experiments.clear();
+    if (!this.filePath) {
+      return;
+    }
+
+    let stored: Experiment[];
+    try {
+      stored = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const experiment of stored) {
+      this.experiments.set(experiment.id, {
+        ...experiment,
+        createdAt: new Date(experiment.createdAt),
+        updatedAt: new Date(experiment.updatedAt),
+      });
+    }
+    console.log(`Loaded ${this.experiments.size} experiments from ${this.filePath}`);
+  }
+
+  /**
+   * Create or update an experiment
+   */
+  async save(experiment: Experiment): Promise<Experiment> {
+    this.experiments.set(experiment.id, experiment);
+    await this.persist();
+    return experiment;
+  }
+
+  /**
+   * Get experiment by ID
+   */
+  async getById(experimentId: string): Promise<Experiment | null> {
+    return this.experiments.get(experimentId) ?? null;
+  }
+
+  /**
+   * All experiments, oldest first
+   */
+  async getAll(): Promise<Experiment[]> {
+    return Array.from(this.experiments.values()).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  /**
+   * Delete an experiment
+   */
+  async delete(experimentId: string): Promise<boolean> {
+    const deleted = this.experiments.delete(experimentId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Clear all experiments (for testing)
+   */
+  async clear(): Promise<void> {
+    this.experiments.clear();
+    await this.persist();
+  }
+
+  /**
+   * Queue a write of the current experiments; writes never overlap
+   */
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+
+    const write = this.writeQueue.then(async () => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(Array.from(this.experiments.values()), null, 2));
+      await rename(tmp, filePath);
+    });
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+}
+
+const experimentsPathEnv = process.env.EXPERIMENTS_PATH;
+
+// Singleton instance
+export const experimentRepository = new ExperimentRepository(
+  experimentsPathEnv === 'off' ? null : experimentsPathEnv ?? '.data/experiments.json'
+);
@@ -0,0 +1,92 @@
+/**
+ * Feedback repository
+ * Stores session feedback in memory and, like the user store, writes it to a
+ * snapshot file after every change unless FEEDBACK_STORE is memory
+ */
+
+import type { SessionFeedback } from '../types/feedback.types.js';
+import { snapshotFileFromEnv, type Snapshot, type SnapshotFile } from './snapshot.file.js';
+
+export interface StoredFeedback extends Snapshot {
+  feedback: SessionFeedback[];
+}
+
+export class FeedbackRepository {
+  private feedback: Map<string, SessionFeedback> = new Map();
+
+  constructor(private readonly file: SnapshotFile<StoredFeedback> | null) {}
+
+  /**
+   * Load stored feedback
+   */
+  async initialize(): Promise<void> {
+    this.feedback.clear();
+
+    const stored = await this.file?.read();
+    if (!stored) {
+      return;
+    }
+
+    for (const entry of stored.feedback) {
+      this.feedback.set(entry.id, { ...entry, createdAt: new Date(entry.createdAt) });
+    }
+    console.log(`Loaded ${this.feedback.size} feedback entries from ${this.file!.filePath}`);
+  }
+
+  /**
+   * Store a feedback entry
+   */
+  async save(feedback: SessionFeedback): Promise<SessionFeedback> {
+    this.feedback.set(feedback.id, feedback);
+    await this.persist();
+    return feedback;
+  }
+
+  /**
+   * Get all feedback
+   */
+  async getAll(): Promise<SessionFeedback[]> {
+    return Array.from(this.feedback.values());
+  }
+
+  /**
+   * Feedback a user has received, oldest first
+   */
+  async getForUser(userId: string): Promise<SessionFeedback[]> {
+    return Array.from(this.feedback.values()).filter(
+      (entry) => entry.toUserId === userId
+    );
+  }
+
+  /**
+   * Find the feedback an author already left for a match request
+   */
+  async findByAuthorAndRequest(fromUserId: string, matchRequestId: string): Promise<SessionFeedback | null> {
+    for (const entry of this.feedback.values()) {
+      if (entry.fromUserId === fromUserId && entry.matchRequestId === matchRequestId) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Clear all feedback (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.feedback.clear();
+    await this.persist();
+  }
+
+  private persist(): Promise<void> {
+    return this.file?.write(() => ({
+      schemaVersion: this.file!.schemaVersion,
+      feedback: Array.from(this.feedback.values()),
+    })) ?? Promise.resolve();
+  }
+}
+
+// Singleton instance
+export const feedbackRepository = new FeedbackRepository(
+  snapshotFileFromEnv<StoredFeedback>('FEEDBACK', '.data/feedback.json', 'Feedback store')
+);
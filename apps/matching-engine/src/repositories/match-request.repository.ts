@@ -0,0 +1,151 @@
+/**
+ * Match request repository
+ * Stores match requests and per-user block lists in memory and, like the user store,
+ * writes them to a snapshot file after every change unless MATCH_REQUEST_STORE is memory
+ */
+
+import type { MatchRequest, UserBlock } from '../types/match-request.types.js';
+import { snapshotFileFromEnv, type Snapshot, type SnapshotFile } from './snapshot.file.js';
+
+export interface StoredMatchRequests extends Snapshot {
+  requests: MatchRequest[];
+  blocks: UserBlock[];
+}
+
+export class MatchRequestRepository {
+  private requests: Map<string, MatchRequest> = new Map();
+  private blocks: Map<string, Map<string, UserBlock>> = new Map(); // userId → blockedUserId → block
+
+  constructor(private readonly file: SnapshotFile<StoredMatchRequests> | null) {}
+
+  /**
+   * Load the stored requests and blocks
+   */
+  async initialize(): Promise<void> {
+    this.requests.clear();
+    this.blocks.clear();
+
+    const stored = await this.file?.read();
+    if (!stored) {
+      return;
+    }
+
+    for (const request of stored.requests) {
+      this.requests.set(request.id, {
+        ...request,
+        createdAt: new Date(request.createdAt),
+        expiresAt: new Date(request.expiresAt),
+        ...(request.respondedAt !== undefined && { respondedAt: new Date(request.respondedAt) }),
+      });
+    }
+    for (const block of stored.blocks) {
+      this.putBlock({ ...block, createdAt: new Date(block.createdAt) });
+    }
+    console.log(`Loaded ${this.requests.size} match requests and ${stored.blocks.length} blocks from ${this.file!.filePath}`);
+  }
+
+  /**
+   * Create or update a match request
+   */
+  async save(request: MatchRequest): Promise<MatchRequest> {
+    this.requests.set(request.id, request);
+    await this.persist();
+    return request;
+  }
+
+  /**
+   * Get request by ID
+   */
+  async getById(requestId: string): Promise<MatchRequest | null> {
+    return this.requests.get(requestId) ?? null;
+  }
+
+  /**
+   * Requests a user sent or received
+   */
+  async getForUser(userId: string): Promise<MatchRequest[]> {
+    return Array.from(this.requests.values()).filter(
+      (request) => request.fromUserId === userId || request.toUserId === userId
+    );
+  }
+
+  /**
+   * Requests between two users, in either direction
+   */
+  async getBetween(userIdA: string, userIdB: string): Promise<MatchRequest[]> {
+    return Array.from(this.requests.values()).filter(
+      (request) =>
+        (request.fromUserId === userIdA && request.toUserId === userIdB) ||
+        (request.fromUserId === userIdB && request.toUserId === userIdA)
+    );
+  }
+
+  /**
+   * Add a user to another user's block list
+   */
+  async block(block: UserBlock): Promise<UserBlock> {
+    this.putBlock(block);
+    await this.persist();
+    return block;
+  }
+
+  /**
+   * Remove a user from another user's block list
+   */
+  async unblock(userId: string, blockedUserId: string): Promise<boolean> {
+    const deleted = this.blocks.get(userId)?.delete(blockedUserId) ?? false;
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Users a user has blocked
+   */
+  async getBlocks(userId: string): Promise<UserBlock[]> {
+    return Array.from(this.blocks.get(userId)?.values() ?? []);
+  }
+
+  /**
+   * Users who have blocked a user
+   */
+  async getBlockedBy(userId: string): Promise<UserBlock[]> {
+    const result: UserBlock[] = [];
+    for (const blocked of this.blocks.values()) {
+      const block = blocked.get(userId);
+      if (block) {
+        result.push(block);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Clear all requests and blocks (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.requests.clear();
+    this.blocks.clear();
+    await this.persist();
+  }
+
+  private putBlock(block: UserBlock): void {
+    const blocked = this.blocks.get(block.userId) ?? new Map();
+    blocked.set(block.blockedUserId, block);
+    this.blocks.set(block.userId, blocked);
+  }
+
+  private persist(): Promise<void> {
+    return this.file?.write(() => ({
+      schemaVersion: this.file!.schemaVersion,
+      requests: Array.from(this.requests.values()),
+      blocks: Array.from(this.blocks.values()).flatMap((blocked) => Array.from(blocked.values())),
+    })) ?? Promise.resolve();
+  }
+}
+
+// Singleton instance
+export const matchRequestRepository = new MatchRequestRepository(
+  snapshotFileFromEnv<StoredMatchRequests>('MATCH_REQUEST', '.data/match-requests.json', 'Match request store')
+);
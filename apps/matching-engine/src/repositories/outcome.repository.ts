@@ -0,0 +1,110 @@
+/**
+ * Outcome repository
+ * Append-only JSONL log of shown matches and their outcomes, read back by
+ * the train-weights command. Logging failures are reported but never fail a request.
+ */
+
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import type { OutcomeLogEntry } from '../types/outcome.types.js';
+
+export interface OutcomeLogSlice {
+  entries: OutcomeLogEntry[];
+  start: number; // Byte offset read from; 0 when the log was shorter than requested
+  end: number; // Byte offset to read from next time
+}
+
+export class OutcomeRepository {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string | null) {}
+
+  /**
+   * Append entries to the log, one JSON object per line
+   */
+  async append(entries: OutcomeLogEntry[]): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath || entries.length === 0) {
+      return;
+    }
+
+    const lines = entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await appendFile(filePath, lines);
+      })
+      .catch((error) => console.error('Failed to append to outcome log:', error));
+
+    return this.writeQueue;
+  }
+
+  /**
+   * Read every entry, skipping malformed lines
+   */
+  async readAll(): Promise<OutcomeLogEntry[]> {
+    return (await this.readFrom(0)).entries;
+  }
+
+  /**
+   * Read the entries appended since a byte offset returned by an earlier read
+   * A log shorter than the offset was replaced, so it is read from the start
+   */
+  async readFrom(offset: number): Promise<OutcomeLogSlice> {
+    if (!this.filePath) {
+      return { entries: [], start: 0, end: 0 };
+    }
+
+    await this.writeQueue;
+
+    const end = await this.getSize();
+    const start = offset <= end ? offset : 0;
+    const entries: OutcomeLogEntry[] = [];
+    if (start === end) {
+      return { entries, start, end };
+    }
+
+    const input = createReadStream(this.filePath, { start, end: end - 1 });
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as OutcomeLogEntry);
+      } catch {
+        console.warn(`Skipping malformed outcome log line: ${line.slice(0, 80)}`);
+      }
+    }
+
+    return { entries, start, end };
+  }
+
+  /**
+   * Current length of the log in bytes, after queued appends
+   */
+  async getSize(): Promise<number> {
+    if (!this.filePath) {
+      return 0;
+    }
+
+    await this.writeQueue;
+
+    try {
+      return (await stat(this.filePath)).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+  }
+}
+
+const outcomeLogEnv = process.env.OUTCOME_LOG_PATH;
+
+// Singleton instance
+export const outcomeRepository = new OutcomeRepository(
+  outcomeLogEnv === 'off' ? null : outcomeLogEnv ?? '.data/match-outcomes.jsonl'
+);
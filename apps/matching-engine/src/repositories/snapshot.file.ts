@@ -0,0 +1,110 @@
+/**
+ * Versioned JSON snapshot file
+ * For repositories that keep their records in memory and write them out whole after
+ * every change, like the file user store: writes go through a temporary file and a
+ * rename, never interleave, and changes made while a write is in flight share the
+ * next one. Migration N upgrades a snapshot at schema version N to version N + 1,
+ * so the current version is one more than the number of migrations.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface Snapshot {
+  schemaVersion: number;
+}
+
+export type SnapshotMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+export class SnapshotFile<T extends object> {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private queuedWrite: Promise<void> | null = null;
+
+  constructor(
+    readonly filePath: string,
+    private readonly label: string, // Used in error messages, e.g. 'Match request store'
+    private readonly migrations: SnapshotMigration[] = []
+  ) {}
+
+  get schemaVersion(): number {
+    return this.migrations.length + 1;
+  }
+
+  /**
+   * Read and migrate the stored snapshot; null when there is no file yet
+   * Dates come back as ISO strings for the caller to revive
+   */
+  async read(): Promise<T | null> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let data = raw as Record<string, unknown> & Snapshot;
+    if (typeof data?.schemaVersion !== 'number') {
+      throw new Error(`${this.label} at ${this.filePath} has no schema version`);
+    }
+    if (data.schemaVersion > this.schemaVersion) {
+      throw new Error(
+        `${this.label} schema version ${data.schemaVersion} is newer than supported version ${this.schemaVersion}`
+      );
+    }
+
+    for (let version = data.schemaVersion; version < this.schemaVersion; version++) {
+      data = { ...this.migrations[version - 1]!(data), schemaVersion: version + 1 };
+    }
+    return data as unknown as T;
+  }
+
+  /**
+   * Queue a write of the snapshot `take` returns when the write starts
+   */
+  write(take: () => T): Promise<void> {
+    if (this.queuedWrite) {
+      return this.queuedWrite;
+    }
+
+    const write = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        this.queuedWrite = null;
+        const snapshot = { ...take(), schemaVersion: this.schemaVersion };
+
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(snapshot));
+        await rename(tmp, this.filePath);
+      });
+
+    this.queuedWrite = write;
+    this.writeQueue = write;
+    return write;
+  }
+}
+
+/**
+ * Snapshot file for a repository, following USER_STORE's convention:
+ * `<prefix>_STORE` is file (default) or memory, `<prefix>_STORE_PATH` names the file
+ */
+export function snapshotFileFromEnv<T extends object>(
+  prefix: string,
+  defaultPath: string,
+  label: string,
+  migrations: SnapshotMigration[] = []
+): SnapshotFile<T> | null {
+  const store = process.env[`${prefix}_STORE`] ?? 'file';
+
+  if (store === 'memory') {
+    return null;
+  }
+  if (store === 'file') {
+    return new SnapshotFile<T>(process.env[`${prefix}_STORE_PATH`] ?? defaultPath, label, migrations);
+  }
+
+  throw new Error(`Unknown ${prefix}_STORE "${store}" (expected "file" or "memory")`);
+}
@@ -0,0 +1,143 @@
+/**
+ * File-backed user repository
+ * Keeps profiles in memory and writes a JSON snapshot after every change
+ * (atomic write via a temporary file), so profiles survive restarts. Changes
+ * made while a write is in flight share the next write, and saveMany writes
+ * a whole batch once.
+ * The snapshot is migrated to the current schema version on load.
+ */
+
+import { mkdir, readFile, writeFile, rename } from 'node:fs/promises';
+import path from 'node:path';
+import type { UserProfile } from '../types/user.types.js';
+import type { SaveManyOptions } from './user.repository.js';
+import { InMemoryUserRepository } from './user.memory.repository.js';
+import { migrateUserStore, USER_STORE_SCHEMA_VERSION, type StoredUsers } from './user.migrations.js';
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'lastActiveAt'] as const;
+
+export class FileUserRepository extends InMemoryUserRepository {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private queuedWrite: Promise<void> | null = null; // Queued behind the current write, not started yet
+  private touchTimer: NodeJS.Timeout | null = null;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  /**
+   * Load and migrate the stored profiles
+   */
+  async initialize(): Promise<void> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.log(`No user store at ${this.filePath}, starting empty`);
+        return;
+      }
+      throw error;
+    }
+
+    const { data, applied } = migrateUserStore(raw);
+
+    this.users.clear();
+    this.lookup.clear();
+    // Re-normalize skills so taxonomy changes apply to stored profiles
+    for (const stored of data.users) {
+      this.put(this.normalizeSkills(this.revive(stored)));
+    }
+
+    if (applied > 0) {
+      console.log(`Migrated user store to schema version ${USER_STORE_SCHEMA_VERSION}`);
+      await this.persist();
+    }
+    console.log(`Loaded ${this.users.size} users from ${this.filePath}`);
+  }
+
+  async save(user: UserProfile): Promise<UserProfile> {
+    const saved = await super.save(user);
+    await this.persist();
+    return saved;
+  }
+
+  async saveMany(users: UserProfile[], options?: SaveManyOptions): Promise<UserProfile[]> {
+    const saved = await super.saveMany(users, options);
+    await this.persist();
+    return saved;
+  }
+
+  /**
+   * Activity is written lazily; losing the last second of it on a crash is harmless
+   */
+  async touch(userId: string, at: Date = new Date()): Promise<void> {
+    await super.touch(userId, at);
+
+    if (!this.touchTimer) {
+      this.touchTimer = setTimeout(() => {
+        this.touchTimer = null;
+        this.persist().catch((error) => console.error('Failed to persist user store:', error));
+      }, 1000);
+      this.touchTimer.unref();
+    }
+  }
+
+  async setTrustScore(userId: string, trustScore: number): Promise<void> {
+    await super.setTrustScore(userId, trustScore);
+    await this.persist();
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    const deleted = await super.delete(userId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    await this.persist();
+  }
+
+  /**
+   * Write the snapshot; writes are queued so they never interleave
+   * The snapshot is taken when the write starts, so every change made while an
+   * earlier write was in flight lands in one write instead of one each
+   */
+  private persist(): Promise<void> {
+    if (this.queuedWrite) {
+      return this.queuedWrite;
+    }
+
+    const write = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        this.queuedWrite = null;
+        const snapshot: StoredUsers = {
+          schemaVersion: USER_STORE_SCHEMA_VERSION,
+          users: Array.from(this.users.values()) as unknown as StoredUsers['users'],
+        };
+
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify(snapshot));
+        await rename(tmp, this.filePath);
+      });
+
+    this.queuedWrite = write;
+    this.writeQueue = write;
+    return write;
+  }
+
+  private revive(stored: Record<string, unknown>): UserProfile {
+    const user = { ...stored } as Record<string, unknown>;
+    for (const field of DATE_FIELDS) {
+      if (user[field] !== undefined) {
+        user[field] = new Date(user[field] as string);
+      }
+    }
+    return user as unknown as UserProfile;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Secondary indexes over user profiles
+ * Maps skill categories and languages to user ids, so lookups don't scan every profile
+ */
+
+import type { UserProfile } from '../types/user.types.js';
+import { taxonomyService } from '../services/taxonomy.service.js';
+import { languageService } from '../services/language.service.js';
+
+export class UserLookupIndex {
+  private byCategory: Map<string, Set<string>> = new Map();
+  private byLanguage: Map<string, Set<string>> = new Map();
+
+  /**
+   * Index a user, replacing their previous entries
+   */
+  add(user: UserProfile, previous?: UserProfile): void {
+    if (previous) {
+      this.remove(previous);
+    }
+    for (const key of this.categoryKeys(user)) {
+      this.insert(this.byCategory, key, user.id);
+    }
+    for (const key of languageService.normalizeLanguages(user.languages).keys()) {
+      this.insert(this.byLanguage, key, user.id);
+    }
+  }
+
+  /**
+   * Remove a user's entries
+   */
+  remove(user: UserProfile): void {
+    for (const key of this.categoryKeys(user)) {
+      this.delete(this.byCategory, key, user.id);
+    }
+    for (const key of languageService.normalizeLanguages(user.languages).keys()) {
+      this.delete(this.byLanguage, key, user.id);
+    }
+  }
+
+  /**
+   * Ids of users with a skill in a category or any of its subcategories
+   */
+  findByCategory(category: string): Set<string> {
+    const keys = new Set([category.toLowerCase()]);
+    const resolved = taxonomyService.resolveCategory(category);
+    if (resolved) {
+      for (const id of taxonomyService.getDescendants(resolved.id)) {
+        keys.add(id.toLowerCase());
+      }
+    }
+
+    const ids = new Set<string>();
+    for (const key of keys) {
+      for (const id of this.byCategory.get(key) ?? []) {
+        ids.add(id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Ids of users who speak a language; region variants count as the same language
+   */
+  findByLanguage(language: string): Set<string> {
+    const [key] = languageService.normalizeLanguages([language]).keys();
+    return new Set(key ? this.byLanguage.get(key) ?? [] : []);
+  }
+
+  clear(): void {
+    this.byCategory.clear();
+    this.byLanguage.clear();
+  }
+
+  private categoryKeys(user: UserProfile): Set<string> {
+    const keys = new Set<string>();
+    for (const skill of [...user.offers, ...user.wants]) {
+      if (skill.category) {
+        keys.add(skill.category.toLowerCase());
+      }
+    }
+    return keys;
+  }
+
+  private insert(index: Map<string, Set<string>>, key: string, userId: string): void {
+    const ids = index.get(key) ?? new Set();
+    ids.add(userId);
+    index.set(key, ids);
+  }
+
+  private delete(index: Map<string, Set<string>>, key: string, userId: string): void {
+    const ids = index.get(key);
+    ids?.delete(userId);
+    if (ids?.size === 0) {
+      index.delete(key);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * In-memory user repository
+ * Keeps profiles in a Map; used for tests and as the base of the file store
+ */
+
+import { EventEmitter } from 'node:events';
+import type { UserProfile } from '../types/user.types.js';
+import type { SaveManyOptions, UserRepository, UserRepositoryEvents } from './user.repository.js';
+import { UserLookupIndex } from './user.lookup.js';
+import { taxonomyService } from '../services/taxonomy.service.js';
+
+export class InMemoryUserRepository extends EventEmitter<UserRepositoryEvents> implements UserRepository {
+  protected users: Map<string, UserProfile> = new Map();
+  protected lookup = new UserLookupIndex();
+
+  /**
+   * Nothing to load for the in-memory store
+   */
+  async initialize(): Promise<void> {}
+
+  /**
+   * Create or update a user profile
+   * Skills are normalized against the skill taxonomy
+   */
+  async save(user: UserProfile): Promise<UserProfile> {
+    const updatedUser = { ...this.normalizeSkills(user), updatedAt: new Date() };
+    this.put(updatedUser);
+    this.emit('saved', updatedUser);
+    return updatedUser;
+  }
+
+  /**
+   * Create or update several profiles with one savedMany event; the file store persists them with one write
+   */
+  async saveMany(users: UserProfile[], options: SaveManyOptions = {}): Promise<UserProfile[]> {
+    const now = new Date();
+    const saved = users.map((user) => ({
+      ...this.normalizeSkills(user),
+      updatedAt: options.preserveUpdatedAt ? user.updatedAt : now,
+    }));
+    for (const user of saved) {
+      this.put(user);
+    }
+    if (saved.length > 0) {
+      this.emit('savedMany', saved);
+    }
+    return saved;
+  }
+
+  /**
+   * Record user activity without changing the profile, so no 'saved' event is emitted
+   */
+  async touch(userId: string, at: Date = new Date()): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, lastActiveAt: at });
+    }
+  }
+
+  /**
+   * Store a trust score derived from feedback; like touch, not a profile edit, so
+   * updatedAt is kept and no 'saved' event is emitted
+   */
+  async setTrustScore(userId: string, trustScore: number): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, trustScore });
+    }
+  }
+
+  /**
+   * Get user by ID
+   */
+  async getById(userId: string): Promise<UserProfile | null> {
+    return this.users.get(userId) ?? null;
+  }
+
+  /**
+   * Get all users
+   */
+  async getAll(): Promise<UserProfile[]> {
+    return Array.from(this.users.values());
+  }
+
+  /**
+   * Get all users except the specified one
+   */
+  async getAllExcept(userId: string): Promise<UserProfile[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.id !== userId
+    );
+  }
+
+  /**
+   * Delete a user
+   */
+  async delete(userId: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user) {
+      return false;
+    }
+
+    this.users.delete(userId);
+    this.lookup.remove(user);
+    this.emit('deleted', userId);
+    return true;
+  }
+
+  /**
+   * Check if user exists
+   */
+  async exists(userId: string): Promise<boolean> {
+    return this.users.has(userId);
+  }
+
+  /**
+   * Get users by skill category (for filtering), including subcategories
+   */
+  async getBySkillCategory(category: string): Promise<UserProfile[]> {
+    return this.resolve(this.lookup.findByCategory(category));
+  }
+
+  /**
+   * Get users who speak a language (BCP-47 tag or name)
+   */
+  async getByLanguage(language: string): Promise<UserProfile[]> {
+    return this.resolve(this.lookup.findByLanguage(language));
+  }
+
+  /**
+   * Clear all users (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.users.clear();
+    this.lookup.clear();
+    this.emit('cleared');
+  }
+
+  /**
+   * Store a profile and update the lookup indexes, without emitting events
+   */
+  protected put(user: UserProfile): void {
+    this.lookup.add(user, this.users.get(user.id));
+    this.users.set(user.id, user);
+  }
+
+  /**
+   * Normalize offered and wanted skills against the skill taxonomy
+   */
+  protected normalizeSkills(user: UserProfile): UserProfile {
+    return {
+      ...user,
+      offers: user.offers.map((skill) => taxonomyService.normalizeSkill(skill)),
+      wants: user.wants.map((skill) => taxonomyService.normalizeSkill(skill)),
+    };
+  }
+
+  private resolve(ids: Set<string>): UserProfile[] {
+    return Array.from(ids, (id) => this.users.get(id)).filter(
+      (user): user is UserProfile => user !== undefined
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Schema migrations for the file user store
+ * Migration N upgrades a store at schema version N - 1 to version N.
+ * Add a migration to the end of the list whenever the stored shape changes.
+ */
+
+export const USER_STORE_SCHEMA_VERSION = 2;
+
+export interface StoredUsers {
+  schemaVersion: number;
+  users: Array<Record<string, unknown>>;
+}
+
+type Migration = (data: StoredUsers) => StoredUsers;
+
+const MIGRATIONS: Migration[] = [
+  // 1: versioned envelope; a bare array of profiles (e.g. a GET /api/users dump) is read as version 0
+  (data) => data,
+  // 2: backfill lastActiveAt from updatedAt
+  (data) => ({
+    ...data,
+    users: data.users.map((user) => ({ lastActiveAt: user.updatedAt, ...user })),
+  }),
+];
+
+/**
+ * Bring stored data up to the current schema version
+ */
+export function migrateUserStore(raw: unknown): { data: StoredUsers; applied: number } {
+  let data: StoredUsers = Array.isArray(raw)
+    ? { schemaVersion: 0, users: raw }
+    : (raw as StoredUsers);
+
+  if (typeof data?.schemaVersion !== 'number' || !Array.isArray(data.users)) {
+    throw new Error('User store is not a versioned user list');
+  }
+  if (data.schemaVersion > USER_STORE_SCHEMA_VERSION) {
+    throw new Error(
+      `User store schema version ${data.schemaVersion} is newer than supported version ${USER_STORE_SCHEMA_VERSION}`
+    );
+  }
+
+  const from = data.schemaVersion;
+  for (let version = from + 1; version <= USER_STORE_SCHEMA_VERSION; version++) {
+    data = { ...MIGRATIONS[version - 1]!(data), schemaVersion: version };
+  }
+
+  return { data, applied: USER_STORE_SCHEMA_VERSION - from };
+}
@@ -1,79 +1,64 @@
 /**
  * User repository
  * Manages user data storage and retrieval
- * Currently uses in-memory storage, but designed to be easily replaceable with a database
+ *
+ * USER_STORE selects the implementation:
+ * - file (default): profiles are persisted to USER_STORE_PATH
+ * - memory: profiles live only as long as the process (useful for testing)
  */
 
+import type { EventEmitter } from 'node:events';
 import type { UserProfile } from '../types/user.types.js';
+import { InMemoryUserRepository } from './user.memory.repository.js';
+import { FileUserRepository } from './user.file.repository.js';
 
-class UserRepository {
-  private users: Map<string, UserProfile> = new Map();
-
-  /**
-   * Create or update a user profile
-   */
-  async save(user: UserProfile): Promise<UserProfile> {
-    const updatedUser = { ...user, updatedAt: new Date() };
-    this.users.set(user.id, updatedUser);
-    return updatedUser;
-  }
-
-  /**
-   * Get user by ID
-   */
-  async getById(userId: string): Promise<UserProfile | null> {
-    return this.users.get(userId) ?? null;
-  }
+/**
+ * Events emitted after the store changes
+ * saveMany emits one savedMany for the whole batch instead of a saved per profile
+ * touch and setTrustScore aren't profile edits and emit nothing
+ */
+export interface UserRepositoryEvents {
+  saved: [user: UserProfile];
+  savedMany: [users: UserProfile[]];
+  deleted: [userId: string];
+  cleared: [];
+}
 
-  /**
-   * Get all users
-   */
-  async getAll(): Promise<UserProfile[]> {
-    return Array.from(this.users.values());
-  }
+export interface SaveManyOptions {
+  preserveUpdatedAt?: boolean; // Keep each profile's updatedAt instead of stamping now, e.g. for imports
+}
 
-  /**
-   * Get all users except the specified one
-   */
-  async getAllExcept(userId: string): Promise<UserProfile[]> {
-    return Array.from(this.users.values()).filter(
-      (user) => user.id !== userId
-    );
-  }
+/**
+ * Contract every user store implements
+ */
+export interface UserRepository extends EventEmitter<UserRepositoryEvents> {
+  initialize(): Promise<void>;
+  save(user: UserProfile): Promise<UserProfile>;
+  saveMany(users: UserProfile[], options?: SaveManyOptions): Promise<UserProfile[]>;
+  touch(userId: string, at?: Date): Promise<void>;
+  setTrustScore(userId: string, trustScore: number): Promise<void>;
+  getById(userId: string): Promise<UserProfile | null>;
+  getAll(): Promise<UserProfile[]>;
+  getAllExcept(userId: string): Promise<UserProfile[]>;
+  delete(userId: string): Promise<boolean>;
+  exists(userId: string): Promise<boolean>;
+  getBySkillCategory(category: string): Promise<UserProfile[]>;
+  getByLanguage(language: string): Promise<UserProfile[]>;
+  clear(): Promise<void>;
+}
 
-  /**
-   * Delete a user
-   */
-  async delete(userId: string): Promise<boolean> {
-    return this.users.delete(userId);
-  }
+function createUserRepository(): UserRepository {
+  const store = process.env.USER_STORE ?? 'file';
 
-  /**
-   * Check if user exists
-   */
-  async exists(userId: string): Promise<boolean> {
-    return this.users.has(userId);
+  if (store === 'memory') {
+    return new InMemoryUserRepository();
   }
-
-  /**
-   * Get users by skill category (for filtering)
-   */
-  async getBySkillCategory(category: string): Promise<UserProfile[]> {
-    return Array.from(this.users.values()).filter((user) =>
-      [...user.offers, ...user.wants].some(
-        (skill) => skill.category?.toLowerCase() === category.toLowerCase()
-      )
-    );
+  if (store === 'file') {
+    return new FileUserRepository(process.env.USER_STORE_PATH ?? '.data/users.json');
   }
 
-  /**
-   * Clear all users (useful for testing)
-   */
-  async clear(): Promise<void> {
-    this.users.clear();
-  }
+  throw new Error(`Unknown USER_STORE "${store}" (expected "file" or "memory")`);
 }
 
 // Singleton instance
-export const userRepository = new UserRepository();
-
+export const userRepository = createUserRepository();
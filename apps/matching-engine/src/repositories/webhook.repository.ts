@@ -0,0 +1,199 @@
+/**
+ * Webhook repository
+ * Stores match webhook subscriptions, their delivery log and the candidates already
+ * sent to each, in memory and, like the user store, writes them to a snapshot file
+ * after every change unless WEBHOOK_STORE is memory
+ */
+
+import type { WebhookDelivery, WebhookSubscription } from '../types/webhook.types.js';
+import { snapshotFileFromEnv, type Snapshot, type SnapshotFile } from './snapshot.file.js';
+
+const DELIVERIES_KEPT = 100; // Per subscription, newest kept
+
+export interface StoredWebhooks extends Snapshot {
+  subscriptions: WebhookSubscription[];
+  deliveries: WebhookDelivery[]; // Oldest first within each subscription
+  notified: Record<string, string[]>; // subscriptionId → candidate ids sent
+}
+
+export class WebhookRepository {
+  private subscriptions: Map<string, WebhookSubscription> = new Map();
+  private deliveries: Map<string, WebhookDelivery[]> = new Map(); // subscriptionId → oldest first
+  private notified: Map<string, Set<string>> = new Map(); // subscriptionId → candidates sent
+
+  constructor(private readonly file: SnapshotFile<StoredWebhooks> | null) {}
+
+  /**
+   * Load the stored subscriptions, deliveries and sent candidates
+   */
+  async initialize(): Promise<void> {
+    this.subscriptions.clear();
+    this.deliveries.clear();
+    this.notified.clear();
+
+    const stored = await this.file?.read();
+    if (!stored) {
+      return;
+    }
+
+    for (const subscription of stored.subscriptions) {
+      this.subscriptions.set(subscription.id, { ...subscription, createdAt: new Date(subscription.createdAt) });
+    }
+    for (const delivery of stored.deliveries) {
+      const log = this.deliveries.get(delivery.subscriptionId) ?? [];
+      log.push({
+        ...delivery,
+        attempts: delivery.attempts.map((attempt) => ({ ...attempt, attemptedAt: new Date(attempt.attemptedAt) })),
+        nextAttemptAt: delivery.nextAttemptAt === null ? null : new Date(delivery.nextAttemptAt),
+        createdAt: new Date(delivery.createdAt),
+        ...(delivery.deliveredAt !== undefined && { deliveredAt: new Date(delivery.deliveredAt) }),
+      });
+      this.deliveries.set(delivery.subscriptionId, log);
+    }
+    for (const [subscriptionId, candidateIds] of Object.entries(stored.notified)) {
+      this.notified.set(subscriptionId, new Set(candidateIds));
+    }
+    console.log(`Loaded ${this.subscriptions.size} webhook subscriptions from ${this.file!.filePath}`);
+  }
+
+  /**
+   * Create or update a subscription
+   */
+  async saveSubscription(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    this.subscriptions.set(subscription.id, subscription);
+    await this.persist();
+    return subscription;
+  }
+
+  /**
+   * Get subscription by ID
+   */
+  async getSubscription(subscriptionId: string): Promise<WebhookSubscription | null> {
+    return this.subscriptions.get(subscriptionId) ?? null;
+  }
+
+  /**
+   * All subscriptions, oldest first
+   */
+  async getSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values()).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  /**
+   * Delete a subscription, its delivery log and its sent candidates
+   */
+  async deleteSubscription(subscriptionId: string): Promise<boolean> {
+    this.deliveries.delete(subscriptionId);
+    this.notified.delete(subscriptionId);
+    const deleted = this.subscriptions.delete(subscriptionId);
+    await this.persist();
+    return deleted;
+  }
+
+  /**
+   * Add or update a delivery in its subscription's log
+   */
+  async saveDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const log = this.deliveries.get(delivery.subscriptionId) ?? [];
+    const index = log.findIndex((entry) => entry.id === delivery.id);
+    if (index === -1) {
+      log.push(delivery);
+      log.splice(0, Math.max(0, log.length - DELIVERIES_KEPT));
+    } else {
+      log[index] = delivery;
+    }
+    this.deliveries.set(delivery.subscriptionId, log);
+    await this.persist();
+    return delivery;
+  }
+
+  /**
+   * A subscription's deliveries, newest first
+   */
+  async getDeliveries(subscriptionId: string): Promise<WebhookDelivery[]> {
+    return [...(this.deliveries.get(subscriptionId) ?? [])].reverse();
+  }
+
+  /**
+   * Deliveries waiting for their first or next attempt, across subscriptions
+   */
+  async getPendingDeliveries(): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .flat()
+      .filter((delivery) => delivery.status === 'pending');
+  }
+
+  /**
+   * Whether a candidate has been sent to a subscription
+   */
+  async wasNotified(subscriptionId: string, candidateId: string): Promise<boolean> {
+    return this.notified.get(subscriptionId)?.has(candidateId) ?? false;
+  }
+
+  /**
+   * Record that a candidate was sent to a subscription, or forget it so it can be sent again
+   */
+  async setNotified(subscriptionId: string, candidateId: string, notified: boolean): Promise<void> {
+    const sent = this.notified.get(subscriptionId) ?? new Set<string>();
+    if (sent.has(candidateId) === notified) {
+      return;
+    }
+
+    if (notified) {
+      sent.add(candidateId);
+    } else {
+      sent.delete(candidateId);
+    }
+    this.notified.set(subscriptionId, sent);
+    await this.persist();
+  }
+
+  /**
+   * Forget a candidate in every subscription, e.g. when their profile is deleted
+   */
+  async forgetCandidate(candidateId: string): Promise<void> {
+    let changed = false;
+    for (const sent of this.notified.values()) {
+      changed = sent.delete(candidateId) || changed;
+    }
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Forget every sent candidate, e.g. when all profiles are cleared
+   */
+  async clearNotified(): Promise<void> {
+    this.notified.clear();
+    await this.persist();
+  }
+
+  /**
+   * Clear all subscriptions and deliveries (for testing)
+   */
+  async clear(): Promise<void> {
+    this.subscriptions.clear();
+    this.deliveries.clear();
+    this.notified.clear();
+    await this.persist();
+  }
+
+  private persist(): Promise<void> {
+    return this.file?.write(() => ({
+      schemaVersion: this.file!.schemaVersion,
+      subscriptions: Array.from(this.subscriptions.values()),
+      deliveries: Array.from(this.deliveries.values()).flat(),
+      notified: Object.fromEntries(
+        Array.from(this.notified, ([subscriptionId, sent]) => [subscriptionId, Array.from(sent)])
+      ),
+    })) ?? Promise.resolve();
+  }
+}
+
+// Singleton instance
+export const webhookRepository = new WebhookRepository(
+  snapshotFileFromEnv<StoredWebhooks>('WEBHOOK', '.data/webhooks.json', 'Webhook store')
+);
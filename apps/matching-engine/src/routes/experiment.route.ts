@@ -0,0 +1,94 @@
+/**
+ * Experiment admin API routes
+ * Define matching experiments and read per-variant results
+ * Requires ADMIN_API_KEY in the X-Admin-Key header; without a configured key every request is refused
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { Router, type Router as ExpressRouter } from 'express';
+import { experimentService } from '../services/experiment.service.js';
+import { parse } from '../validation/schema.js';
+import { experimentSchema } from '../validation/request.schemas.js';
+import { ApiError, sendError } from '../validation/errors.js';
+
+const router: ExpressRouter = Router();
+
+const adminKey = process.env.ADMIN_API_KEY;
+
+router.use((req, res, next) => {
+  if (!adminKey) {
+    sendError(res, new ApiError(401, 'Unauthorized', 'Admin routes are disabled until ADMIN_API_KEY is set'), 'Unauthorized');
+    return;
+  }
+
+  const provided = Buffer.from(req.get('x-admin-key') ?? '');
+  const expected = Buffer.from(adminKey);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    sendError(res, new ApiError(401, 'Unauthorized', 'A valid X-Admin-Key header is required'), 'Unauthorized');
+    return;
+  }
+  next();
+});
+
+/**
+ * POST /api/admin/experiments
+ * Define and start an experiment; only one runs at a time
+ */
+router.post('/', async (req, res) => {
+  try {
+    const input = parse(experimentSchema, req.body ?? {});
+    res.status(201).json(await experimentService.create(input));
+  } catch (error) {
+    sendError(res, error, 'Failed to create experiment');
+  }
+});
+
+/**
+ * GET /api/admin/experiments
+ * List experiments, oldest first
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await experimentService.list());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch experiments');
+  }
+});
+
+/**
+ * GET /api/admin/experiments/:id
+ * Get an experiment
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await experimentService.get(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch experiment');
+  }
+});
+
+/**
+ * POST /api/admin/experiments/:id/stop
+ * Stop assigning users to an experiment
+ */
+router.post('/:id/stop', async (req, res) => {
+  try {
+    res.json(await experimentService.stop(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to stop experiment');
+  }
+});
+
+/**
+ * GET /api/admin/experiments/:id/results
+ * Per-variant impressions and acceptance rates from the outcome log
+ */
+router.get('/:id/results', async (req, res) => {
+  try {
+    res.json(await experimentService.getResults(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to calculate experiment results');
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+/**
+ * Session feedback API routes
+ */
+
+import { Router, type Router as ExpressRouter } from 'express';
+import { feedbackRepository } from '../repositories/feedback.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { reputationService } from '../services/reputation.service.js';
+import { matchRequestService } from '../services/match-request.service.js';
+import { parse } from '../validation/schema.js';
+import { feedbackSchema } from '../validation/request.schemas.js';
+import { ApiError, NotFoundError, sendError } from '../validation/errors.js';
+
+const router: ExpressRouter = Router();
+
+/**
+ * POST /api/feedback
+ * Rate the other participant after a completed swap session
+ * The swap is the accepted match request between them; each can rate the other once per request
+ */
+router.post('/', async (req, res) => {
+  try {
+    const feedback = parse(feedbackSchema, req.body ?? {});
+    const { matchRequestId, fromUserId, toUserId } = feedback;
+
+    for (const userId of [fromUserId, toUserId]) {
+      if (!(await userRepository.exists(userId))) {
+        throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
+      }
+    }
+
+    await matchRequestService.getSwap(matchRequestId, fromUserId, toUserId);
+
+    if (await feedbackRepository.findByAuthorAndRequest(fromUserId, matchRequestId)) {
+      throw new ApiError(409, 'Feedback already submitted', `User ${fromUserId} has already left feedback for match request ${matchRequestId}`);
+    }
+
+    const result = await reputationService.recordFeedback(feedback);
+
+    res.status(201).json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to submit feedback');
+  }
+});
+
+/**
+ * GET /api/feedback/users/:userId
+ * Feedback a user has received
+ */
+router.get('/users/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    res.json(await feedbackRepository.getForUser(userId));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch feedback');
+  }
+});
+
+/**
+ * GET /api/feedback/users/:userId/reputation
+ * Derived trust score and feedback summary for a user
+ */
+router.get('/users/:userId/reputation', async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (!(await userRepository.exists(userId))) {
+      throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
+    }
+
+    res.json(reputationService.getReputation(userId));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch reputation');
+  }
+});
+
+export default router;
@@ -0,0 +1,145 @@
+/**
+ * Match request API routes
+ * Send and respond to match requests, and manage block lists
+ */
+
+import { Router, type Router as ExpressRouter } from 'express';
+import { userRepository } from '../repositories/user.repository.js';
+import { matchRequestService } from '../services/match-request.service.js';
+import { parse } from '../validation/schema.js';
+import {
+  sendMatchRequestSchema,
+  respondMatchRequestSchema,
+  matchRequestListQuerySchema,
+  blockSchema,
+} from '../validation/request.schemas.js';
+import { NotFoundError, sendError } from '../validation/errors.js';
+
+const router: ExpressRouter = Router();
+
+/**
+ * Throw a 404 unless every user exists
+ */
+async function requireUsers(userIds: string[]): Promise<void> {
+  for (const userId of userIds) {
+    if (!(await userRepository.exists(userId))) {
+      throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
+    }
+  }
+}
+
+/**
+ * POST /api/match-requests
+ * Send a match request
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { fromUserId, toUserId, message } = parse(sendMatchRequestSchema, req.body ?? {});
+
+    await requireUsers([fromUserId, toUserId]);
+
+    res.status(201).json(await matchRequestService.send(fromUserId, toUserId, message));
+  } catch (error) {
+    sendError(res, error, 'Failed to send match request');
+  }
+});
+
+/**
+ * GET /api/match-requests/users/:userId?status=pending
+ * Requests a user sent or received, newest first
+ */
+router.get('/users/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { status } = parse(matchRequestListQuerySchema, req.query);
+
+    await requireUsers([userId]);
+
+    res.json(await matchRequestService.getForUser(userId, status));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch match requests');
+  }
+});
+
+/**
+ * POST /api/match-requests/:id/accept, /:id/decline
+ * The recipient responds to a pending request
+ */
+for (const action of ['accept', 'decline'] as const) {
+  router.post(`/:id/${action}`, async (req, res) => {
+    try {
+      const { userId } = parse(respondMatchRequestSchema, req.body ?? {});
+
+      res.json(await matchRequestService.respond(req.params.id, userId, action));
+    } catch (error) {
+      sendError(res, error, `Failed to ${action} match request`);
+    }
+  });
+}
+
+/**
+ * POST /api/match-requests/:id/cancel
+ * The sender withdraws a pending request
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const { userId } = parse(respondMatchRequestSchema, req.body ?? {});
+
+    res.json(await matchRequestService.cancel(req.params.id, userId));
+  } catch (error) {
+    sendError(res, error, 'Failed to cancel match request');
+  }
+});
+
+/**
+ * POST /api/match-requests/blocks
+ * Block a user; they no longer appear in matches and cannot send requests
+ */
+router.post('/blocks', async (req, res) => {
+  try {
+    const { userId, blockedUserId } = parse(blockSchema, req.body ?? {});
+
+    await requireUsers([userId, blockedUserId]);
+
+    res.status(201).json(await matchRequestService.block(userId, blockedUserId));
+  } catch (error) {
+    sendError(res, error, 'Failed to block user');
+  }
+});
+
+/**
+ * GET /api/match-requests/blocks/:userId
+ * Users a user has blocked
+ */
+router.get('/blocks/:userId', async (req, res) => {
+  try {
+    res.json(await matchRequestService.getBlocks(req.params.userId));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch blocks');
+  }
+});
+
+/**
+ * DELETE /api/match-requests/blocks/:userId/:blockedUserId
+ * Unblock a user
+ */
+router.delete('/blocks/:userId/:blockedUserId', async (req, res) => {
+  try {
+    const { userId, blockedUserId } = req.params;
+    const removed = await matchRequestService.unblock(userId, blockedUserId);
+
+    if (!removed) {
+      throw new NotFoundError('Block not found', `User ${userId} has not blocked ${blockedUserId}`);
+    }
+
+    res.json({ 
+      message: 'User unblocked successfully',
+      userId,
+      blockedUserId
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to unblock user');
+  }
+});
+
+export default router;
@@ -2,79 +2,254 @@
  * Matching API routes
  */
 
-import { Router, type Router as ExpressRouter } from 'express';
+import { Router, type Response, type Router as ExpressRouter } from 'express';
 import { matchingEngine } from '../core/matching.engine.js';
+import { candidateIndex } from '../core/candidate.index.js';
+import { matchIndex } from '../core/match.index.js';
+import { pairingEngine } from '../core/pairing.engine.js';
+import { cycleEngine } from '../core/cycle.engine.js';
+import { scorerRegistry } from '../core/scorer.registry.js';
 import { userRepository } from '../repositories/user.repository.js';
-import type { MatchingRequest, MatchingResponse, MatchingConfig } from '../types/matching.types.js';
-import { DEFAULT_WEIGHTS } from '../types/user.types.js';
+import { semanticService } from '../services/semantic.service.js';
+import { outcomeService } from '../services/outcome.service.js';
+import { weightsService } from '../services/weights.service.js';
+import { experimentService } from '../services/experiment.service.js';
+import { userFilterService } from '../services/user-filter.service.js';
+import { exposureService } from '../services/exposure.service.js';
+import { encodeCursor, decodeCursor } from '../core/cursor.js';
+import { parse } from '../validation/schema.js';
+import {
+  findRequestSchema,
+  matchStreamQuerySchema,
+  exposureQuerySchema,
+  scoreRequestSchema,
+  pairingRequestSchema,
+  cycleRequestSchema,
+  recallRequestSchema,
+} from '../validation/request.schemas.js';
+import { ApiError, NotFoundError, sendError } from '../validation/errors.js';
+import type { MatchingResponse, MatchingConfig, MatchCursor } from '../types/matching.types.js';
 
 const router: ExpressRouter = Router();
 
+const DEFAULT_CANDIDATE_POOL_SIZE = 200;
+const DEFAULT_STREAM_CHUNK_SIZE = 100;
+
+/**
+ * Fill in defaults for the config fields a request left out
+ */
+function buildMatchingConfig(requested: Partial<MatchingConfig>): MatchingConfig {
+  return {
+    weights: requested.weights ?? weightsService.getDefaultWeights(),
+    minMatchScore: requested.minMatchScore ?? 0.3,
+    maxResults: requested.maxResults ?? 50,
+    enableBidirectionalMatching: requested.enableBidirectionalMatching ?? false,
+    reciprocity: requested.reciprocity ?? (requested.enableBidirectionalMatching ? 'strict' : 'off'),
+    reciprocityThreshold: requested.reciprocityThreshold ?? 0.3,
+    reciprocityMean: requested.reciprocityMean ?? 'geometric',
+    scorerWeights: requested.scorerWeights ?? {},
+    ...(requested.minAvailabilityOverlapHours !== undefined && {
+      minAvailabilityOverlapHours: requested.minAvailabilityOverlapHours,
+    }),
+    candidatePoolSize: requested.candidatePoolSize ?? DEFAULT_CANDIDATE_POOL_SIZE,
+    levelGapPolicy: requested.levelGapPolicy ?? 'gap-aware',
+    ...(requested.diversity && { diversity: requested.diversity }),
+    ...(requested.fairness && { fairness: requested.fairness }),
+  };
+}
+
+/**
+ * Write one Server-Sent Event
+ */
+function sendEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 /**
  * POST /api/matching/find
  * Find matches for a user
+ * Served from the precomputed match index when possible; live: true always scores
  */
 router.post('/find', async (req, res) => {
   try {
-    const { userId, config }: MatchingRequest = req.body;
-
-    if (!userId) {
-      res.status(400).json({ 
-        error: 'userId is required',
-        message: 'Please provide a userId in the request body'
-      });
-      return;
-    }
+    const { userId, config, filters = {}, cursor, live = false } = parse(findRequestSchema, req.body ?? {});
+    const after = cursor ? decodeCursor<MatchCursor>(cursor, ['score', 'userId']) : null;
 
     // Get user
     const user = await userRepository.getById(userId);
     if (!user) {
-      res.status(404).json({ 
-        error: 'User not found',
-        message: `User with id ${userId} does not exist`
-      });
-      return;
+      throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
     }
 
-    // Get all candidates
-    const candidates = await userRepository.getAllExcept(userId);
+    await userRepository.touch(userId);
+
+    // Get candidates passing the filters, before any scoring
+    const candidates = userFilterService.apply(
+      await userRepository.getAllExcept(userId),
+      filters
+    );
 
     if (candidates.length === 0) {
       res.json({
         matches: [],
         totalCandidates: 0,
         processingTime: 0,
+        nextCursor: null,
         message: 'No candidates available for matching'
       } as MatchingResponse);
       return;
     }
 
-    // Build matching config
-    const matchingConfig: MatchingConfig = {
-      weights: config?.weights ?? DEFAULT_WEIGHTS,
-      minMatchScore: config?.minMatchScore ?? 0.3,
-      maxResults: config?.maxResults ?? 50,
-      enableBidirectionalMatching: config?.enableBidirectionalMatching ?? true,
-    };
+    // A running experiment's variant overrides the request's config
+    const assigned = await experimentService.assign(userId);
+    const requested: Partial<MatchingConfig> = { ...config, ...assigned?.config };
+
+    // Serve the precomputed index when it covers this config and page
+    const indexStart = Date.now();
+    const indexed = live ? null : await matchIndex.findMatchPage(user, candidates, requested, after);
+    if (indexed) {
+      const last = indexed.matches[indexed.matches.length - 1];
+      const response: MatchingResponse = {
+        matches: indexed.matches,
+        totalCandidates: candidates.length,
+        processingTime: Date.now() - indexStart,
+        nextCursor: indexed.hasMore && last
+          ? encodeCursor({ score: last.matchScore.totalScore, userId: last.userB.id } satisfies MatchCursor)
+          : null,
+        ...(assigned && { experiment: assigned.assignment }),
+        source: 'index',
+        computedAt: indexed.computedAt,
+      };
+
+      await outcomeService.recordImpressions(
+        userId,
+        indexed.matches,
+        weightsService.getVersion(),
+        assigned?.assignment ?? null
+      );
+      exposureService.record(indexed.matches);
+
+      res.json(response);
+      return;
+    }
+
+    const matchingConfig = buildMatchingConfig(requested);
+
+    // Narrow large populations with the ANN index before full scoring, within the filtered candidates
+    const poolSize = matchingConfig.candidatePoolSize ?? DEFAULT_CANDIDATE_POOL_SIZE;
+    const { candidates: scoredCandidates, strategy } = await candidateIndex.retrieve(user, candidates, poolSize);
 
     // Find matches
     const startTime = Date.now();
-    const matches = await matchingEngine.findMatches(user, candidates, matchingConfig);
+    const { matches, hasMore, baseline } = await matchingEngine.findMatchPage(user, scoredCandidates, matchingConfig, after);
     const processingTime = Date.now() - startTime;
 
+    const last = matches[matches.length - 1];
     const response: MatchingResponse = {
       matches,
       totalCandidates: candidates.length,
       processingTime,
+      retrieval: {
+        strategy,
+        scoredCandidates: scoredCandidates.length,
+      },
+      nextCursor: hasMore && last
+        ? encodeCursor({ score: last.matchScore.totalScore, userId: last.userB.id } satisfies MatchCursor)
+        : null,
+      ...(assigned && { experiment: assigned.assignment }),
+      source: 'live',
     };
 
+    // Log what was shown so weights can be trained and variants compared on the outcomes
+    await outcomeService.recordImpressions(
+      userId,
+      matches,
+      requested.weights || requested.scorerWeights ? null : weightsService.getVersion(),
+      assigned?.assignment ?? null
+    );
+    exposureService.record(matches, baseline);
+
     res.json(response);
   } catch (error) {
-    console.error('Error finding matches:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to find matches. Please try again later.'
+    sendError(res, error, 'Failed to find matches. Please try again later.');
+  }
+});
+
+/**
+ * GET /api/matching/find/stream?userId=...
+ * Score every candidate in chunks, streaming the provisional top results as Server-Sent Events
+ * Closing the connection cancels the search
+ */
+router.get('/find/stream', async (req, res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort(new Error('Client disconnected'));
+    }
+  });
+
+  try {
+    const { userId, chunkSize = DEFAULT_STREAM_CHUNK_SIZE, ...options } = parse(matchStreamQuerySchema, req.query);
+
+    const user = await userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
+    }
+
+    await userRepository.touch(userId);
+
+    // Filter fields narrow the candidates; the rest is config
+    const candidates = userFilterService.apply(await userRepository.getAllExcept(userId), options);
+    const assigned = await experimentService.assign(userId);
+    const matchingConfig = buildMatchingConfig({ ...options, ...assigned?.config });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
     });
+
+    const startTime = Date.now();
+    const { matches, baseline } = await matchingEngine.findMatchPage(user, candidates, matchingConfig, null, {
+      chunkSize,
+      signal: controller.signal,
+      onProgress: (progress) => sendEvent(res, 'progress', {
+        matches: progress.matches,
+        scoredCandidates: progress.scored,
+        totalCandidates: progress.total,
+      }),
+    });
+    const processingTime = Date.now() - startTime;
+
+    await outcomeService.recordImpressions(
+      userId,
+      matches,
+      assigned?.config.weights || assigned?.config.scorerWeights ? null : weightsService.getVersion(),
+      assigned?.assignment ?? null
+    );
+    exposureService.record(matches, baseline);
+
+    sendEvent(res, 'done', {
+      matches,
+      totalCandidates: candidates.length,
+      processingTime,
+      ...(assigned && { experiment: assigned.assignment }),
+    } satisfies MatchingResponse);
+    res.end();
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(`Match stream cancelled: ${(controller.signal.reason as Error).message}`);
+      return;
+    }
+    if (!res.headersSent) {
+      sendError(res, error, 'Failed to find matches. Please try again later.');
+      return;
+    }
+
+    console.error('Match stream failed:', error);
+    sendEvent(res, 'error', { error: 'Internal server error', message: 'Failed to find matches. Please try again later.' });
+    res.end();
   }
 });
 
@@ -84,34 +259,23 @@ router.post('/find', async (req, res) => {
  */
 router.post('/score', async (req, res) => {
   try {
-    const { userIdA, userIdB, weights } = req.body;
-
-    if (!userIdA || !userIdB) {
-      res.status(400).json({ 
-        error: 'Both userIdA and userIdB are required'
-      });
-      return;
-    }
+    const { userIdA, userIdB, weights, ...scoring } = parse(scoreRequestSchema, req.body ?? {});
 
     const userA = await userRepository.getById(userIdA);
     const userB = await userRepository.getById(userIdB);
 
     if (!userA) {
-      res.status(404).json({ error: `User ${userIdA} not found` });
-      return;
+      throw new NotFoundError('User not found', `User with id ${userIdA} does not exist`);
     }
 
     if (!userB) {
-      res.status(404).json({ error: `User ${userIdB} not found` });
-      return;
+      throw new NotFoundError('User not found', `User with id ${userIdB} does not exist`);
     }
 
-    const matchWeights = weights ?? DEFAULT_WEIGHTS;
-    const matchScore = await matchingEngine.calculateMatchScore(
-      userA,
-      userB,
-      matchWeights
-    );
+    const matchScore = await matchingEngine.calculateMatchScore(userA, userB, {
+      ...scoring,
+      weights: weights ?? weightsService.getDefaultWeights(),
+    });
 
     res.json({
       userA: { id: userA.id, username: userA.username },
@@ -119,14 +283,165 @@ router.post('/score', async (req, res) => {
       matchScore,
     });
   } catch (error) {
-    console.error('Error calculating match score:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to calculate match score'
-    });
+    sendError(res, error, 'Failed to calculate match score');
   }
 });
 
+/**
+ * POST /api/matching/pairs
+ * Pair the whole population (or a subset) into one-to-one swaps
+ */
+router.post('/pairs', async (req, res) => {
+  try {
+    const { mode = 'max-weight', userIds, config } = parse(pairingRequestSchema, req.body ?? {});
+
+    let users = await userRepository.getAll();
+    if (userIds) {
+      const requested = new Set(userIds);
+      users = users.filter((user) => requested.has(user.id));
+
+      const missing = userIds.filter((id) => !users.some((user) => user.id === id));
+      if (missing.length > 0) {
+        throw new NotFoundError('User not found', `Users do not exist: ${missing.join(', ')}`);
+      }
+    }
+
+    const result = await pairingEngine.computePairs(users, mode, config ?? {});
+
+    if (!result) {
+      throw new ApiError(409, 'No stable matching', 'No stable matching exists for these users. Try mode "max-weight".');
+    }
+
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to compute pairs');
+  }
+});
+
+/**
+ * POST /api/matching/cycles
+ * Find multi-party exchange rings (A → B → C → A)
+ */
+router.post('/cycles', async (req, res) => {
+  try {
+    const request = parse(cycleRequestSchema, req.body ?? {});
+
+    if (request.userId && !(await userRepository.exists(request.userId))) {
+      throw new NotFoundError('User not found', `User with id ${request.userId} does not exist`);
+    }
+
+    const users = await userRepository.getAll();
+    const result = await cycleEngine.findCycles(users, request);
+
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to find swap cycles');
+  }
+});
+
+/**
+ * POST /api/matching/index/recall
+ * Compare ANN candidate retrieval against exhaustive scoring for a user
+ */
+router.post('/index/recall', async (req, res) => {
+  try {
+    const { userId, k, poolSize, weights, scorerWeights } = parse(recallRequestSchema, req.body ?? {});
+
+    const user = await userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
+    }
+
+    const population = await userRepository.getAllExcept(userId);
+    const report = await candidateIndex.measureRecall(
+      user,
+      population,
+      k ?? 10,
+      poolSize ?? DEFAULT_CANDIDATE_POOL_SIZE,
+      { weights: weights ?? weightsService.getDefaultWeights(), scorerWeights: scorerWeights ?? {} }
+    );
+
+    res.json(report);
+  } catch (error) {
+    sendError(res, error, 'Failed to measure candidate recall');
+  }
+});
+
+/**
+ * GET /api/matching/index/stats
+ * Candidate index size statistics
+ */
+router.get('/index/stats', (req, res) => {
+  res.json(candidateIndex.getStats());
+});
+
+/**
+ * GET /api/matching/scorers
+ * List the registered scorer plugins
+ */
+router.get('/scorers', (req, res) => {
+  res.json(
+    scorerRegistry.list().map((scorer) => ({
+      id: scorer.id,
+      description: scorer.description,
+      defaultWeight: scorer.defaultWeight,
+    }))
+  );
+});
+
+/**
+ * GET /api/matching/weights
+ * Default weights in use and, when trained, their version and training report
+ */
+router.get('/weights', (req, res) => {
+  res.json(weightsService.getActive());
+});
+
+/**
+ * GET /api/matching/match-index/stats
+ * Precomputed match index size and pending updates
+ */
+router.get('/match-index/stats', (req, res) => {
+  res.json(matchIndex.getStats());
+});
+
+/**
+ * GET /api/matching/exposure?newUserDays=14
+ * How often users appear in others' results, with and without fairness bonuses
+ */
+router.get('/exposure', async (req, res) => {
+  try {
+    const { newUserDays } = parse(exposureQuerySchema, req.query);
+    res.json(exposureService.getMetrics(await userRepository.getAll(), newUserDays));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch exposure metrics');
+  }
+});
+
+/**
+ * GET /api/matching/exposure/users/:userId
+ * A user's decayed exposure, with and without fairness bonuses
+ */
+router.get('/exposure/users/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    if (!(await userRepository.exists(userId))) {
+      throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
+    }
+    res.json(exposureService.getUserExposure(userId));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch user exposure');
+  }
+});
+
+/**
+ * GET /api/matching/cache/stats
+ * Embedding cache hit/miss counters
+ */
+router.get('/cache/stats', (req, res) => {
+  res.json(semanticService.getCacheStats());
+});
+
 /**
  * GET /api/matching/health
  * Health check endpoint
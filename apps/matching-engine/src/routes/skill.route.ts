@@ -0,0 +1,57 @@
+/**
+ * Skill taxonomy API routes
+ */
+
+import { Router, type Router as ExpressRouter } from 'express';
+import { taxonomyService } from '../services/taxonomy.service.js';
+import { parse } from '../validation/schema.js';
+import { autocompleteQuerySchema, resolveQuerySchema } from '../validation/request.schemas.js';
+import { NotFoundError, sendError } from '../validation/errors.js';
+
+const router: ExpressRouter = Router();
+
+/**
+ * GET /api/skills/autocomplete?q=java&limit=10
+ * Suggest canonical skills for a partial name
+ */
+router.get('/autocomplete', (req, res) => {
+  try {
+    const { q: query, limit = 10 } = parse(autocompleteQuerySchema, req.query);
+
+    res.json({
+      query,
+      suggestions: taxonomyService.autocomplete(query, limit),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to suggest skills');
+  }
+});
+
+/**
+ * GET /api/skills/resolve?name=JS
+ * Resolve a free-text skill name to its canonical skill
+ */
+router.get('/resolve', (req, res) => {
+  try {
+    const { name } = parse(resolveQuerySchema, req.query);
+    const skill = taxonomyService.resolveSkill(name);
+
+    if (!skill) {
+      throw new NotFoundError('Skill not found', `"${name}" is not in the skill taxonomy`);
+    }
+
+    res.json(skill);
+  } catch (error) {
+    sendError(res, error, 'Failed to resolve skill');
+  }
+});
+
+/**
+ * GET /api/skills/categories
+ * List taxonomy categories with their subcategories
+ */
+router.get('/categories', (req, res) => {
+  res.json(taxonomyService.listCategories());
+});
+
+export default router;
@@ -2,53 +2,96 @@
  * User management API routes
  */
 
-import { Router, type Router as ExpressRouter } from 'express';
+import express, { Router, type Router as ExpressRouter } from 'express';
 import { userRepository } from '../repositories/user.repository.js';
-import type { UserProfile } from '../types/user.types.js';
+import { userFilterService } from '../services/user-filter.service.js';
+import { userTransferService } from '../services/user-transfer.service.js';
+import { encodeCursor, decodeCursor } from '../core/cursor.js';
+import { parse } from '../validation/schema.js';
+import {
+  userProfileSchema,
+  userListQuerySchema,
+  userExportQuerySchema,
+  userImportQuerySchema,
+} from '../validation/request.schemas.js';
+import { NotFoundError, sendError } from '../validation/errors.js';
+import type { UserTransferFormat } from '../types/user-transfer.types.js';
 
 const router: ExpressRouter = Router();
 
+/**
+ * Position after the last user of a page; users are listed by id
+ */
+interface UserCursor {
+  userId: string;
+}
+
 /**
  * POST /api/users
  * Create or update a user profile
  */
 router.post('/', async (req, res) => {
   try {
-    const userData = req.body;
-
-    // Validate required fields
-    if (!userData.id || !userData.username || !userData.email) {
-      res.status(400).json({ 
-        error: 'Missing required fields',
-        required: ['id', 'username', 'email']
-      });
-      return;
-    }
+    const userData = parse(userProfileSchema, req.body ?? {});
 
     // Create user profile with defaults
-    const user: UserProfile = {
-      id: userData.id,
-      username: userData.username,
-      email: userData.email,
-      languages: userData.languages ?? ['en'],
-      offers: userData.offers ?? [],
-      wants: userData.wants ?? [],
-      trustScore: userData.trustScore ?? 0.5,
-      createdAt: userData.createdAt ? new Date(userData.createdAt) : new Date(),
-      updatedAt: new Date(),
-    };
-
-    const savedUser = await userRepository.save(user);
+    const savedUser = await userRepository.save(userTransferService.toProfile(userData));
     res.status(201).json(savedUser);
   } catch (error) {
-    console.error('Error creating/updating user:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to save user profile'
-    });
+    sendError(res, error, 'Failed to save user profile');
   }
 });
 
+const CONTENT_TYPES: Record<UserTransferFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv',
+};
+
+/**
+ * GET /api/users/export?format=jsonl|csv
+ * Download profiles, optionally filtered like GET /api/users
+ */
+router.get('/export', async (req, res) => {
+  try {
+    const { format = 'jsonl', ...filters } = parse(userExportQuerySchema, req.query);
+
+    const users = userFilterService.apply(await userRepository.getAll(), filters);
+
+    res
+      .type(`${CONTENT_TYPES[format]}; charset=utf-8`)
+      .attachment(`users.${format}`)
+      .send(userTransferService.export(users, format));
+  } catch (error) {
+    sendError(res, error, 'Failed to export users');
+  }
+});
+
+/**
+ * POST /api/users/import?format=jsonl|csv&mode=create|upsert&dryRun=true
+ * Import profiles from a JSONL or CSV body, reporting invalid records by line
+ * The format defaults to csv for a text/csv body and jsonl otherwise
+ */
+router.post(
+  '/import',
+  express.text({ type: ['text/*', 'application/x-ndjson', 'application/jsonl'], limit: '50mb' }),
+  async (req, res) => {
+    try {
+      const query = parse(userImportQuerySchema, req.query);
+      const content = typeof req.body === 'string' ? req.body : '';
+
+      const report = await userTransferService.import(content, {
+        format: query.format ?? (req.is('text/csv') ? 'csv' : 'jsonl'),
+        mode: query.mode ?? 'create',
+        dryRun: query.dryRun ?? false,
+      });
+
+      res.json(report);
+    } catch (error) {
+      sendError(res, error, 'Failed to import users');
+    }
+  }
+);
+
 /**
  * GET /api/users/:id
  * Get user by ID
@@ -59,37 +102,49 @@ router.get('/:id', async (req, res) => {
     const user = await userRepository.getById(id);
 
     if (!user) {
-      res.status(404).json({ 
-        error: 'User not found',
-        message: `User with id ${id} does not exist`
-      });
-      return;
+      throw new NotFoundError('User not found', `User with id ${id} does not exist`);
     }
 
     res.json(user);
   } catch (error) {
-    console.error('Error fetching user:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to fetch user'
-    });
+    sendError(res, error, 'Failed to fetch user');
   }
 });
 
 /**
- * GET /api/users
- * Get all users
+ * GET /api/users?category=&minOfferLevel=&language=&minTrust=&activeWithinDays=&limit=&cursor=
+ * Get users, optionally filtered
+ * Without limit or cursor every matching user is returned as an array;
+ * with either, one page is returned as { users, nextCursor }, ordered by id
  */
 router.get('/', async (req, res) => {
   try {
-    const users = await userRepository.getAll();
-    res.json(users);
-  } catch (error) {
-    console.error('Error fetching users:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to fetch users'
+    const { limit, cursor, ...filters } = parse(userListQuerySchema, req.query);
+
+    const users = userFilterService.apply(await userRepository.getAll(), filters);
+
+    if (limit === undefined && cursor === undefined) {
+      res.json(users);
+      return;
+    }
+
+    const pageSize = limit ?? 50;
+    const after = cursor ? decodeCursor<UserCursor>(cursor, ['userId']) : null;
+
+    const remaining = users
+      .filter((user) => !after || user.id > after.userId)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    const page = remaining.slice(0, pageSize);
+    const last = page[page.length - 1];
+
+    res.json({
+      users: page,
+      nextCursor: remaining.length > pageSize && last
+        ? encodeCursor({ userId: last.id } satisfies UserCursor)
+        : null,
     });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch users');
   }
 });
 
@@ -103,11 +158,7 @@ router.delete('/:id', async (req, res) => {
     const deleted = await userRepository.delete(id);
 
     if (!deleted) {
-      res.status(404).json({ 
-        error: 'User not found',
-        message: `User with id ${id} does not exist`
-      });
-      return;
+      throw new NotFoundError('User not found', `User with id ${id} does not exist`);
     }
 
     res.json({ 
@@ -115,11 +166,7 @@ router.delete('/:id', async (req, res) => {
       userId: id
     });
   } catch (error) {
-    console.error('Error deleting user:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to delete user'
-    });
+    sendError(res, error, 'Failed to delete user');
   }
 });
 
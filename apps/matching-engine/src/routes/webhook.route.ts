@@ -0,0 +1,114 @@
+/**
+ * Webhook API routes
+ * Subscribe to signed notifications about new matches and read the delivery log
+ * Every route acts for the user in the X-User-Id header, which the gateway sets
+ * for the signed-in user; subscriptions are only visible to the user they notify.
+ */
+
+import { Router, type Request, type Router as ExpressRouter } from 'express';
+import { webhookService } from '../services/webhook.service.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { parse } from '../validation/schema.js';
+import { webhookSubscriptionSchema } from '../validation/request.schemas.js';
+import { ApiError, NotFoundError, sendError } from '../validation/errors.js';
+
+const router: ExpressRouter = Router();
+
+/**
+ * Throw unless the caller is the given user
+ */
+function requireCaller(req: Request, userId: string): void {
+  const callerId = req.get('x-user-id');
+  if (!callerId) {
+    throw new ApiError(401, 'Unauthorized', 'The X-User-Id header is required');
+  }
+  if (callerId !== userId) {
+    throw new ApiError(403, 'Forbidden', 'Webhook subscriptions can only be managed by the user they notify');
+  }
+}
+
+async function requireUser(userId: string): Promise<void> {
+  if (!(await userRepository.exists(userId))) {
+    throw new NotFoundError('User not found', `User with id ${userId} does not exist`);
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Subscribe; the response includes the signing secret, which is not shown again
+ */
+router.post('/', async (req, res) => {
+  try {
+    const input = parse(webhookSubscriptionSchema, req.body ?? {});
+    requireCaller(req, input.userId);
+    await requireUser(input.userId);
+
+    res.status(201).json(await webhookService.subscribe(input));
+  } catch (error) {
+    sendError(res, error, 'Failed to create webhook subscription');
+  }
+});
+
+/**
+ * GET /api/webhooks/users/:userId
+ * A user's subscriptions
+ */
+router.get('/users/:userId', async (req, res) => {
+  try {
+    requireCaller(req, req.params.userId);
+    await requireUser(req.params.userId);
+
+    res.json(await webhookService.listForUser(req.params.userId));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch webhook subscriptions');
+  }
+});
+
+/**
+ * GET /api/webhooks/:id
+ * Get a subscription
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const subscription = await webhookService.get(req.params.id);
+    requireCaller(req, subscription.userId);
+
+    res.json(subscription);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch webhook subscription');
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Recent deliveries with every attempt, newest first
+ */
+router.get('/:id/deliveries', async (req, res) => {
+  try {
+    requireCaller(req, (await webhookService.get(req.params.id)).userId);
+
+    res.json(await webhookService.getDeliveries(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch webhook deliveries');
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Unsubscribe
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    requireCaller(req, (await webhookService.get(req.params.id)).userId);
+    await webhookService.unsubscribe(req.params.id);
+
+    res.json({
+      message: 'Webhook subscription deleted successfully',
+      subscriptionId: req.params.id
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete webhook subscription');
+  }
+});
+
+export default router;
@@ -0,0 +1,23 @@
+/**
+ * Availability scorer
+ * Hours per week both users are free, after timezone conversion
+ */
+
+import type { AvailabilityOverlapResult } from '../types/matching.types.js';
+import type { MatchScorer, ScorerResult } from '../types/scorer.types.js';
+import type { UserProfile } from '../types/user.types.js';
+import { availabilityService } from '../services/availability.service.js';
+
+class AvailabilityScorer implements MatchScorer<AvailabilityOverlapResult> {
+  readonly id = 'availability';
+  readonly description = 'Weekly hours both users are available, saturating at 4 hours';
+  readonly fields = ['availability', 'timezone'] as const;
+  readonly defaultWeight = 0; // Opt-in so existing weightings keep their totals
+
+  score(userA: UserProfile, userB: UserProfile): ScorerResult<AvailabilityOverlapResult> {
+    const result = availabilityService.calculateAvailabilityOverlap(userA, userB);
+    return { score: result.score, details: result };
+  }
+}
+
+export const availabilityScorer = new AvailabilityScorer();
@@ -0,0 +1,23 @@
+/**
+ * Language scorer
+ * How well two users can communicate
+ */
+
+import type { LanguageSimilarityResult } from '../types/matching.types.js';
+import type { MatchScorer, ScorerResult } from '../types/scorer.types.js';
+import type { UserProfile } from '../types/user.types.js';
+import { languageService } from '../services/language.service.js';
+
+class LanguageScorer implements MatchScorer<LanguageSimilarityResult> {
+  readonly id = 'language';
+  readonly description = 'Shared languages between both users';
+  readonly fields = ['languages'] as const;
+  readonly defaultWeight = 0.15;
+
+  score(userA: UserProfile, userB: UserProfile): ScorerResult<LanguageSimilarityResult> {
+    const result = languageService.calculateLanguageSimilarity(userA, userB);
+    return { score: result.score, details: result };
+  }
+}
+
+export const languageScorer = new LanguageScorer();
@@ -0,0 +1,84 @@
+/**
+ * Semantic scorer
+ * How well each user's offers cover the other's wants, in both directions
+ */
+
+import type { DirectionalMatch, ReciprocityMode, ReciprocitySettings } from '../types/matching.types.js';
+import type { MatchScorer, ScorerResult, ScoringContext } from '../types/scorer.types.js';
+import type { UserProfile } from '../types/user.types.js';
+import { semanticService } from '../services/semantic.service.js';
+
+export interface SemanticScoreDetails {
+  semanticScoreAtoB: number; // A's offers → B's wants
+  semanticScoreBtoA: number; // B's offers → A's wants
+  matchAtoB: DirectionalMatch;
+  matchBtoA: DirectionalMatch;
+  reciprocity: ReciprocityMode;
+}
+
+class SemanticScorer implements MatchScorer<SemanticScoreDetails> {
+  readonly id = 'semantic';
+  readonly description = 'Semantic similarity of offers to wants, combined over both directions';
+  readonly fields = ['offers', 'wants'] as const;
+  readonly defaultWeight = 0.7;
+
+  score(
+    userA: UserProfile,
+    userB: UserProfile,
+    context: ScoringContext
+  ): ScorerResult<SemanticScoreDetails> {
+    const matchAtoB = semanticService.calculateDirectionalMatch(
+      userA, userB, context.embeddings, context.levelGapPolicy
+    );
+    const matchBtoA = semanticService.calculateDirectionalMatch(
+      userB, userA, context.embeddings, context.levelGapPolicy
+    );
+
+    return {
+      score: this.combine(matchAtoB.score, matchBtoA.score, context),
+      details: {
+        semanticScoreAtoB: matchAtoB.score,
+        semanticScoreBtoA: matchBtoA.score,
+        matchAtoB,
+        matchBtoA,
+        reciprocity: context.reciprocity.mode,
+      },
+    };
+  }
+
+  /**
+   * Combine both directions according to the reciprocity mode
+   */
+  private combine(scoreAtoB: number, scoreBtoA: number, context: ScoringContext): number {
+    if (context.reciprocity.mode === 'balanced') {
+      return this.reciprocalMean(scoreAtoB, scoreBtoA, context.reciprocity);
+    }
+
+    const { aToB, bToA } = context.directionWeights;
+    const total = aToB + bToA;
+    if (total <= 0) {
+      return (scoreAtoB + scoreBtoA) / 2;
+    }
+
+    return (aToB * scoreAtoB + bToA * scoreBtoA) / total;
+  }
+
+  /**
+   * Mean of both directions; zero in either direction gives zero
+   */
+  private reciprocalMean(
+    scoreAtoB: number,
+    scoreBtoA: number,
+    reciprocity: ReciprocitySettings
+  ): number {
+    if (scoreAtoB <= 0 || scoreBtoA <= 0) {
+      return 0;
+    }
+
+    return reciprocity.mean === 'harmonic'
+      ? (2 * scoreAtoB * scoreBtoA) / (scoreAtoB + scoreBtoA)
+      : Math.sqrt(scoreAtoB * scoreBtoA);
+  }
+}
+
+export const semanticScorer = new SemanticScorer();
@@ -0,0 +1,23 @@
+/**
+ * Trust scorer
+ * Combined reliability of both users
+ */
+
+import type { TrustScoreResult } from '../types/matching.types.js';
+import type { MatchScorer, ScorerResult } from '../types/scorer.types.js';
+import type { UserProfile } from '../types/user.types.js';
+import { trustService } from '../services/trust.service.js';
+
+class TrustScorer implements MatchScorer<TrustScoreResult> {
+  readonly id = 'trust';
+  readonly description = 'Combined trust score of both users';
+  readonly fields = ['trustScore'] as const; // Reputation, which the profile's trustScore mirrors
+  readonly defaultWeight = 0.15;
+
+  score(userA: UserProfile, userB: UserProfile): ScorerResult<TrustScoreResult> {
+    const result = trustService.calculateTrustScore(userA, userB);
+    return { score: result.score, details: result };
+  }
+}
+
+export const trustScorer = new TrustScorer();
@@ -0,0 +1,212 @@
+/**
+ * Availability service
+ * Calculates how many hours per week two users are both free,
+ * after converting each user's local availability windows to UTC.
+ * Each window is converted at its own offset in the week of the reference date,
+ * so windows either side of a DST change shift by different amounts.
+ */
+
+import type { AvailabilityOverlapResult } from '../types/matching.types.js';
+import type { UserProfile } from '../types/user.types.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+type Interval = [start: number, end: number]; // Minutes since Sunday 00:00 UTC
+
+class AvailabilityService {
+  // Overlap at which the availability score saturates
+  private targetOverlapHours = 4;
+  private formatters: Map<string, Intl.DateTimeFormat> = new Map(); // timezone → formatter
+
+  /**
+   * Calculate weekly overlap between two users
+   * Users without availability windows are treated as unknown rather than never free
+   */
+  calculateAvailabilityOverlap(
+    userA: UserProfile,
+    userB: UserProfile,
+    referenceDate: Date = new Date()
+  ): AvailabilityOverlapResult {
+    if (!userA.availability?.length || !userB.availability?.length) {
+      return { score: 0.5, overlapHours: null, known: false };
+    }
+
+    const intervalsA = this.toUtcIntervals(userA, referenceDate);
+    const intervalsB = this.toUtcIntervals(userB, referenceDate);
+    const overlapHours = this.intersectMinutes(intervalsA, intervalsB) / 60;
+
+    return {
+      score: Math.min(1, overlapHours / this.targetOverlapHours),
+      overlapHours,
+      known: true,
+    };
+  }
+
+  /**
+   * Check whether a pair reaches the minimum weekly overlap
+   * Pairs with unknown availability pass
+   */
+  meetsMinimumOverlap(userA: UserProfile, userB: UserProfile, minHours: number): boolean {
+    const result = this.calculateAvailabilityOverlap(userA, userB);
+    return !result.known || (result.overlapHours ?? 0) >= minHours;
+  }
+
+  /**
+   * Check that a timezone is a valid IANA name
+   */
+  isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Convert local windows to merged UTC minute-of-week intervals
+   */
+  private toUtcIntervals(user: UserProfile, referenceDate: Date): Interval[] {
+    const timezone = user.timezone ?? 'UTC';
+    const referenceOffset = this.getOffsetMinutes(timezone, referenceDate);
+    const weekStart = this.startOfWeek(referenceDate);
+    const intervals: Interval[] = [];
+
+    for (const window of user.availability ?? []) {
+      const start = this.parseTime(window.start);
+      const end = this.parseTime(window.end);
+      if (start === null || end === null || end <= start) {
+        continue;
+      }
+
+      // Local time = UTC + offset, so UTC = local - offset, at the offset in force when the window starts
+      const localStart = window.day * MINUTES_PER_DAY + start;
+      const offset = this.getOffsetMinutes(timezone, new Date(weekStart + (localStart - referenceOffset) * 60000));
+      const utcStart = this.wrap(localStart - offset);
+      const length = end - start;
+
+      if (utcStart + length <= MINUTES_PER_WEEK) {
+        intervals.push([utcStart, utcStart + length]);
+      } else {
+        // Split windows that wrap past the end of the week
+        intervals.push([utcStart, MINUTES_PER_WEEK]);
+        intervals.push([0, utcStart + length - MINUTES_PER_WEEK]);
+      }
+    }
+
+    return this.merge(intervals);
+  }
+
+  /**
+   * Offset of a timezone from UTC in minutes at a given instant
+   */
+  private getOffsetMinutes(timezone: string, referenceDate: Date): number {
+    try {
+      const parts = this.getFormatter(timezone).formatToParts(referenceDate);
+
+      const get = (type: string): number =>
+        Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+      const localAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+      const instant = Math.floor(referenceDate.getTime() / 60000) * 60000;
+
+      return Math.round((localAsUtc - instant) / 60000);
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Formatter for reading local wall time in a timezone, created once per timezone
+   */
+  private getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      this.formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+
+  /**
+   * Sunday 00:00 UTC of the week containing a date, in epoch milliseconds
+   */
+  private startOfWeek(date: Date): number {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay());
+  }
+
+  private parseTime(value: unknown): number | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const match = /^(\d{2}):(\d{2})$/.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours === 24 && minutes === 0) {
+      return MINUTES_PER_DAY;
+    }
+    if (hours > 23 || minutes > 59) {
+      return null;
+    }
+
+    return hours * 60 + minutes;
+  }
+
+  private wrap(minutes: number): number {
+    return ((minutes % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+  }
+
+  private merge(intervals: Interval[]): Interval[] {
+    const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+    const merged: Interval[] = [];
+
+    for (const interval of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && interval[0] <= last[1]) {
+        last[1] = Math.max(last[1], interval[1]);
+      } else {
+        merged.push([interval[0], interval[1]]);
+      }
+    }
+
+    return merged;
+  }
+
+  private intersectMinutes(a: Interval[], b: Interval[]): number {
+    let total = 0;
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+      const [startA, endA] = a[i]!;
+      const [startB, endB] = b[j]!;
+
+      total += Math.max(0, Math.min(endA, endB) - Math.max(startA, startB));
+
+      if (endA < endB) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return total;
+  }
+}
+
+// Singleton instance
+export const availabilityService = new AvailabilityService();
@@ -0,0 +1,177 @@
+/**
+ * Embedding cache
+ * Content-addressed cache for skill embeddings, keyed by model name and normalized text.
+ * Combines an in-memory LRU layer with an on-disk layer that survives restarts.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile, rename } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface EmbeddingCacheStats {
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  writes: number;
+  memoryEntries: number;
+  memoryCapacity: number;
+  diskEnabled: boolean;
+}
+
+export interface EmbeddingCacheOptions {
+  maxMemoryEntries?: number;
+  directory?: string | null; // null disables the disk layer
+}
+
+export class EmbeddingCache {
+  private memory: Map<string, number[]> = new Map();
+  private maxMemoryEntries: number;
+  private directory: string | null;
+  private stats = { memoryHits: 0, diskHits: 0, misses: 0, writes: 0 };
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.maxMemoryEntries = Math.max(1, options.maxMemoryEntries ?? 5000);
+    this.directory = options.directory === undefined ? '.cache/embeddings' : options.directory;
+  }
+
+  /**
+   * Normalize text so trivially different inputs share a cache entry
+   */
+  normalizeText(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Build the content address for a model/text pair
+   */
+  keyFor(modelName: string, text: string): string {
+    return createHash('sha256')
+      .update(modelName)
+      .update('\0')
+      .update(this.normalizeText(text))
+      .digest('hex');
+  }
+
+  /**
+   * Look up an embedding, checking memory first and then disk
+   */
+  async get(modelName: string, text: string): Promise<number[] | null> {
+    const key = this.keyFor(modelName, text);
+
+    const cached = this.memory.get(key);
+    if (cached) {
+      // Refresh recency
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      this.stats.memoryHits++;
+      return cached;
+    }
+
+    const fromDisk = await this.readFromDisk(key);
+    if (fromDisk) {
+      this.remember(key, fromDisk);
+      this.stats.diskHits++;
+      return fromDisk;
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Store an embedding in both layers
+   */
+  async set(modelName: string, text: string, embedding: number[]): Promise<void> {
+    const key = this.keyFor(modelName, text);
+    this.remember(key, embedding);
+    this.stats.writes++;
+    await this.writeToDisk(key, embedding);
+  }
+
+  /**
+   * Get cache hit/miss counters
+   */
+  getStats(): EmbeddingCacheStats {
+    return {
+      ...this.stats,
+      memoryEntries: this.memory.size,
+      memoryCapacity: this.maxMemoryEntries,
+      diskEnabled: this.directory !== null,
+    };
+  }
+
+  /**
+   * Drop the in-memory layer and reset counters (disk entries are kept)
+   */
+  clearMemory(): void {
+    this.memory.clear();
+    this.stats = { memoryHits: 0, diskHits: 0, misses: 0, writes: 0 };
+  }
+
+  private remember(key: string, embedding: number[]): void {
+    this.memory.delete(key);
+    this.memory.set(key, embedding);
+
+    // Evict least recently used entries
+    while (this.memory.size > this.maxMemoryEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.memory.delete(oldest);
+    }
+  }
+
+  private filePath(key: string): string | null {
+    if (!this.directory) {
+      return null;
+    }
+    return path.join(this.directory, key.slice(0, 2), `${key}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<number[] | null> {
+    const file = this.filePath(key);
+    if (!file) {
+      return null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(await readFile(file, 'utf8'));
+      return this.isEmbedding(parsed) ? parsed : null;
+    } catch {
+      // Missing, truncated or unreadable entries are treated as misses
+      return null;
+    }
+  }
+
+  private isEmbedding(value: unknown): value is number[] {
+    return Array.isArray(value) && value.length > 0 &&
+      value.every((component) => typeof component === 'number' && Number.isFinite(component));
+  }
+
+  private async writeToDisk(key: string, embedding: number[]): Promise<void> {
+    const file = this.filePath(key);
+    if (!file) {
+      return;
+    }
+
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so concurrent readers never see a partial file
+      const tmp = `${file}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(embedding));
+      await rename(tmp, file);
+    } catch (error) {
+      console.error('Failed to persist embedding to disk cache:', error);
+    }
+  }
+}
+
+const cacheDirEnv = process.env.EMBEDDING_CACHE_DIR;
+const cacheSizeEnv = Number(process.env.EMBEDDING_CACHE_SIZE);
+
+// Singleton instance
+export const embeddingCache = new EmbeddingCache({
+  maxMemoryEntries: Number.isFinite(cacheSizeEnv) && cacheSizeEnv > 0 ? cacheSizeEnv : 5000,
+  directory: cacheDirEnv === 'off' ? null : cacheDirEnv ?? '.cache/embeddings',
+});
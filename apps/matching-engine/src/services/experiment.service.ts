@@ -0,0 +1,211 @@
+/**
+ * Experiment service
+ * Assigns users to MatchingConfig variants and reports per-variant outcomes
+ *
+ * Assignment hashes the experiment id and user id, so a user keeps their
+ * variant for the whole experiment without any stored state. Only one
+ * experiment runs at a time, so variants never overlap.
+ */
+
+import { createHash } from 'node:crypto';
+import type {
+  Experiment,
+  ExperimentAssignment,
+  ExperimentResults,
+  ExperimentVariant,
+  VariantResults,
+} from '../types/experiment.types.js';
+import type { MatchImpression, MatchOutcomeEvent } from '../types/outcome.types.js';
+import type { MatchingConfig } from '../types/matching.types.js';
+import { experimentRepository } from '../repositories/experiment.repository.js';
+import { outcomeRepository } from '../repositories/outcome.repository.js';
+import { ApiError, NotFoundError } from '../validation/errors.js';
+
+export interface ExperimentInput {
+  id: string;
+  description?: string;
+  variants: ExperimentVariant[];
+}
+
+interface VariantTally {
+  users: Set<string>;
+  impressions: number;
+  firstShown: Map<string, string>; // Pair key → first shownAt
+}
+
+class ExperimentService {
+  /**
+   * Define and start an experiment
+   */
+  async create(input: ExperimentInput): Promise<Experiment> {
+    if (await experimentRepository.getById(input.id)) {
+      throw new ApiError(409, 'Experiment exists', `Experiment ${input.id} already exists`);
+    }
+    await this.assertNoneRunning();
+
+    const now = new Date();
+    return experimentRepository.save({
+      id: input.id,
+      ...(input.description !== undefined && { description: input.description }),
+      status: 'running',
+      variants: input.variants,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Stop assigning users to an experiment; its results stay available
+   */
+  async stop(experimentId: string): Promise<Experiment> {
+    const experiment = await this.get(experimentId);
+    return experimentRepository.save({ ...experiment, status: 'stopped', updatedAt: new Date() });
+  }
+
+  /**
+   * Get an experiment, or throw a 404
+   */
+  async get(experimentId: string): Promise<Experiment> {
+    const experiment = await experimentRepository.getById(experimentId);
+    if (!experiment) {
+      throw new NotFoundError('Experiment not found', `Experiment ${experimentId} does not exist`);
+    }
+    return experiment;
+  }
+
+  async list(): Promise<Experiment[]> {
+    return experimentRepository.getAll();
+  }
+
+  /**
+   * Variant of the running experiment for a user, with its config
+   */
+  async assign(userId: string): Promise<{ assignment: ExperimentAssignment; config: Partial<MatchingConfig> } | null> {
+    const experiment = (await experimentRepository.getAll()).find((entry) => entry.status === 'running');
+    if (!experiment) {
+      return null;
+    }
+
+    const variant = this.pickVariant(experiment, userId);
+    return {
+      assignment: { experimentId: experiment.id, variant: variant.name },
+      config: variant.config,
+    };
+  }
+
+  /**
+   * Per-variant acceptance rates from the outcome log
+   * A shown pair counts as accepted or declined by the latest outcome
+   * between the two users after it was first shown under the variant
+   */
+  async getResults(experimentId: string): Promise<ExperimentResults> {
+    const experiment = await this.get(experimentId);
+
+    const tallies = new Map<string, VariantTally>(
+      experiment.variants.map((variant) => [
+        variant.name,
+        { users: new Set(), impressions: 0, firstShown: new Map() },
+      ])
+    );
+    const outcomes = new Map<string, MatchOutcomeEvent>();
+
+    for (const entry of await outcomeRepository.readAll()) {
+      if (entry.type === 'outcome') {
+        const key = this.pairKey(entry.userIdA, entry.userIdB);
+        const existing = outcomes.get(key);
+        if (!existing || existing.recordedAt <= entry.recordedAt) {
+          outcomes.set(key, entry);
+        }
+        continue;
+      }
+
+      const tally = this.tallyFor(entry, experimentId, tallies);
+      if (!tally) {
+        continue;
+      }
+      tally.users.add(entry.userId);
+      tally.impressions++;
+      const key = this.pairKey(entry.userId, entry.candidateId);
+      const firstShown = tally.firstShown.get(key);
+      if (!firstShown || entry.shownAt < firstShown) {
+        tally.firstShown.set(key, entry.shownAt);
+      }
+    }
+
+    const variants: VariantResults[] = experiment.variants.map((variant) => {
+      const tally = tallies.get(variant.name)!;
+
+      let acceptedPairs = 0;
+      let declinedPairs = 0;
+      for (const [key, shownAt] of tally.firstShown) {
+        const outcome = outcomes.get(key);
+        if (!outcome || outcome.recordedAt < shownAt) {
+          continue;
+        }
+        if (outcome.outcome === 'declined') {
+          declinedPairs++;
+        } else {
+          acceptedPairs++;
+        }
+      }
+
+      const shownPairs = tally.firstShown.size;
+      const responded = acceptedPairs + declinedPairs;
+      return {
+        variant: variant.name,
+        users: tally.users.size,
+        impressions: tally.impressions,
+        shownPairs,
+        acceptedPairs,
+        declinedPairs,
+        acceptanceRate: shownPairs > 0 ? acceptedPairs / shownPairs : null,
+        responseAcceptanceRate: responded > 0 ? acceptedPairs / responded : null,
+      };
+    });
+
+    return { experimentId, status: experiment.status, variants, calculatedAt: new Date() };
+  }
+
+  /**
+   * Deterministic weighted choice: hash(experiment, user) → point in [0, 1)
+   */
+  private pickVariant(experiment: Experiment, userId: string): ExperimentVariant {
+    const hash = createHash('sha256').update(`${experiment.id}:${userId}`).digest();
+    const point = hash.readUInt32BE(0) / 2 ** 32;
+
+    const total = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    let cumulative = 0;
+    for (const variant of experiment.variants) {
+      cumulative += variant.weight / total;
+      if (point < cumulative) {
+        return variant;
+      }
+    }
+    return experiment.variants[experiment.variants.length - 1]!;
+  }
+
+  private tallyFor(
+    impression: MatchImpression,
+    experimentId: string,
+    tallies: Map<string, VariantTally>
+  ): VariantTally | null {
+    if (impression.experiment?.experimentId !== experimentId) {
+      return null;
+    }
+    return tallies.get(impression.experiment.variant) ?? null;
+  }
+
+  private async assertNoneRunning(): Promise<void> {
+    const running = (await experimentRepository.getAll()).find((entry) => entry.status === 'running');
+    if (running) {
+      throw new ApiError(409, 'Experiment running', `Stop experiment ${running.id} before starting another`);
+    }
+  }
+
+  private pairKey(userIdA: string, userIdB: string): string {
+    return userIdA < userIdB ? `${userIdA}\u0000${userIdB}` : `${userIdB}\u0000${userIdA}`;
+  }
+}
+
+// Singleton instance
+export const experimentService = new ExperimentService();
@@ -0,0 +1,130 @@
+/**
+ * Match explanation service
+ * Turns the intermediate results of a match into an explanation users can read:
+ * which skills matched, shared languages, trust factors and a short summary
+ */
+
+import type { DirectionalMatch, LanguageSimilarityResult, LevelFit, LevelGapPolicy, SharedLanguage, TrustScoreResult } from '../types/matching.types.js';
+import type { UserProfile, MatchExplanation, MatchedSkillPair } from '../types/user.types.js';
+
+class ExplanationService {
+  /**
+   * Build the explanation for a scored pair
+   */
+  explain(
+    userA: UserProfile,
+    userB: UserProfile,
+    matchAtoB: DirectionalMatch,
+    matchBtoA: DirectionalMatch,
+    languageResult: LanguageSimilarityResult,
+    trustResult: TrustScoreResult,
+    levelGapPolicy: LevelGapPolicy
+  ): MatchExplanation {
+    const matchedPairs: MatchedSkillPair[] = [
+      ...this.toMatchedPairs(matchAtoB, 'AtoB'),
+      ...this.toMatchedPairs(matchBtoA, 'BtoA'),
+    ].sort((a, b) => b.similarity * b.levelWeight - a.similarity * a.levelWeight);
+
+    return {
+      matchedPairs,
+      levelGapPolicy,
+      commonLanguages: languageResult.commonLanguages,
+      trustFactors: trustResult.factors,
+      summary: this.summarize(userA, userB, matchedPairs, languageResult, trustResult),
+    };
+  }
+
+  private toMatchedPairs(
+    match: DirectionalMatch,
+    direction: MatchedSkillPair['direction']
+  ): MatchedSkillPair[] {
+    return match.pairs.map((pair) => ({
+      offerSkill: pair.offer,
+      wantSkill: pair.want,
+      similarity: pair.similarity,
+      levelWeight: pair.levelWeight,
+      levelFit: pair.levelFit,
+      direction,
+    }));
+  }
+
+  /**
+   * Generate a one-paragraph human-readable summary
+   */
+  private summarize(
+    userA: UserProfile,
+    userB: UserProfile,
+    matchedPairs: MatchedSkillPair[],
+    languageResult: LanguageSimilarityResult,
+    trustResult: TrustScoreResult
+  ): string {
+    const sentences: string[] = [];
+
+    const bestAtoB = matchedPairs.find((pair) => pair.direction === 'AtoB');
+    const bestBtoA = matchedPairs.find((pair) => pair.direction === 'BtoA');
+
+    if (bestAtoB) {
+      sentences.push(this.describePair(userA, userB, bestAtoB));
+    }
+    if (bestBtoA) {
+      sentences.push(this.describePair(userB, userA, bestBtoA));
+    }
+    if (!bestAtoB && !bestBtoA) {
+      sentences.push(`${userA.username} and ${userB.username} have no overlapping skills yet.`);
+    }
+
+    const languages = languageResult.commonLanguages;
+    const best = languageResult.sharedLanguages[0];
+    if (languages.length === 0 || !best) {
+      sentences.push('They do not share a common language.');
+    } else if (languages.length === 1) {
+      sentences.push(`They can communicate in ${best.language} (${this.describeProficiency(best)}).`);
+    } else {
+      sentences.push(
+        `They share ${languages.length} languages (${languages.join(', ')}), ` +
+          `best in ${best.language} (${this.describeProficiency(best)}).`
+      );
+    }
+
+    sentences.push(
+      `Combined trust is ${this.percent(trustResult.score)} ` +
+        `(${userA.username}: ${this.percent(trustResult.factors.userATrust)}, ` +
+        `${userB.username}: ${this.percent(trustResult.factors.userBTrust)}).`
+    );
+
+    return sentences.join(' ');
+  }
+
+  private describePair(teacher: UserProfile, learner: UserProfile, pair: MatchedSkillPair): string {
+    const skill = pair.offerSkill.name === pair.wantSkill.name
+      ? pair.offerSkill.name
+      : `${pair.offerSkill.name} (wanted: ${pair.wantSkill.name})`;
+
+    return `${teacher.username} can teach ${skill} to ${learner.username} ` +
+      `at ${pair.offerSkill.level} level (${this.describeLevelFit(pair.levelFit)}), ` +
+      `${this.percent(pair.similarity)} similar.`;
+  }
+
+  private describeLevelFit(fit: LevelFit): string {
+    const descriptions: Record<LevelFit, string> = {
+      'above-target': 'above the level they are aiming for',
+      'at-target': 'the level they are aiming for',
+      'below-target': 'between their current and target level',
+      'at-current': 'the same as their current level',
+      'below-current': 'below their current level',
+    };
+
+    return descriptions[fit];
+  }
+
+  private describeProficiency(shared: SharedLanguage): string {
+    return shared.mutualProficiency === 'native' ? 'both native' : `both at least ${shared.mutualProficiency}`;
+  }
+
+  private percent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+  }
+}
+
+// Singleton instance
+export const explanationService = new ExplanationService();
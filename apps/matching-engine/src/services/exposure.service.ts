@@ -0,0 +1,321 @@
+/**
+ * Exposure service
+ * Tracks how often each user appears in other users' match results, so ranking
+ * can give under-exposed and new accounts a chance to be seen.
+ *
+ * Two series are kept: shown, the matches actually returned, and baseline, the
+ * matches the unadjusted scores would have returned. They differ only for
+ * searches with a fairness adjustment, so comparing the two distributions shows
+ * its effect. Like trust, every appearance loses half its weight each half-life;
+ * the per-user counts are kept at a reference time and decayed on read.
+ *
+ * The outcome log is never rotated, so replaying it in full on every start would
+ * grow without bound. The counts are snapshotted at most once a minute, with the
+ * log's length at that moment, and startup replays only what was appended since.
+ * Counts that have decayed to nothing are left out of the snapshot.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { MatchResult, UserProfile, FairnessAdjustment } from '../types/user.types.js';
+import type { FairnessConfig } from '../types/matching.types.js';
+import type {
+  ExposureDistribution,
+  ExposureMetrics,
+  ExposureSeries,
+  UserExposure,
+} from '../types/exposure.types.js';
+import { outcomeRepository, type OutcomeRepository } from '../repositories/outcome.repository.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_NEW_USER_DAYS = 14;
+const SNAPSHOT_DELAY_MS = 60 * 1000;
+const NEGLIGIBLE_EXPOSURE = 1e-3; // Dropped from snapshots
+
+interface ExposureSnapshot {
+  takenAt: string;
+  trackingSince: string;
+  logOffset: number; // Bytes of the outcome log already counted
+  counts: Record<ExposureSeries, Array<[userId: string, value: number, referenceTime: number]>>;
+}
+
+interface DecayedCount {
+  value: number; // Decayed appearances, at referenceTime
+  referenceTime: number;
+}
+
+export class ExposureService {
+  private counts: Record<ExposureSeries, Map<string, DecayedCount>> = {
+    shown: new Map(),
+    baseline: new Map(),
+  };
+  private trackingSince = new Date();
+  private logOffset = 0;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly halfLifeDays: number,
+    private snapshotPath: string | null,
+    private log: OutcomeRepository = outcomeRepository
+  ) {}
+
+  /**
+   * Load the last snapshot and replay the impressions logged after it
+   * Logged history counts towards both series
+   */
+  async initialize(): Promise<void> {
+    this.counts.shown.clear();
+    this.counts.baseline.clear();
+    this.trackingSince = new Date();
+    this.logOffset = 0;
+    await this.load();
+
+    const { entries, start, end } = await this.log.readFrom(this.logOffset);
+    if (start !== this.logOffset) {
+      // The log was replaced since the snapshot, so the snapshot can't be trusted either
+      this.counts.shown.clear();
+      this.counts.baseline.clear();
+      this.trackingSince = new Date();
+    }
+
+    let replayed = 0;
+    for (const entry of entries) {
+      if (entry.type !== 'impression') {
+        continue;
+      }
+      const shownAt = Date.parse(entry.shownAt);
+      if (Number.isNaN(shownAt)) {
+        continue;
+      }
+      this.add('shown', entry.candidateId, shownAt);
+      this.add('baseline', entry.candidateId, shownAt);
+      if (shownAt < this.trackingSince.getTime()) {
+        this.trackingSince = new Date(shownAt);
+      }
+      replayed++;
+    }
+    this.logOffset = end;
+
+    console.log(`Exposure tracking replayed ${replayed} impressions`);
+    if (replayed > 0) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Count one appearance for every candidate on a results page
+   * baseline is the page without fairness adjustments, when they changed it
+   */
+  record(shown: MatchResult[], baseline: MatchResult[] = shown, at: number = Date.now()): void {
+    for (const match of shown) {
+      this.add('shown', match.userB.id, at);
+    }
+    for (const match of baseline) {
+      this.add('baseline', match.userB.id, at);
+    }
+    this.scheduleSnapshot();
+  }
+
+  getExposure(userId: string, series: ExposureSeries = 'shown', now: number = Date.now()): number {
+    const count = this.counts[series].get(userId);
+    return count ? count.value * this.decay(now - count.referenceTime) : 0;
+  }
+
+  getUserExposure(userId: string): UserExposure {
+    const now = Date.now();
+    return {
+      userId,
+      shown: this.getExposure(userId, 'shown', now),
+      baseline: this.getExposure(userId, 'baseline', now),
+      halfLifeDays: this.halfLifeDays,
+    };
+  }
+
+  /**
+   * Mean shown exposure over a set of users, the default fairness target
+   */
+  getMeanExposure(userIds: string[], now: number = Date.now()): number {
+    if (userIds.length === 0) {
+      return 0;
+    }
+    return userIds.reduce((sum, userId) => sum + this.getExposure(userId, 'shown', now), 0) / userIds.length;
+  }
+
+  /**
+   * Exploration bonus for a candidate, scaled by how far their exposure falls short of the target
+   */
+  getFairnessAdjustment(
+    candidate: UserProfile,
+    baseScore: number,
+    config: FairnessConfig,
+    targetExposure: number,
+    now: number = Date.now()
+  ): FairnessAdjustment {
+    const exposure = this.getExposure(candidate.id, 'shown', now);
+    const newUserDays = config.newUserDays ?? DEFAULT_NEW_USER_DAYS;
+    const newAccount = now - new Date(candidate.createdAt).getTime() < newUserDays * DAY_MS;
+
+    // With no exposure to compare against, everyone counts as under-exposed
+    const shortfall = targetExposure > 0 ? Math.max(0, 1 - exposure / targetExposure) : 1;
+    const bonus = config.explorationBonus * (newAccount ? 1 : shortfall);
+
+    return {
+      baseScore,
+      bonus: Math.min(bonus, 1 - baseScore),
+      exposure,
+      newAccount,
+    };
+  }
+
+  /**
+   * Write a snapshot now, rather than on the next timer (for tests and shutdown)
+   */
+  async flush(): Promise<void> {
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    await this.persist();
+  }
+
+  /**
+   * Exposure distributions over every user and over new accounts, before and after fairness
+   */
+  getMetrics(users: UserProfile[], newUserDays: number = DEFAULT_NEW_USER_DAYS): ExposureMetrics {
+    const now = Date.now();
+    const newUsers = users.filter((user) => now - new Date(user.createdAt).getTime() < newUserDays * DAY_MS);
+
+    const distributions = (group: UserProfile[]): Record<ExposureSeries, ExposureDistribution> => ({
+      shown: this.distribution(group.map((user) => this.getExposure(user.id, 'shown', now))),
+      baseline: this.distribution(group.map((user) => this.getExposure(user.id, 'baseline', now))),
+    });
+
+    return {
+      halfLifeDays: this.halfLifeDays,
+      trackingSince: this.trackingSince,
+      all: distributions(users),
+      newUsers: {
+        newUserDays,
+        users: newUsers.length,
+        ...distributions(newUsers),
+      },
+    };
+  }
+
+  private add(series: ExposureSeries, userId: string, at: number): void {
+    const count = this.counts[series].get(userId);
+    if (!count) {
+      this.counts[series].set(userId, { value: 1, referenceTime: at });
+    } else if (at >= count.referenceTime) {
+      count.value = count.value * this.decay(at - count.referenceTime) + 1;
+      count.referenceTime = at;
+    } else {
+      // Replayed out of order: decay the older appearance instead
+      count.value += this.decay(count.referenceTime - at);
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (!this.snapshotPath) {
+      return;
+    }
+
+    let snapshot: ExposureSnapshot;
+    try {
+      snapshot = JSON.parse(await readFile(this.snapshotPath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load exposure snapshot, replaying the outcome log:', error);
+      }
+      return;
+    }
+
+    for (const series of ['shown', 'baseline'] as const) {
+      for (const [userId, value, referenceTime] of snapshot.counts[series]) {
+        this.counts[series].set(userId, { value, referenceTime });
+      }
+    }
+    this.trackingSince = new Date(snapshot.trackingSince);
+    this.logOffset = snapshot.logOffset;
+  }
+
+  private scheduleSnapshot(): void {
+    if (!this.snapshotPath || this.snapshotTimer) {
+      return;
+    }
+
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      this.persist().catch((error) => console.error('Failed to snapshot exposure:', error));
+    }, SNAPSHOT_DELAY_MS);
+    this.snapshotTimer.unref();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.snapshotPath) {
+      return;
+    }
+
+    // Impressions are logged before they are recorded, so counts taken after reading the length include the whole log
+    const logOffset = await this.log.getSize();
+    const now = Date.now();
+    const counts = (series: ExposureSeries): ExposureSnapshot['counts'][ExposureSeries] =>
+      Array.from(this.counts[series])
+        .filter(([userId]) => this.getExposure(userId, series, now) >= NEGLIGIBLE_EXPOSURE)
+        .map(([userId, count]) => [userId, count.value, count.referenceTime]);
+
+    const snapshot: ExposureSnapshot = {
+      takenAt: new Date(now).toISOString(),
+      trackingSince: this.trackingSince.toISOString(),
+      logOffset,
+      counts: { shown: counts('shown'), baseline: counts('baseline') },
+    };
+
+    await mkdir(path.dirname(this.snapshotPath), { recursive: true });
+    const tmp = `${this.snapshotPath}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(snapshot));
+    await rename(tmp, this.snapshotPath);
+    this.logOffset = logOffset;
+  }
+
+  private decay(elapsedMs: number): number {
+    return Math.pow(0.5, elapsedMs / (this.halfLifeDays * DAY_MS));
+  }
+
+  private distribution(values: number[]): ExposureDistribution {
+    const sorted = [...values].sort((a, b) => a - b);
+    const n = sorted.length;
+    const total = sorted.reduce((sum, value) => sum + value, 0);
+    const percentile = (p: number): number => (n === 0 ? 0 : sorted[Math.min(n - 1, Math.floor(p * n))]!);
+
+    // Gini = 2 * Σ i * x_i / (n * Σ x) - (n + 1) / n, over ascending values with 1-based i
+    const gini = total > 0
+      ? (2 * sorted.reduce((sum, value, i) => sum + (i + 1) * value, 0)) / (n * total) - (n + 1) / n
+      : 0;
+    const topDecile = sorted.slice(n - Math.ceil(n / 10)).reduce((sum, value) => sum + value, 0);
+
+    return {
+      users: n,
+      total,
+      mean: n > 0 ? total / n : 0,
+      gini,
+      topDecileShare: total > 0 ? topDecile / total : 0,
+      unexposedShare: n > 0 ? sorted.filter((value) => value < 0.5).length / n : 0,
+      percentiles: {
+        p50: percentile(0.5),
+        p90: percentile(0.9),
+        p99: percentile(0.99),
+        max: n > 0 ? sorted[n - 1]! : 0,
+      },
+    };
+  }
+}
+
+const snapshotPathEnv = process.env.EXPOSURE_SNAPSHOT_PATH;
+
+// Singleton instance
+export const exposureService = new ExposureService(
+  Number(process.env.EXPOSURE_HALF_LIFE_DAYS) || 7,
+  snapshotPathEnv === 'off' ? null : snapshotPathEnv ?? '.data/exposure-snapshot.json'
+);
@@ -1,69 +1,113 @@
 /**
  * Language similarity service
  * Calculates how well two users can communicate based on shared languages
+ *
+ * Languages are BCP-47 tags with a CEFR proficiency. Region and script variants
+ * ("en-US", "en-GB") count as the same language, and plain strings from older
+ * profiles ("en", "English") are read as fluent (C1).
  */
 
-import type { LanguageSimilarityResult } from '../types/matching.types.js';
-import type { UserProfile } from '../types/user.types.js';
+import type { LanguageSimilarityResult, SharedLanguage } from '../types/matching.types.js';
+import type { UserProfile, LanguageProficiency, LanguageSkill } from '../types/user.types.js';
+
+export const LANGUAGE_PROFICIENCIES: LanguageProficiency[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2', 'native'];
+
+// How usable a shared language is for teaching at each mutual proficiency
+const PROFICIENCY_SCORES: Record<LanguageProficiency, number> = {
+  A1: 0.2,
+  A2: 0.35,
+  B1: 0.55,
+  B2: 0.7,
+  C1: 0.85,
+  C2: 0.95,
+  native: 1.0,
+};
+
+// Proficiency assumed for legacy string entries
+const LEGACY_PROFICIENCY: LanguageProficiency = 'C1';
+
+// Language names (English and endonyms) accepted in place of a tag
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  español: 'es',
+  espanol: 'es',
+  french: 'fr',
+  français: 'fr',
+  francais: 'fr',
+  german: 'de',
+  deutsch: 'de',
+  italian: 'it',
+  italiano: 'it',
+  portuguese: 'pt',
+  português: 'pt',
+  portugues: 'pt',
+  dutch: 'nl',
+  nederlands: 'nl',
+  russian: 'ru',
+  chinese: 'zh',
+  mandarin: 'zh',
+  cantonese: 'yue',
+  japanese: 'ja',
+  korean: 'ko',
+  hindi: 'hi',
+  bengali: 'bn',
+  urdu: 'ur',
+  arabic: 'ar',
+  turkish: 'tr',
+  polish: 'pl',
+  swedish: 'sv',
+  greek: 'el',
+  hebrew: 'he',
+  vietnamese: 'vi',
+  indonesian: 'id',
+  thai: 'th',
+  ukrainian: 'uk',
+};
+
+interface NormalizedLanguage {
+  language: string; // Primary language subtag
+  proficiency: LanguageProficiency;
+}
 
 class LanguageService {
   /**
    * Calculate language similarity between two users
-   * Returns a score from 0-1 based on shared languages
+   * Scores the best proficiency both users share in one language
    */
   calculateLanguageSimilarity(
     userA: UserProfile,
     userB: UserProfile
   ): LanguageSimilarityResult {
-    const languagesA = new Set(
-      userA.languages.map((lang) => lang.toLowerCase().trim())
-    );
-    const languagesB = new Set(
-      userB.languages.map((lang) => lang.toLowerCase().trim())
-    );
-
-    // Find common languages
-    const commonLanguages = Array.from(languagesA).filter((lang) =>
-      languagesB.has(lang)
-    );
-
-    // Calculate similarity score
-    // If they share at least one language, give a base score
-    // More common languages = higher score
-    let score = 0;
+    const languagesA = this.normalizeLanguages(userA.languages);
+    const languagesB = this.normalizeLanguages(userB.languages);
 
-    if (commonLanguages.length > 0) {
-      // Base score for having at least one common language
-      score = 0.5;
+    const sharedLanguages: SharedLanguage[] = [];
+    for (const [language, proficiencyA] of languagesA) {
+      const proficiencyB = languagesB.get(language);
+      if (!proficiencyB) {
+        continue;
+      }
 
-      // Bonus for multiple common languages
-      const totalUniqueLanguages = new Set([
-        ...languagesA,
-        ...languagesB,
-      ]).size;
-      const commonRatio = commonLanguages.length / totalUniqueLanguages;
-
-      // Additional score based on ratio of common to total languages
-      score += commonRatio * 0.5;
-
-      // Cap at 1.0
-      score = Math.min(1.0, score);
+      sharedLanguages.push({
+        language,
+        proficiencyA,
+        proficiencyB,
+        mutualProficiency: this.lower(proficiencyA, proficiencyB),
+      });
     }
 
-    // Special case: if they share a primary language (first in list), boost score
-    if (
-      userA.languages.length > 0 &&
-      userB.languages.length > 0 &&
-      userA.languages[0]?.toLowerCase().trim() ===
-        userB.languages[0]?.toLowerCase().trim()
-    ) {
-      score = Math.min(1.0, score + 0.2);
-    }
+    sharedLanguages.sort(
+      (a, b) => PROFICIENCY_SCORES[b.mutualProficiency] - PROFICIENCY_SCORES[a.mutualProficiency]
+    );
+
+    const best = sharedLanguages[0];
 
     return {
-      score,
-      commonLanguages,
-      totalLanguages: new Set([...languagesA, ...languagesB]).size,
+      score: best ? PROFICIENCY_SCORES[best.mutualProficiency] : 0,
+      commonLanguages: sharedLanguages.map((shared) => shared.language),
+      totalLanguages: new Set([...languagesA.keys(), ...languagesB.keys()]).size,
+      sharedLanguages,
     };
   }
 
@@ -75,14 +119,93 @@ class LanguageService {
     return result.commonLanguages.length > 0;
   }
 
+  /**
+   * Check if a user speaks a language; region variants count as the same language
+   */
+  speaks(user: UserProfile, language: string): boolean {
+    return this.normalizeLanguages(user.languages).has(this.primarySubtag(language));
+  }
+
   /**
    * Get primary language for a user (first language in their list)
    */
   getPrimaryLanguage(user: UserProfile): string | null {
-    return user.languages.length > 0 ? user.languages[0]! : null;
+    const first = user.languages[0];
+    if (first === undefined) {
+      return null;
+    }
+    return this.normalizeLanguage(first).language;
+  }
+
+  /**
+   * Normalize a profile's languages, keeping the highest proficiency per language
+   */
+  normalizeLanguages(languages: UserProfile['languages']): Map<string, LanguageProficiency> {
+    const normalized = new Map<string, LanguageProficiency>();
+
+    for (const entry of languages) {
+      const { language, proficiency } = this.normalizeLanguage(entry);
+      if (!language) {
+        continue;
+      }
+
+      const existing = normalized.get(language);
+      normalized.set(language, existing ? this.higher(existing, proficiency) : proficiency);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Resolve one entry to its primary language subtag and proficiency
+   */
+  private normalizeLanguage(entry: string | LanguageSkill): NormalizedLanguage {
+    if (typeof entry === 'string') {
+      return { language: this.primarySubtag(entry), proficiency: LEGACY_PROFICIENCY };
+    }
+
+    return {
+      language: this.primarySubtag(entry.tag),
+      proficiency: LANGUAGE_PROFICIENCIES.includes(entry.proficiency) ? entry.proficiency : LEGACY_PROFICIENCY,
+    };
+  }
+
+  /**
+   * "en-US" → "en", "English" → "en"; unrecognised text is kept lowercased
+   */
+  private primarySubtag(value: string): string {
+    const text = value.trim().replace(/_/g, '-');
+    const named = LANGUAGE_NAMES[text.toLowerCase()];
+    if (named) {
+      return named;
+    }
+
+    if (this.isValidTag(text)) {
+      return new Intl.Locale(text).language;
+    }
+
+    return text.toLowerCase();
+  }
+
+  /**
+   * Check that a string is a well-formed BCP-47 tag
+   */
+  isValidTag(tag: string): boolean {
+    try {
+      return Intl.getCanonicalLocales(tag).length === 1;
+    } catch {
+      return false;
+    }
+  }
+
+  private lower(a: LanguageProficiency, b: LanguageProficiency): LanguageProficiency {
+    return PROFICIENCY_SCORES[a] <= PROFICIENCY_SCORES[b] ? a : b;
+  }
+
+  private higher(a: LanguageProficiency, b: LanguageProficiency): LanguageProficiency {
+    return PROFICIENCY_SCORES[a] >= PROFICIENCY_SCORES[b] ? a : b;
   }
 }
 
 // Singleton instance
 export const languageService = new LanguageService();
-
@@ -0,0 +1,248 @@
+/**
+ * Match request service
+ * Lifecycle of match requests (propose, accept, decline, cancel, expire)
+ * and per-user block lists
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  MatchRequest,
+  MatchRequestStatus,
+  MatchRelationships,
+  UserBlock,
+} from '../types/match-request.types.js';
+import { matchRequestRepository } from '../repositories/match-request.repository.js';
+import { ApiError } from '../validation/errors.js';
+import { outcomeService } from './outcome.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A request that can't be carried out, with the HTTP status it maps to
+ */
+export class MatchRequestError extends ApiError {
+  constructor(status: 400 | 403 | 404 | 409, error: string, message: string) {
+    super(status, error, message);
+    this.name = 'MatchRequestError';
+  }
+}
+
+class MatchRequestService {
+  // Pending requests expire after this many days without a response
+  private expiryDays = Number(process.env.MATCH_REQUEST_EXPIRY_DAYS) || 14;
+
+  /**
+   * Send a match request
+   */
+  async send(fromUserId: string, toUserId: string, message?: string): Promise<MatchRequest> {
+    if (fromUserId === toUserId) {
+      throw new MatchRequestError(400, 'Invalid request', 'Users cannot send a match request to themselves');
+    }
+
+    if (await this.isBlocked(fromUserId, toUserId)) {
+      throw new MatchRequestError(403, 'Blocked', 'One of these users has blocked the other');
+    }
+
+    const existing = await this.getBetween(fromUserId, toUserId);
+    if (existing.some((request) => request.status === 'pending')) {
+      throw new MatchRequestError(409, 'Request pending', 'There is already a pending request between these users');
+    }
+    if (existing.some((request) => request.status === 'accepted')) {
+      throw new MatchRequestError(409, 'Already matched', 'These users are already swapping');
+    }
+
+    const now = new Date();
+    return matchRequestRepository.save({
+      id: randomUUID(),
+      fromUserId,
+      toUserId,
+      status: 'pending',
+      ...(message !== undefined && { message }),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.expiryDays * DAY_MS),
+    });
+  }
+
+  /**
+   * Accept or decline a request; only the recipient can respond
+   */
+  async respond(requestId: string, userId: string, action: 'accept' | 'decline'): Promise<MatchRequest> {
+    const request = await this.getPending(requestId);
+
+    if (request.toUserId !== userId) {
+      throw new MatchRequestError(403, 'Forbidden', 'Only the recipient can respond to a match request');
+    }
+
+    const responded = await this.transition(request, action === 'accept' ? 'accepted' : 'declined');
+    await outcomeService.recordOutcome(request.fromUserId, request.toUserId, responded.status as 'accepted' | 'declined');
+    return responded;
+  }
+
+  /**
+   * Withdraw a request; only the sender can cancel
+   */
+  async cancel(requestId: string, userId: string): Promise<MatchRequest> {
+    const request = await this.getPending(requestId);
+
+    if (request.fromUserId !== userId) {
+      throw new MatchRequestError(403, 'Forbidden', 'Only the sender can cancel a match request');
+    }
+
+    return this.transition(request, 'cancelled');
+  }
+
+  /**
+   * Requests a user sent or received, newest first
+   */
+  async getForUser(userId: string, status?: MatchRequestStatus): Promise<MatchRequest[]> {
+    const requests = await Promise.all(
+      (await matchRequestRepository.getForUser(userId)).map((request) => this.expireIfStale(request))
+    );
+
+    return requests
+      .filter((request) => !status || request.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Block a user; pending requests between them are cancelled
+   */
+  async block(userId: string, blockedUserId: string): Promise<UserBlock> {
+    if (userId === blockedUserId) {
+      throw new MatchRequestError(400, 'Invalid block', 'Users cannot block themselves');
+    }
+
+    for (const request of await this.getBetween(userId, blockedUserId)) {
+      if (request.status === 'pending') {
+        await this.transition(request, 'cancelled');
+      }
+    }
+
+    return matchRequestRepository.block({ userId, blockedUserId, createdAt: new Date() });
+  }
+
+  /**
+   * Remove a user from the block list
+   */
+  async unblock(userId: string, blockedUserId: string): Promise<boolean> {
+    return matchRequestRepository.unblock(userId, blockedUserId);
+  }
+
+  /**
+   * Users a user has blocked
+   */
+  async getBlocks(userId: string): Promise<UserBlock[]> {
+    return matchRequestRepository.getBlocks(userId);
+  }
+
+  /**
+   * Which candidates a user should not see, and which have a pending request
+   */
+  async getRelationships(userId: string): Promise<MatchRelationships> {
+    const excludedUserIds = new Set<string>();
+    const pending: MatchRelationships['pending'] = new Map();
+
+    for (const block of await matchRequestRepository.getBlocks(userId)) {
+      excludedUserIds.add(block.blockedUserId);
+    }
+    for (const block of await matchRequestRepository.getBlockedBy(userId)) {
+      excludedUserIds.add(block.userId);
+    }
+
+    for (const request of await this.getForUser(userId)) {
+      const outgoing = request.fromUserId === userId;
+      const otherUserId = outgoing ? request.toUserId : request.fromUserId;
+
+      if (request.status === 'declined' || request.status === 'accepted') {
+        excludedUserIds.add(otherUserId);
+      } else if (request.status === 'pending') {
+        pending.set(otherUserId, {
+          requestId: request.id,
+          direction: outgoing ? 'outgoing' : 'incoming',
+        });
+      }
+    }
+
+    return { excludedUserIds, pending };
+  }
+
+  /**
+   * getRelationships' excluded users for each of several users, for ranking a whole population
+   */
+  async getExclusions(userIds: string[]): Promise<Map<string, Set<string>>> {
+    const exclusions = new Map<string, Set<string>>();
+    for (const userId of userIds) {
+      exclusions.set(userId, (await this.getRelationships(userId)).excludedUserIds);
+    }
+    return exclusions;
+  }
+
+  /**
+   * Check whether either user has blocked the other
+   */
+  async isBlocked(userIdA: string, userIdB: string): Promise<boolean> {
+    const [blocksA, blocksB] = await Promise.all([
+      matchRequestRepository.getBlocks(userIdA),
+      matchRequestRepository.getBlocks(userIdB),
+    ]);
+
+    return (
+      blocksA.some((block) => block.blockedUserId === userIdB) ||
+      blocksB.some((block) => block.blockedUserId === userIdA)
+    );
+  }
+
+  /**
+   * The accepted request the two users are swapping under, in either direction
+   */
+  async getSwap(requestId: string, userIdA: string, userIdB: string): Promise<MatchRequest> {
+    const request = await matchRequestRepository.getById(requestId);
+    if (!request) {
+      throw new MatchRequestError(404, 'Request not found', `Match request ${requestId} does not exist`);
+    }
+
+    const participants = [request.fromUserId, request.toUserId];
+    if (request.status !== 'accepted' || !participants.includes(userIdA) || !participants.includes(userIdB)) {
+      throw new MatchRequestError(403, 'Not swapping', `Match request ${requestId} is not an accepted request between ${userIdA} and ${userIdB}`);
+    }
+
+    return request;
+  }
+
+  private async getBetween(userIdA: string, userIdB: string): Promise<MatchRequest[]> {
+    return Promise.all(
+      (await matchRequestRepository.getBetween(userIdA, userIdB)).map((request) => this.expireIfStale(request))
+    );
+  }
+
+  private async getPending(requestId: string): Promise<MatchRequest> {
+    const stored = await matchRequestRepository.getById(requestId);
+    if (!stored) {
+      throw new MatchRequestError(404, 'Request not found', `Match request ${requestId} does not exist`);
+    }
+
+    const request = await this.expireIfStale(stored);
+    if (request.status !== 'pending') {
+      throw new MatchRequestError(409, 'Request closed', `Match request ${requestId} is already ${request.status}`);
+    }
+
+    return request;
+  }
+
+  /**
+   * Mark pending requests past their expiry as expired
+   */
+  private async expireIfStale(request: MatchRequest): Promise<MatchRequest> {
+    if (request.status === 'pending' && request.expiresAt.getTime() <= Date.now()) {
+      return this.transition(request, 'expired');
+    }
+    return request;
+  }
+
+  private async transition(request: MatchRequest, status: MatchRequestStatus): Promise<MatchRequest> {
+    return matchRequestRepository.save({ ...request, status, respondedAt: new Date() });
+  }
+}
+
+// Singleton instance
+export const matchRequestService = new MatchRequestService();
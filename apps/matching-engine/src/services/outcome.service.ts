@@ -0,0 +1,125 @@
+/**
+ * Outcome service
+ * Records which matches were shown and what came of them, and joins the two
+ * into labelled training examples for the train-weights command
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { MatchResult } from '../types/user.types.js';
+import type { ExperimentAssignment } from '../types/experiment.types.js';
+import type {
+  MatchImpression,
+  MatchOutcome,
+  MatchOutcomeEvent,
+  OutcomeLogEntry,
+  TrainingExample,
+} from '../types/outcome.types.js';
+import { outcomeRepository } from '../repositories/outcome.repository.js';
+
+const OUTCOME_LABELS: Record<MatchOutcome, 0 | 1> = {
+  accepted: 1,
+  completed: 1,
+  declined: 0,
+};
+
+class OutcomeService {
+  /**
+   * Log the matches a user was shown, in rank order
+   */
+  async recordImpressions(
+    userId: string,
+    matches: MatchResult[],
+    weightsVersion: number | null,
+    experiment: ExperimentAssignment | null = null
+  ): Promise<void> {
+    const shownAt = new Date().toISOString();
+
+    await outcomeRepository.append(
+      matches.map((match, i): MatchImpression => ({
+        type: 'impression',
+        id: randomUUID(),
+        userId,
+        candidateId: match.userB.id,
+        rank: i + 1,
+        totalScore: match.matchScore.totalScore,
+        features: {
+          semanticScoreAtoB: match.matchScore.semanticScoreAtoB,
+          semanticScoreBtoA: match.matchScore.semanticScoreBtoA,
+          languageScore: match.matchScore.languageScore,
+          trustScore: match.matchScore.trustScore,
+        },
+        weightsVersion,
+        ...(experiment && { experiment }),
+        shownAt,
+      }))
+    );
+  }
+
+  /**
+   * Log an outcome between two users
+   */
+  async recordOutcome(userIdA: string, userIdB: string, outcome: MatchOutcome): Promise<void> {
+    const event: MatchOutcomeEvent = {
+      type: 'outcome',
+      userIdA,
+      userIdB,
+      outcome,
+      recordedAt: new Date().toISOString(),
+    };
+    await outcomeRepository.append([event]);
+  }
+
+  /**
+   * Label shown matches with the latest outcome between the two users
+   * Each user/candidate pair yields one example: the last impression before
+   * the outcome. Pairs with no outcome are left out.
+   */
+  buildExamples(entries: OutcomeLogEntry[]): TrainingExample[] {
+    const outcomes = new Map<string, MatchOutcomeEvent>();
+    for (const entry of entries) {
+      if (entry.type !== 'outcome' || !(entry.outcome in OUTCOME_LABELS)) {
+        continue;
+      }
+      const key = this.pairKey(entry.userIdA, entry.userIdB);
+      const existing = outcomes.get(key);
+      if (!existing || existing.recordedAt <= entry.recordedAt) {
+        outcomes.set(key, entry);
+      }
+    }
+
+    const latestImpressions = new Map<string, MatchImpression>();
+    for (const entry of entries) {
+      if (entry.type !== 'impression') {
+        continue;
+      }
+      const outcome = outcomes.get(this.pairKey(entry.userId, entry.candidateId));
+      if (!outcome || entry.shownAt > outcome.recordedAt) {
+        continue;
+      }
+
+      const key = `${entry.userId}\u0000${entry.candidateId}`;
+      const existing = latestImpressions.get(key);
+      if (!existing || existing.shownAt <= entry.shownAt) {
+        latestImpressions.set(key, entry);
+      }
+    }
+
+    return Array.from(latestImpressions.values())
+      .map((impression) => ({
+        userId: impression.userId,
+        candidateId: impression.candidateId,
+        features: impression.features,
+        totalScore: impression.totalScore,
+        label: OUTCOME_LABELS[outcomes.get(this.pairKey(impression.userId, impression.candidateId))!.outcome],
+        shownAt: impression.shownAt,
+      }))
+      .sort((a, b) => (a.shownAt < b.shownAt ? -1 : a.shownAt > b.shownAt ? 1 : 0));
+  }
+
+  private pairKey(userIdA: string, userIdB: string): string {
+    return userIdA < userIdB ? `${userIdA}\u0000${userIdB}` : `${userIdB}\u0000${userIdA}`;
+  }
+}
+
+// Singleton instance
+export const outcomeService = new OutcomeService();
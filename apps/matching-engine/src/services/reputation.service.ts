@@ -0,0 +1,187 @@
+/**
+ * Reputation service
+ * Derives each user's trust score from the session feedback they received:
+ *
+ * trust = bayesianAverage(decayed ratings) * noShowPenalty ^ (decayed no-shows)
+ *
+ * Ratings are mapped to 0-1 and shrunk towards a prior, so a single 5-star rating
+ * doesn't make a user fully trusted. Every entry loses half its weight each
+ * half-life. Because exponential decay scales all entries by the same factor,
+ * the per-user sums are kept incrementally and decayed on read.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { SessionFeedback, ReputationSummary } from '../types/feedback.types.js';
+import { feedbackRepository } from '../repositories/feedback.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { outcomeService } from './outcome.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReputationAggregate {
+  weightedRating: number; // Σ weight * normalized rating, at referenceTime
+  ratingWeight: number; // Σ weight of rated sessions, at referenceTime
+  weightedNoShows: number; // Σ weight of no-shows, at referenceTime
+  referenceTime: number;
+  ratingCount: number;
+  ratingTotal: number; // Sum of raw 1-5 ratings
+  noShowCount: number;
+  tags: Record<string, number>;
+}
+
+export interface FeedbackInput {
+  matchRequestId: string;
+  fromUserId: string;
+  toUserId: string;
+  rating: number;
+  noShow?: boolean;
+  tags?: string[];
+  comment?: string;
+}
+
+class ReputationService {
+  // Trust of a user with no feedback, and how many ratings it is worth
+  private priorMean = 0.5;
+  private priorWeight = 5;
+  // Days after which a feedback entry counts half as much
+  private halfLifeDays = 180;
+  // Trust multiplier per (decayed) no-show
+  private noShowPenalty = 0.8;
+
+  private aggregates: Map<string, ReputationAggregate> = new Map();
+
+  /**
+   * Rebuild the aggregates from stored feedback
+   */
+  async initialize(): Promise<void> {
+    this.aggregates.clear();
+    const feedback = await feedbackRepository.getAll();
+    feedback
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .forEach((entry) => this.apply(entry));
+  }
+
+  /**
+   * Store feedback, update the rated user's reputation and their trustScore snapshot
+   */
+  async recordFeedback(input: FeedbackInput): Promise<{ feedback: SessionFeedback; reputation: ReputationSummary }> {
+    const feedback: SessionFeedback = {
+      id: randomUUID(),
+      matchRequestId: input.matchRequestId,
+      fromUserId: input.fromUserId,
+      toUserId: input.toUserId,
+      rating: input.rating,
+      noShow: input.noShow ?? false,
+      tags: this.normalizeTags(input.tags ?? []),
+      ...(input.comment !== undefined && { comment: input.comment }),
+      createdAt: new Date(),
+    };
+
+    await feedbackRepository.save(feedback);
+    this.apply(feedback);
+    if (!feedback.noShow) {
+      await outcomeService.recordOutcome(feedback.fromUserId, feedback.toUserId, 'completed');
+    }
+
+    const reputation = this.getReputation(feedback.toUserId);
+    await userRepository.setTrustScore(feedback.toUserId, reputation.trustScore);
+
+    return { feedback, reputation };
+  }
+
+  /**
+   * Current trust score for a user (prior mean when they have no feedback)
+   */
+  getTrustScore(userId: string, now: Date = new Date()): number {
+    const aggregate = this.aggregates.get(userId);
+    if (!aggregate) {
+      return this.priorMean;
+    }
+
+    const decay = this.decayFactor(aggregate.referenceTime, now.getTime());
+    const bayesian =
+      (this.priorWeight * this.priorMean + aggregate.weightedRating * decay) /
+      (this.priorWeight + aggregate.ratingWeight * decay);
+    const penalty = Math.pow(this.noShowPenalty, aggregate.weightedNoShows * decay);
+
+    return Math.max(0, Math.min(1, bayesian * penalty));
+  }
+
+  /**
+   * Reputation summary for a user
+   */
+  getReputation(userId: string, now: Date = new Date()): ReputationSummary {
+    const aggregate = this.aggregates.get(userId);
+
+    return {
+      userId,
+      trustScore: this.getTrustScore(userId, now),
+      ratingCount: aggregate?.ratingCount ?? 0,
+      averageRating: aggregate && aggregate.ratingCount > 0
+        ? aggregate.ratingTotal / aggregate.ratingCount
+        : null,
+      noShowCount: aggregate?.noShowCount ?? 0,
+      tags: { ...(aggregate?.tags ?? {}) },
+      calculatedAt: now,
+    };
+  }
+
+  /**
+   * Fold one feedback entry into its user's aggregate
+   * No-shows count against the user through the penalty, not as a rating
+   */
+  private apply(feedback: SessionFeedback): void {
+    const time = feedback.createdAt.getTime();
+    const aggregate = this.aggregates.get(feedback.toUserId) ?? {
+      weightedRating: 0,
+      ratingWeight: 0,
+      weightedNoShows: 0,
+      referenceTime: time,
+      ratingCount: 0,
+      ratingTotal: 0,
+      noShowCount: 0,
+      tags: {},
+    };
+
+    // Move the reference time forward so sums stay in a sensible range,
+    // and weight entries older than the reference time accordingly
+    const weight = time >= aggregate.referenceTime
+      ? 1
+      : this.decayFactor(time, aggregate.referenceTime);
+    if (time > aggregate.referenceTime) {
+      const decay = this.decayFactor(aggregate.referenceTime, time);
+      aggregate.weightedRating *= decay;
+      aggregate.ratingWeight *= decay;
+      aggregate.weightedNoShows *= decay;
+      aggregate.referenceTime = time;
+    }
+
+    if (feedback.noShow) {
+      aggregate.weightedNoShows += weight;
+      aggregate.noShowCount++;
+    } else {
+      aggregate.weightedRating += weight * (feedback.rating - 1) / 4;
+      aggregate.ratingWeight += weight;
+      aggregate.ratingCount++;
+      aggregate.ratingTotal += feedback.rating;
+    }
+
+    for (const tag of feedback.tags) {
+      aggregate.tags[tag] = (aggregate.tags[tag] ?? 0) + 1;
+    }
+
+    this.aggregates.set(feedback.toUserId, aggregate);
+  }
+
+  private decayFactor(from: number, to: number): number {
+    const ageDays = Math.max(0, to - from) / DAY_MS;
+    return Math.pow(0.5, ageDays / this.halfLifeDays);
+  }
+
+  private normalizeTags(tags: string[]): string[] {
+    return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+  }
+}
+
+// Singleton instance
+export const reputationService = new ReputationService();
@@ -4,13 +4,32 @@
  */
 
 import { pipeline } from '@xenova/transformers';
-import type { SemanticSimilarityResult } from '../types/matching.types.js';
-import type { Skill } from '../types/user.types.js';
+import type { SemanticSimilarityResult, SkillEmbeddings, DirectionalMatch, SkillPairMatch, LevelGapPolicy, LevelFit } from '../types/matching.types.js';
+import type { Skill, SkillLevel, UserProfile } from '../types/user.types.js';
+import { embeddingCache, type EmbeddingCacheStats } from './embedding.cache.js';
+
+const LEVEL_RANKS: Record<SkillLevel, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+  expert: 3,
+};
+
+// gap-aware multipliers by where the offer falls relative to the want
+const LEVEL_FIT_WEIGHTS: Record<LevelFit, number> = {
+  'above-target': 1.0,
+  'at-target': 0.85,
+  'below-target': 0.6,
+  'at-current': 0.4,
+  'below-current': 0.1,
+};
 
 class SemanticService {
   private embeddingPipeline: any = null;
   private modelName = 'Xenova/all-MiniLM-L6-v2'; // Lightweight, fast embedding model
   private initialized = false;
+  private pendingEmbeddings: Map<string, Promise<number[]>> = new Map();
+  private warnedLevels: Set<string> = new Set();
 
   /**
    * Initialize the embedding pipeline
@@ -36,8 +55,38 @@ class SemanticService {
 
   /**
    * Generate embedding vector for a text
+   * Results are served from the embedding cache when available
    */
   private async getEmbedding(text: string): Promise<number[]> {
+    const cached = await embeddingCache.get(this.modelName, text);
+    if (cached) {
+      return cached;
+    }
+
+    // Share in-flight computations for the same text
+    const key = embeddingCache.keyFor(this.modelName, text);
+    const pending = this.pendingEmbeddings.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const computation = this.computeEmbedding(embeddingCache.normalizeText(text))
+      .then(async (embedding) => {
+        await embeddingCache.set(this.modelName, text, embedding);
+        return embedding;
+      })
+      .finally(() => {
+        this.pendingEmbeddings.delete(key);
+      });
+
+    this.pendingEmbeddings.set(key, computation);
+    return computation;
+  }
+
+  /**
+   * Run the embedding model on a text
+   */
+  private async computeEmbedding(text: string): Promise<number[]> {
     if (!this.embeddingPipeline) {
       await this.initialize();
     }
@@ -55,6 +104,13 @@ class SemanticService {
     return Array.from(output.data);
   }
 
+  /**
+   * Get embedding cache hit/miss counters
+   */
+  getCacheStats(): EmbeddingCacheStats {
+    return embeddingCache.getStats();
+  }
+
   /**
    * Calculate cosine similarity between two vectors
    */
@@ -88,6 +144,13 @@ class SemanticService {
     skillA: Skill,
     skillB: Skill
   ): Promise<SemanticSimilarityResult> {
+    if (skillA.canonicalId && skillA.canonicalId === skillB.canonicalId) {
+      return {
+        score: 1,
+        explanation: `"${skillA.name}" and "${skillB.name}" are the same skill`,
+      };
+    }
+
     try {
       // Create text representations of skills
       const textA = this.skillToText(skillA);
@@ -139,6 +202,186 @@ class SemanticService {
     return bestMatch;
   }
 
+  /**
+   * Embed a set of skills, running the model once per distinct skill text
+   * Skills that fail to embed are left out and scored with the fallback instead
+   */
+  async embedSkills(skills: Skill[]): Promise<SkillEmbeddings> {
+    const embeddings: SkillEmbeddings = new Map();
+    const texts = new Set(skills.map((skill) => this.skillToText(skill)));
+
+    for (const text of texts) {
+      try {
+        embeddings.set(text, await this.getEmbedding(text));
+      } catch (error) {
+        console.error('Error embedding skill:', error);
+      }
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Look up a skill's vector in a set of precomputed embeddings
+   */
+  getSkillVector(skill: Skill, embeddings: SkillEmbeddings): number[] | undefined {
+    return embeddings.get(this.skillToText(skill));
+  }
+
+  /**
+   * Score every (source, target) skill pair from precomputed embeddings
+   * Cell [i][j] equals calculateSkillSimilarity(sources[i], targets[j]).score
+   */
+  similarityMatrix(
+    sources: Skill[],
+    targets: Skill[],
+    embeddings: SkillEmbeddings
+  ): number[][] {
+    const targetVectors = targets.map((target) =>
+      embeddings.get(this.skillToText(target))
+    );
+
+    return sources.map((source) => {
+      const sourceVector = embeddings.get(this.skillToText(source));
+
+      return targets.map((target, j) => {
+        // Same taxonomy skill, whatever the wording
+        if (source.canonicalId && source.canonicalId === target.canonicalId) {
+          return 1;
+        }
+
+        const targetVector = targetVectors[j];
+        if (!sourceVector || !targetVector) {
+          return this.fallbackSimilarity(source, target).score;
+        }
+
+        try {
+          const similarity = this.cosineSimilarity(sourceVector, targetVector);
+          return Math.max(0, (similarity + 1) / 2);
+        } catch {
+          return this.fallbackSimilarity(source, target).score;
+        }
+      });
+    });
+  }
+
+  /**
+   * Match A's offers against B's wants
+   * Uses the offer × want similarity matrix and keeps the best want for each offer
+   */
+  calculateDirectionalMatch(
+    userA: UserProfile,
+    userB: UserProfile,
+    embeddings: SkillEmbeddings,
+    levelGapPolicy: LevelGapPolicy = 'gap-aware'
+  ): DirectionalMatch {
+    if (userA.offers.length === 0 || userB.wants.length === 0) {
+      return { score: 0, pairs: [] };
+    }
+
+    const matrix = this.similarityMatrix(
+      userA.offers,
+      userB.wants,
+      embeddings
+    );
+
+    // Find best matches for each of A's offers
+    const pairs: SkillPairMatch[] = [];
+
+    userA.offers.forEach((offer, i) => {
+      const row = matrix[i] ?? [];
+      let bestSimilarity = -1;
+      let bestWant: Skill | undefined;
+
+      for (let j = 0; j < row.length; j++) {
+        if (row[j]! > bestSimilarity) {
+          bestSimilarity = row[j]!;
+          bestWant = userB.wants[j];
+        }
+      }
+
+      if (bestWant) {
+        pairs.push({
+          offer,
+          want: bestWant,
+          similarity: bestSimilarity,
+          ...this.getLevelWeight(offer, bestWant, levelGapPolicy),
+        });
+      }
+    });
+
+    // Return average of best matches, or max if we want to prioritize strong matches
+    if (pairs.length === 0) {
+      return { score: 0, pairs };
+    }
+
+    const scores = pairs.map((pair) => pair.similarity * pair.levelWeight);
+
+    // Use average for more balanced scoring
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    
+    // Also consider the best match
+    const max = Math.max(...scores);
+    
+    // Weighted combination: 70% average, 30% max
+    return { score: average * 0.7 + max * 0.3, pairs };
+  }
+
+  /**
+   * Get weight multiplier for an offer's level against a want
+   * gap-aware rewards offers above the learner's target and heavily penalizes
+   * offers below their current level; offer-only weights by the offer's level alone
+   */
+  private getLevelWeight(
+    offer: Skill,
+    want: Skill,
+    policy: LevelGapPolicy
+  ): { levelWeight: number; levelFit: LevelFit } {
+    const offerRank = this.getLevelRank(offer.level);
+    const currentRank = this.getLevelRank(want.level);
+    const targetRank = want.targetLevel
+      ? Math.max(this.getLevelRank(want.targetLevel), currentRank)
+      : Math.min(currentRank + 1, LEVEL_RANKS.expert);
+
+    const levelFit: LevelFit =
+      offerRank > targetRank ? 'above-target'
+        : offerRank === targetRank ? 'at-target'
+          : offerRank < currentRank ? 'below-current'
+            : offerRank === currentRank ? 'at-current'
+              : 'below-target';
+
+    if (policy === 'offer-only') {
+      const weights: Record<string, number> = {
+        beginner: 0.5,
+        intermediate: 0.75,
+        advanced: 0.9,
+        expert: 1.0,
+      };
+
+      return { levelWeight: weights[offer.level] ?? 0.5, levelFit };
+    }
+
+    return { levelWeight: LEVEL_FIT_WEIGHTS[levelFit], levelFit };
+  }
+
+  /**
+   * Rank of a level; unknown levels (e.g. stored before validation) rank as beginner
+   * and are warned about once each
+   */
+  private getLevelRank(level: string): number {
+    const rank = LEVEL_RANKS[level as SkillLevel];
+    if (rank !== undefined) {
+      return rank;
+    }
+
+    if (!this.warnedLevels.has(level)) {
+      this.warnedLevels.add(level);
+      console.warn(`Unknown skill level "${level}", treating it as beginner`);
+    }
+    return 0;
+  }
+
+
   /**
    * Convert skill to text representation for embedding
    */
@@ -0,0 +1,303 @@
+/**
+ * Taxonomy service
+ * Resolves free-text skill names and categories to canonical taxonomy entries,
+ * so "JS", "Javascript" and "javascript programming" are the same skill
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Skill } from '../types/user.types.js';
+import type {
+  SkillTaxonomyData,
+  TaxonomyCategory,
+  TaxonomySkill,
+  SkillSuggestion,
+} from '../types/taxonomy.types.js';
+import { DEFAULT_TAXONOMY } from '../data/default-taxonomy.js';
+
+// Trailing words that don't change which skill is meant ("python programming")
+const GENERIC_SUFFIXES = ['programming', 'language', 'development', 'lessons', 'basics', 'coding', 'skills'];
+
+export class TaxonomyService {
+  private skills: Map<string, TaxonomySkill> = new Map();
+  private categories: Map<string, TaxonomyCategory> = new Map();
+  private skillLookup: Map<string, string> = new Map(); // normalized name/alias → skill id
+  private categoryLookup: Map<string, string> = new Map(); // normalized name/alias → category id
+  private children: Map<string, string[]> = new Map(); // category id → child category ids
+
+  constructor() {
+    this.load(DEFAULT_TAXONOMY);
+  }
+
+  /**
+   * Load the taxonomy from SKILL_TAXONOMY_PATH, if set
+   */
+  async initialize(): Promise<void> {
+    const filePath = process.env.SKILL_TAXONOMY_PATH;
+    if (!filePath) {
+      return;
+    }
+
+    await this.loadFile(filePath);
+    console.log(`Loaded skill taxonomy from ${filePath} (${this.skills.size} skills, ${this.categories.size} categories)`);
+  }
+
+  /**
+   * Replace the taxonomy from a JSON file
+   * Only JSON is read: YAML or other formats are refused rather than misparsed
+   */
+  async loadFile(filePath: string): Promise<void> {
+    if (path.extname(filePath).toLowerCase() !== '.json') {
+      throw new Error(`Skill taxonomy ${filePath} must be a .json file`);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`Skill taxonomy ${filePath} is not valid JSON: ${error.message}`);
+      }
+      throw error;
+    }
+
+    this.load(data as SkillTaxonomyData);
+  }
+
+  /**
+   * Replace the taxonomy, validating references between entries
+   */
+  load(data: SkillTaxonomyData): void {
+    const errors = this.validate(data);
+    if (errors.length > 0) {
+      throw new Error(`Invalid skill taxonomy: ${errors.join('; ')}`);
+    }
+
+    this.skills = new Map(data.skills.map((skill) => [skill.id, skill]));
+    this.categories = new Map(data.categories.map((category) => [category.id, category]));
+    this.skillLookup = new Map();
+    this.categoryLookup = new Map();
+    this.children = new Map();
+
+    for (const category of data.categories) {
+      for (const name of [category.id, category.name, ...(category.aliases ?? [])]) {
+        this.categoryLookup.set(this.normalize(name), category.id);
+      }
+      if (category.parent) {
+        this.children.set(category.parent, [...(this.children.get(category.parent) ?? []), category.id]);
+      }
+    }
+
+    for (const skill of data.skills) {
+      for (const name of [skill.id, skill.name, ...(skill.aliases ?? [])]) {
+        this.skillLookup.set(this.normalize(name), skill.id);
+      }
+    }
+  }
+
+  /**
+   * Resolve a free-text skill name to its canonical skill
+   */
+  resolveSkill(name: string): TaxonomySkill | null {
+    let key = this.normalize(name);
+
+    while (key) {
+      const id = this.skillLookup.get(key);
+      if (id) {
+        return this.skills.get(id) ?? null;
+      }
+
+      const suffix = GENERIC_SUFFIXES.find((word) => key.endsWith(` ${word}`));
+      if (!suffix) {
+        break;
+      }
+      key = key.slice(0, -(suffix.length + 1));
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a free-text category to its canonical category
+   */
+  resolveCategory(name: string): TaxonomyCategory | null {
+    const id = this.categoryLookup.get(this.normalize(name));
+    return id ? this.categories.get(id) ?? null : null;
+  }
+
+  /**
+   * Normalize a user skill against the taxonomy
+   * Known skills get their canonical id, name and category; unknown ones keep
+   * their own name, with the category canonicalized when it is recognised
+   */
+  normalizeSkill(skill: Skill): Skill {
+    const canonical = this.resolveSkill(skill.name);
+    if (canonical) {
+      return {
+        ...skill,
+        name: canonical.name,
+        canonicalId: canonical.id,
+        category: canonical.category,
+      };
+    }
+
+    const { canonicalId: _canonicalId, ...rest } = skill;
+    const category = skill.category ? this.resolveCategory(skill.category) : null;
+    return category ? { ...rest, category: category.id } : rest;
+  }
+
+  /**
+   * Check whether a skill category falls under a queried category, including subcategories
+   * Categories outside the taxonomy fall back to case-insensitive equality
+   */
+  categoryMatches(skillCategory: string | undefined, query: string): boolean {
+    if (!skillCategory) {
+      return false;
+    }
+
+    const queried = this.resolveCategory(query);
+    const actual = this.resolveCategory(skillCategory);
+    if (!queried || !actual) {
+      return skillCategory.toLowerCase() === query.toLowerCase();
+    }
+
+    return this.getDescendants(queried.id).has(actual.id);
+  }
+
+  /**
+   * A category id and all of its subcategory ids
+   */
+  getDescendants(categoryId: string): Set<string> {
+    const result = new Set<string>();
+    const stack = [categoryId];
+
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (result.has(id)) {
+        continue;
+      }
+      result.add(id);
+      stack.push(...(this.children.get(id) ?? []));
+    }
+
+    return result;
+  }
+
+  /**
+   * Suggest canonical skills for a partial name
+   * Prefix matches on the canonical name rank first, then alias prefixes, then substrings
+   */
+  autocomplete(query: string, limit = 10): SkillSuggestion[] {
+    const needle = this.normalize(query);
+    if (!needle) {
+      return [];
+    }
+
+    const ranked: Array<{ suggestion: SkillSuggestion; rank: number }> = [];
+
+    for (const skill of this.skills.values()) {
+      const name = this.normalize(skill.name);
+      const suggestion: SkillSuggestion = { id: skill.id, name: skill.name, category: skill.category };
+
+      if (name.startsWith(needle)) {
+        ranked.push({ suggestion, rank: 0 });
+        continue;
+      }
+
+      const alias = (skill.aliases ?? []).find((a) => this.normalize(a).startsWith(needle));
+      if (alias) {
+        ranked.push({ suggestion: { ...suggestion, matchedAlias: alias }, rank: 1 });
+        continue;
+      }
+
+      if (name.includes(needle)) {
+        ranked.push({ suggestion, rank: 2 });
+      }
+    }
+
+    return ranked
+      .sort((a, b) => a.rank - b.rank || a.suggestion.name.localeCompare(b.suggestion.name))
+      .slice(0, limit)
+      .map((entry) => entry.suggestion);
+  }
+
+  /**
+   * All categories, with their subcategory ids
+   */
+  listCategories(): Array<TaxonomyCategory & { children: string[] }> {
+    return Array.from(this.categories.values()).map((category) => ({
+      ...category,
+      children: this.children.get(category.id) ?? [],
+    }));
+  }
+
+  /**
+   * Lowercase, strip punctuation that isn't part of names like "C++" or "Node.js",
+   * and collapse whitespace
+   */
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFKC')
+      .replace(/[^\p{L}\p{N}+#.\s]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private validate(data: SkillTaxonomyData): string[] {
+    const errors: string[] = [];
+    if (!Array.isArray(data?.categories) || !Array.isArray(data?.skills)) {
+      return ['taxonomy must have "categories" and "skills" arrays'];
+    }
+
+    const entries = [
+      ...data.categories.map((entry) => ({ kind: 'category', entry })),
+      ...data.skills.map((entry) => ({ kind: 'skill', entry })),
+    ];
+    for (const { kind, entry } of entries) {
+      if (typeof entry?.id !== 'string' || !entry.id || typeof entry.name !== 'string' || !entry.name) {
+        errors.push(`every ${kind} needs a non-empty string "id" and "name" (got ${JSON.stringify(entry)})`);
+      } else if (entry.aliases !== undefined &&
+        (!Array.isArray(entry.aliases) || entry.aliases.some((alias) => typeof alias !== 'string'))) {
+        errors.push(`${kind} "${entry.id}" aliases must be an array of strings`);
+      }
+    }
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    const categoryIds = new Set<string>();
+    for (const category of data.categories) {
+      if (categoryIds.has(category.id)) {
+        errors.push(`category id "${category.id}" is used twice`);
+      }
+      categoryIds.add(category.id);
+    }
+    for (const category of data.categories) {
+      if (category.parent && !categoryIds.has(category.parent)) {
+        errors.push(`category "${category.id}" has unknown parent "${category.parent}"`);
+      }
+    }
+
+    const skillNames = new Map<string, string>(); // normalized name/alias → skill id
+    for (const skill of data.skills) {
+      if (!categoryIds.has(skill.category)) {
+        errors.push(`skill "${skill.id}" has unknown category "${skill.category}"`);
+      }
+      for (const name of new Set([skill.id, skill.name, ...(skill.aliases ?? [])].map((n) => this.normalize(n)))) {
+        const other = skillNames.get(name);
+        if (other !== undefined) {
+          errors.push(other === skill.id
+            ? `skill id "${skill.id}" is used twice`
+            : `"${name}" names both skill "${other}" and skill "${skill.id}"`);
+        }
+        skillNames.set(name, skill.id);
+      }
+    }
+
+    return errors;
+  }
+}
+
+// Singleton instance
+export const taxonomyService = new TaxonomyService();
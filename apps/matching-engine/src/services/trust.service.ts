@@ -1,10 +1,12 @@
 /**
  * Trust score service
- * Calculates trust scores for user pairs based on their individual trust scores
+ * Calculates trust scores for user pairs based on their individual trust scores,
+ * as derived from session feedback by the reputation service
  */
 
 import type { TrustScoreResult } from '../types/matching.types.js';
 import type { UserProfile } from '../types/user.types.js';
+import { reputationService } from './reputation.service.js';
 
 class TrustService {
   /**
@@ -15,8 +17,8 @@ class TrustService {
     userA: UserProfile,
     userB: UserProfile
   ): TrustScoreResult {
-    const userATrust = this.normalizeTrustScore(userA.trustScore);
-    const userBTrust = this.normalizeTrustScore(userB.trustScore);
+    const userATrust = this.normalizeTrustScore(reputationService.getTrustScore(userA.id));
+    const userBTrust = this.normalizeTrustScore(reputationService.getTrustScore(userB.id));
 
     // Average trust score
     const averageTrust = (userATrust + userBTrust) / 2;
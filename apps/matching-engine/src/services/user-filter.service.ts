@@ -0,0 +1,66 @@
+/**
+ * User filter service
+ * Applies UserFilters, so candidates can be narrowed before scoring
+ */
+
+import type { UserProfile, UserFilters, SkillLevel } from '../types/user.types.js';
+import { taxonomyService } from './taxonomy.service.js';
+import { languageService } from './language.service.js';
+import { reputationService } from './reputation.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LEVEL_RANKS: Record<SkillLevel, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+  expert: 3,
+};
+
+class UserFilterService {
+  /**
+   * Keep the users that pass every filter
+   */
+  apply(users: UserProfile[], filters: UserFilters, now: Date = new Date()): UserProfile[] {
+    if (Object.keys(filters).length === 0) {
+      return users;
+    }
+    return users.filter((user) => this.matches(user, filters, now));
+  }
+
+  /**
+   * Check a single user against the filters
+   */
+  matches(user: UserProfile, filters: UserFilters, now: Date = new Date()): boolean {
+    if (filters.category !== undefined || filters.minOfferLevel !== undefined) {
+      const minRank = filters.minOfferLevel ? LEVEL_RANKS[filters.minOfferLevel] : 0;
+      const hasOffer = user.offers.some((skill) =>
+        (filters.category === undefined || taxonomyService.categoryMatches(skill.category, filters.category)) &&
+        (LEVEL_RANKS[skill.level] ?? 0) >= minRank
+      );
+      if (!hasOffer) {
+        return false;
+      }
+    }
+
+    if (filters.language !== undefined && !languageService.speaks(user, filters.language)) {
+      return false;
+    }
+
+    if (filters.minTrust !== undefined && reputationService.getTrustScore(user.id, now) < filters.minTrust) {
+      return false;
+    }
+
+    if (filters.activeWithinDays !== undefined) {
+      const lastActive = new Date(user.lastActiveAt ?? user.updatedAt).getTime();
+      if (now.getTime() - lastActive > filters.activeWithinDays * DAY_MS) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+// Singleton instance
+export const userFilterService = new UserFilterService();
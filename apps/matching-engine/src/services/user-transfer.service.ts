@@ -0,0 +1,357 @@
+/**
+ * User transfer service
+ * Bulk import and export of user profiles as JSONL or CSV
+ *
+ * CSV has one row per profile. Skills are flattened into numbered columns
+ * (offer1_name, offer1_level, ..., want2_targetLevel), languages are written as
+ * "en-US:native;es:B1" and availability as "1 09:00-12:00;3 18:00-20:00"
+ * (day 0 = Sunday). Every record goes through the same schema as POST /api/users.
+ */
+
+import type { LanguageSkill, UserProfile } from '../types/user.types.js';
+import type {
+  ImportLineError,
+  ImportOptions,
+  ImportReport,
+  UserTransferFormat,
+} from '../types/user-transfer.types.js';
+import type { FieldError } from '../validation/errors.js';
+import { ValidationError } from '../validation/errors.js';
+import { parse } from '../validation/schema.js';
+import { userImportSchema, type UserImportInput } from '../validation/request.schemas.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { reputationService } from './reputation.service.js';
+
+const BASE_COLUMNS = ['id', 'username', 'email', 'timezone', 'trustScore', 'createdAt', 'updatedAt', 'lastActiveAt', 'languages', 'availability'] as const;
+const OFFER_FIELDS = ['id', 'name', 'level', 'category', 'description'] as const;
+const WANT_FIELDS = ['id', 'name', 'level', 'targetLevel', 'category', 'description'] as const;
+const SKILL_COLUMN = /^(offer|want)(\d+)_(\w+)$/;
+const EXPORT_ONLY_COLUMNS = new Set(['trustScore']); // Derived by the service, ignored on import
+// Text a spreadsheet would run as a formula; leading quotes count, so text already starting with ' round-trips
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+/**
+ * A record read from an import file, before validation
+ */
+interface RawRecord {
+  line: number;
+  value: unknown;
+  errors: FieldError[]; // Problems found while reading the record itself
+}
+
+class UserTransferService {
+  /**
+   * Build a stored profile from validated input, the way POST /api/users does
+   * Timestamps missing from the input are set to now
+   */
+  toProfile(input: UserImportInput, now: Date = new Date()): UserProfile {
+    return {
+      id: input.id,
+      username: input.username,
+      email: input.email,
+      languages: input.languages ?? ['en'],
+      offers: input.offers ?? [],
+      wants: input.wants ?? [],
+      trustScore: reputationService.getTrustScore(input.id), // Derived from feedback, never client-set
+      timezone: input.timezone ?? 'UTC',
+      availability: input.availability ?? [],
+      createdAt: input.createdAt ?? now,
+      updatedAt: input.updatedAt ?? now,
+      lastActiveAt: input.lastActiveAt ?? input.updatedAt ?? now,
+    };
+  }
+
+  /**
+   * Serialize profiles, ordered by id
+   */
+  export(users: UserProfile[], format: UserTransferFormat): string {
+    const sorted = [...users].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    return format === 'csv' ? this.toCsv(sorted) : sorted.map((user) => `${JSON.stringify(user)}\n`).join('');
+  }
+
+  /**
+   * Validate every record, then save the valid ones unless this is a dry run
+   * Invalid records are reported by line and skipped; the rest are still imported,
+   * with their timestamps, in one batch
+   */
+  async import(content: string, options: ImportOptions): Promise<ImportReport> {
+    const records = options.format === 'csv' ? this.readCsv(content) : this.readJsonl(content);
+    const report: ImportReport = { ...options, records: records.length, created: 0, updated: 0, failed: 0, errors: [] };
+
+    const seen = new Map<string, number>(); // id → line
+    const now = new Date();
+    const profiles: UserProfile[] = [];
+
+    for (const record of records) {
+      const rawId = (record.value as { id?: unknown } | null)?.id;
+      const userId = typeof rawId === 'string' && rawId.trim() !== '' ? rawId.trim() : undefined;
+      const failure = (errors: FieldError[]): ImportLineError => ({
+        line: record.line,
+        ...(userId !== undefined && { userId }),
+        errors: options.format === 'csv' ? errors.map((error) => this.toCsvField(error)) : errors,
+      });
+
+      const errors = [...record.errors];
+      let input: UserImportInput | null = null;
+      if (errors.length === 0) {
+        try {
+          input = parse(userImportSchema, record.value);
+        } catch (error) {
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+          errors.push(...(error.details ?? []));
+        }
+      }
+
+      if (input) {
+        const firstLine = seen.get(input.id);
+        if (firstLine !== undefined) {
+          errors.push({ field: 'id', message: `duplicates line ${firstLine}` });
+        } else if (options.mode === 'create' && (await userRepository.exists(input.id))) {
+          errors.push({ field: 'id', message: 'already exists (use mode=upsert to replace it)' });
+        }
+      }
+
+      if (!input || errors.length > 0) {
+        report.failed++;
+        report.errors.push(failure(errors));
+        continue;
+      }
+
+      seen.set(input.id, record.line);
+      profiles.push(this.toProfile(input, now));
+      if (await userRepository.exists(input.id)) {
+        report.updated++;
+      } else {
+        report.created++;
+      }
+    }
+
+    if (!options.dryRun && profiles.length > 0) {
+      await userRepository.saveMany(profiles, { preserveUpdatedAt: true });
+    }
+
+    return report;
+  }
+
+  private readJsonl(content: string): RawRecord[] {
+    const records: RawRecord[] = [];
+    content.split(/\r?\n/).forEach((text, i) => {
+      if (text.trim() === '') {
+        return;
+      }
+      try {
+        records.push({ line: i + 1, value: JSON.parse(text), errors: [] });
+      } catch (error) {
+        records.push({ line: i + 1, value: null, errors: [{ field: '', message: `is not valid JSON: ${(error as Error).message}` }] });
+      }
+    });
+    return records;
+  }
+
+  private toCsv(users: UserProfile[]): string {
+    // reduce rather than Math.max(...): spreading a large user base overflows the stack
+    const offers = users.reduce((max, user) => Math.max(max, user.offers.length), 0);
+    const wants = users.reduce((max, user) => Math.max(max, user.wants.length), 0);
+
+    const header: string[] = [...BASE_COLUMNS];
+    for (let n = 1; n <= offers; n++) {
+      header.push(...OFFER_FIELDS.map((field) => `offer${n}_${field}`));
+    }
+    for (let n = 1; n <= wants; n++) {
+      header.push(...WANT_FIELDS.map((field) => `want${n}_${field}`));
+    }
+
+    const rows = users.map((user) => {
+      const row: Array<string | number | undefined> = [
+        user.id,
+        user.username,
+        user.email,
+        user.timezone,
+        user.trustScore,
+        new Date(user.createdAt).toISOString(),
+        new Date(user.updatedAt).toISOString(),
+        new Date(user.lastActiveAt ?? user.updatedAt).toISOString(),
+        user.languages.map((language) => typeof language === 'string' ? language : `${language.tag}:${language.proficiency}`).join(';'),
+        (user.availability ?? []).map((window) => `${window.day} ${window.start}-${window.end}`).join(';'),
+      ];
+      for (let n = 0; n < offers; n++) {
+        const skill = user.offers[n];
+        row.push(...OFFER_FIELDS.map((field) => skill?.[field]));
+      }
+      for (let n = 0; n < wants; n++) {
+        const skill = user.wants[n];
+        row.push(...WANT_FIELDS.map((field) => skill?.[field]));
+      }
+      return row;
+    });
+
+    return [header, ...rows].map((row) => `${row.map((cell) => this.csvCell(cell)).join(',')}\n`).join('');
+  }
+
+  /**
+   * Read CSV rows into profile-shaped objects; empty cells are left out
+   */
+  private readCsv(content: string): RawRecord[] {
+    const rows = this.parseCsv(content);
+    const header = rows.shift();
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.cells.map((name) => name.trim());
+    return rows
+      .filter((row) => row.cells.some((cell) => cell.trim() !== ''))
+      .map((row) => {
+        const errors: FieldError[] = [];
+        if (row.cells.length !== columns.length) {
+          errors.push({ field: '', message: `has ${row.cells.length} columns, expected ${columns.length}` });
+        }
+
+        const value: Record<string, unknown> = {};
+        const offers: Array<Record<string, string>> = [];
+        const wants: Array<Record<string, string>> = [];
+
+        columns.forEach((column, i) => {
+          const cell = this.unescapeFormula(row.cells[i]?.trim() ?? '');
+          if (cell === '' || EXPORT_ONLY_COLUMNS.has(column)) {
+            return;
+          }
+
+          const skillColumn = SKILL_COLUMN.exec(column);
+          if (skillColumn) {
+            const [, kind, n, field] = skillColumn;
+            const skills = kind === 'offer' ? offers : wants;
+            const index = Number(n) - 1;
+            skills[index] = { ...skills[index], [field!]: cell };
+          } else if (column === 'languages') {
+            value.languages = this.splitList(cell).map((entry) => this.parseLanguage(entry));
+          } else if (column === 'availability') {
+            value.availability = this.splitList(cell).map((entry) => this.parseWindow(entry));
+          } else {
+            value[column] = cell;
+          }
+        });
+
+        // Numbered columns may skip a number; keep the skills in column order
+        value.offers = offers.filter((skill) => skill !== undefined);
+        value.wants = wants.filter((skill) => skill !== undefined);
+        return { line: row.line, value, errors };
+      });
+  }
+
+  /**
+   * RFC 4180 rows: quoted cells may hold commas, quotes ("") and line breaks
+   */
+  private parseCsv(content: string): Array<{ line: number; cells: string[] }> {
+    const rows: Array<{ line: number; cells: string[] }> = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i]!;
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        cells.push(cell);
+        rows.push({ line: rowLine, cells });
+        cells = [];
+        cell = '';
+        line++;
+        rowLine = line;
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || cells.length > 0) {
+      cells.push(cell);
+      rows.push({ line: rowLine, cells });
+    }
+    return rows;
+  }
+
+  /**
+   * Quote a cell when needed; text a spreadsheet would run as a formula gets a leading '
+   */
+  private csvCell(value: string | number | undefined): string {
+    if (value === undefined) {
+      return '';
+    }
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * Undo csvCell's formula guard, so exported text imports unchanged
+   */
+  private unescapeFormula(cell: string): string {
+    return FORMULA_PREFIX.test(cell.slice(1)) && cell.startsWith("'") ? cell.slice(1) : cell;
+  }
+
+  private splitList(cell: string): string[] {
+    return cell.split(';').map((entry) => entry.trim()).filter((entry) => entry !== '');
+  }
+
+  /**
+   * "es-MX:B2" → { tag, proficiency }; a bare tag stays a legacy string
+   */
+  private parseLanguage(entry: string): string | LanguageSkill {
+    const separator = entry.lastIndexOf(':');
+    if (separator === -1) {
+      return entry;
+    }
+    return { tag: entry.slice(0, separator), proficiency: entry.slice(separator + 1) as LanguageSkill['proficiency'] };
+  }
+
+  /**
+   * "1 09:00-12:00" → { day, start, end }; malformed parts are left for the schema to report
+   */
+  private parseWindow(entry: string): Record<string, unknown> {
+    const [day, range = ''] = entry.split(/\s+/, 2);
+    const [start, end] = range.split('-', 2);
+    return { day: /^\d+$/.test(day ?? '') ? Number(day) : day, start, end };
+  }
+
+  /**
+   * Name CSV columns in field errors: offers[0].level → offer1_level, languages[2].tag → languages (entry 3 tag)
+   */
+  private toCsvField(error: FieldError): FieldError {
+    const skill = /^(offers|wants)\[(\d+)\](?:\.(\w+))?/.exec(error.field);
+    if (skill) {
+      const kind = skill[1] === 'offers' ? 'offer' : 'want';
+      return { ...error, field: skill[3] ? `${kind}${Number(skill[2]) + 1}_${skill[3]}` : `${kind}${Number(skill[2]) + 1}` };
+    }
+    const list = /^(languages|availability)\[(\d+)\](?:\.(\w+))?/.exec(error.field);
+    if (list) {
+      const entry = `entry ${Number(list[2]) + 1}${list[3] ? ` ${list[3]}` : ''}`;
+      return { field: list[1]!, message: `${entry} ${error.message}` };
+    }
+    return error;
+  }
+}
+
+// Singleton instance
+export const userTransferService = new UserTransferService();
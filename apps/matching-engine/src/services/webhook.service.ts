@@ -0,0 +1,369 @@
+/**
+ * Webhook service
+ * Notifies subscribers by signed POST when a saved profile matches them above their minScore
+ *
+ * Saves are checked in the background, one at a time: the saved user is scored
+ * against every subscriber, and a subscriber who saves is scored against everyone.
+ * A batch from saveMany is checked as one save of all its users.
+ * A candidate is sent once per subscription, and again only after dropping below
+ * minScore and climbing back. Failed deliveries are retried with exponential
+ * backoff. Subscriptions, deliveries and sent candidates are stored by the webhook
+ * repository, so pending retries are resumed after a restart; a delivery that was
+ * in flight when the service stopped is sent again (receivers dedupe by X-Webhook-Id).
+ *
+ * Callback URLs must resolve to public addresses (see webhook.target.ts); this is
+ * checked on subscription and again before every attempt, in case DNS changed, and
+ * the attempt connects to the addresses that were checked.
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { LookupFunction } from 'node:net';
+import type { MatchScore, UserProfile } from '../types/user.types.js';
+import type {
+  MatchFoundPayload,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookSubscription,
+} from '../types/webhook.types.js';
+import type { UserRepository } from '../repositories/user.repository.js';
+import { webhookRepository } from '../repositories/webhook.repository.js';
+import { matchingEngine } from '../core/matching.engine.js';
+import { matchRequestService } from './match-request.service.js';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from './webhook.signature.js';
+import { checkWebhookTarget, parseAllowedHosts, resolveWebhookTarget } from './webhook.target.js';
+import { NotFoundError, ValidationError } from '../validation/errors.js';
+
+export interface WebhookInput {
+  userId: string;
+  url: string;
+  minScore: number;
+}
+
+/**
+ * A subscription as listed; the secret is only returned on creation
+ */
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+interface DeliveryOptions {
+  maxAttempts: number;
+  retryBaseMs: number; // Delay before the first retry; doubles on each one
+  timeoutMs: number; // Per attempt
+  allowedHosts: ReadonlySet<string>; // May resolve to private addresses
+}
+
+// Statuses worth retrying besides 5xx
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+
+class WebhookService {
+  private repository: UserRepository | null = null;
+  private updates: Promise<void> = Promise.resolve();
+  private retries: Set<NodeJS.Timeout> = new Set();
+
+  constructor(private options: DeliveryOptions) {}
+
+  /**
+   * Check saved profiles for new matches
+   */
+  attach(repository: UserRepository): void {
+    this.repository = repository;
+    repository.on('saved', (user) => this.enqueue(() => this.checkUsers([user])));
+    repository.on('savedMany', (users) => this.enqueue(() => this.checkUsers(users)));
+    repository.on('deleted', (userId) => this.enqueue(() => this.forgetUser(userId)));
+    repository.on('cleared', () => this.enqueue(() => webhookRepository.clearNotified()));
+  }
+
+  /**
+   * Resume deliveries left pending by a restart, at their scheduled time
+   */
+  async initialize(): Promise<void> {
+    const pending = await webhookRepository.getPendingDeliveries();
+    for (const delivery of pending) {
+      this.schedule(delivery, Math.max(0, (delivery.nextAttemptAt?.getTime() ?? 0) - Date.now()));
+    }
+    if (pending.length > 0) {
+      console.log(`Resuming ${pending.length} pending webhook deliveries`);
+    }
+  }
+
+  /**
+   * Subscribe a user to match webhooks; the response carries the signing secret
+   */
+  async subscribe(input: WebhookInput): Promise<WebhookSubscription> {
+    const refused = await checkWebhookTarget(input.url, this.options.allowedHosts);
+    if (refused) {
+      throw new ValidationError([{ field: 'url', message: refused }]);
+    }
+
+    return webhookRepository.saveSubscription({
+      id: randomUUID(),
+      userId: input.userId,
+      url: input.url,
+      minScore: input.minScore,
+      secret: `whsec_${randomBytes(24).toString('base64url')}`,
+      createdAt: new Date(),
+    });
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    await this.get(subscriptionId);
+    await webhookRepository.deleteSubscription(subscriptionId);
+  }
+
+  /**
+   * Get a subscription without its secret, or throw a 404
+   */
+  async get(subscriptionId: string): Promise<PublicWebhookSubscription> {
+    const subscription = await webhookRepository.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new NotFoundError('Subscription not found', `Webhook subscription ${subscriptionId} does not exist`);
+    }
+    return this.toPublic(subscription);
+  }
+
+  async listForUser(userId: string): Promise<PublicWebhookSubscription[]> {
+    return (await webhookRepository.getSubscriptions())
+      .filter((subscription) => subscription.userId === userId)
+      .map((subscription) => this.toPublic(subscription));
+  }
+
+  /**
+   * A subscription's delivery log, newest first
+   */
+  async getDeliveries(subscriptionId: string): Promise<WebhookDelivery[]> {
+    await this.get(subscriptionId);
+    return webhookRepository.getDeliveries(subscriptionId);
+  }
+
+  /**
+   * Wait for queued profile checks (for tests and tooling)
+   */
+  async flush(): Promise<void> {
+    await this.updates;
+  }
+
+  /**
+   * Cancel scheduled retries
+   */
+  stop(): void {
+    this.retries.forEach((timer) => clearTimeout(timer));
+    this.retries.clear();
+  }
+
+  private enqueue(task: () => Promise<void> | void): void {
+    this.updates = this.updates
+      .then(task)
+      .catch((error) => console.error('Failed to check match webhooks:', error));
+  }
+
+  /**
+   * Score the pairs a save may have changed and notify subscribers above their threshold
+   */
+  private async checkUsers(saved: UserProfile[]): Promise<void> {
+    const subscriptions = await webhookRepository.getSubscriptions();
+    if (subscriptions.length === 0 || !this.repository) {
+      return;
+    }
+
+    const users = await this.repository.getAll();
+    const byId = new Map(users.map((user) => [user.id, user]));
+    const savedIds = new Set(saved.map((user) => user.id));
+
+    const checks: Array<{ subscription: WebhookSubscription; candidate: UserProfile }> = [];
+    for (const subscription of subscriptions) {
+      const subscriber = byId.get(subscription.userId);
+      if (!subscriber) {
+        continue;
+      }
+      const candidates = savedIds.has(subscriber.id)
+        ? users.filter((user) => user.id !== subscriber.id)
+        : saved.filter((user) => user.id !== subscriber.id);
+      candidates.forEach((candidate) => checks.push({ subscription, candidate }));
+    }
+
+    const scores = await matchingEngine.scorePairs(
+      checks.map(({ subscription, candidate }): [UserProfile, UserProfile] => [byId.get(subscription.userId)!, candidate])
+    );
+
+    const excluded = new Map<string, Set<string>>();
+    for (const [i, { subscription, candidate }] of checks.entries()) {
+      const matchScore = scores[i]!;
+      if (matchScore.totalScore < subscription.minScore) {
+        await webhookRepository.setNotified(subscription.id, candidate.id, false);
+        continue;
+      }
+      if (await webhookRepository.wasNotified(subscription.id, candidate.id)) {
+        continue;
+      }
+
+      if (!excluded.has(subscription.userId)) {
+        excluded.set(subscription.userId, (await matchRequestService.getRelationships(subscription.userId)).excludedUserIds);
+      }
+      if (excluded.get(subscription.userId)!.has(candidate.id)) {
+        continue;
+      }
+
+      await webhookRepository.setNotified(subscription.id, candidate.id, true);
+      await this.notify(subscription, candidate, matchScore);
+    }
+  }
+
+  private async forgetUser(userId: string): Promise<void> {
+    for (const subscription of await webhookRepository.getSubscriptions()) {
+      if (subscription.userId === userId) {
+        await webhookRepository.deleteSubscription(subscription.id);
+      }
+    }
+    await webhookRepository.forgetCandidate(userId);
+  }
+
+  private async notify(subscription: WebhookSubscription, candidate: UserProfile, matchScore: MatchScore): Promise<void> {
+    const id = randomUUID();
+    const now = new Date();
+    const payload: MatchFoundPayload = {
+      event: 'match.found',
+      deliveryId: id,
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      candidate: { id: candidate.id, username: candidate.username },
+      matchScore,
+      occurredAt: now.toISOString(),
+    };
+
+    const delivery = await webhookRepository.saveDelivery({
+      id,
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      candidateId: candidate.id,
+      payload,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+    });
+
+    // Delivery runs outside the queue so a slow receiver doesn't hold up other checks
+    this.attempt(delivery).catch((error) => console.error('Failed to deliver webhook:', error));
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const subscription = await webhookRepository.getSubscription(delivery.subscriptionId);
+    if (!subscription) {
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempt: WebhookAttempt = { attemptedAt: new Date(), durationMs: 0 };
+    let retryAfterMs = 0;
+
+    const { refused, lookup } = await resolveWebhookTarget(subscription.url, this.options.allowedHosts);
+    if (refused) {
+      attempt.error = `Refused: ${refused}`;
+      await webhookRepository.saveDelivery({
+        ...delivery,
+        status: 'failed',
+        attempts: [...delivery.attempts, attempt],
+        nextAttemptAt: null,
+      });
+      return;
+    }
+
+    try {
+      const response = await this.post(subscription.url, body, lookup, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'matching-engine-webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.payload.event,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signPayload(subscription.secret, timestamp, body),
+      });
+      attempt.statusCode = response.statusCode;
+      retryAfterMs = (Number(response.retryAfter) || 0) * 1000;
+    } catch (error) {
+      attempt.error = (error as Error).message;
+    }
+    attempt.durationMs = Date.now() - attempt.attemptedAt.getTime();
+
+    const attempts = [...delivery.attempts, attempt];
+    const succeeded = attempt.statusCode !== undefined && attempt.statusCode >= 200 && attempt.statusCode < 300;
+    const retryable = attempt.statusCode === undefined || attempt.statusCode >= 500 || RETRYABLE_STATUSES.has(attempt.statusCode);
+
+    if (succeeded) {
+      await webhookRepository.saveDelivery({
+        ...delivery,
+        status: 'delivered',
+        attempts,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+      return;
+    }
+
+    if (!retryable || attempts.length >= this.options.maxAttempts) {
+      await webhookRepository.saveDelivery({ ...delivery, status: 'failed', attempts, nextAttemptAt: null });
+      return;
+    }
+
+    const delay = Math.max(this.options.retryBaseMs * 2 ** (attempts.length - 1), retryAfterMs);
+    const next = await webhookRepository.saveDelivery({
+      ...delivery,
+      attempts,
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+
+    this.schedule(next, delay);
+  }
+
+  private schedule(delivery: WebhookDelivery, delay: number): void {
+    const timer = setTimeout(() => {
+      this.retries.delete(timer);
+      this.attempt(delivery).catch((error) => console.error('Failed to retry webhook delivery:', error));
+    }, delay);
+    timer.unref();
+    this.retries.add(timer);
+  }
+
+  /**
+   * POST a body without following redirects, connecting through lookup when given
+   * Each attempt opens its own connection, so a pooled socket can't bypass the pinned addresses
+   */
+  private post(
+    url: string,
+    body: string,
+    lookup: LookupFunction | undefined,
+    headers: Record<string, string>
+  ): Promise<{ statusCode: number; retryAfter: string | undefined }> {
+    const send = new URL(url).protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+      const request = send(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        agent: false,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+        ...(lookup && { lookup }),
+      }, (response) => {
+        response.resume();
+        const retryAfter = response.headers['retry-after'];
+        resolve({ statusCode: response.statusCode ?? 0, retryAfter });
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  private toPublic(subscription: WebhookSubscription): PublicWebhookSubscription {
+    const { secret: _secret, ...rest } = subscription;
+    return rest;
+  }
+}
+
+// Singleton instance
+export const webhookService = new WebhookService({
+  maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5,
+  retryBaseMs: Number(process.env.WEBHOOK_RETRY_BASE_MS) || 2000,
+  timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 5000,
+  allowedHosts: parseAllowedHosts(process.env.WEBHOOK_ALLOWED_HOSTS),
+});
@@ -0,0 +1,36 @@
+/**
+ * Webhook signatures
+ * Each POST carries X-Webhook-Timestamp (unix seconds) and
+ * X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>" keyed by the subscription secret>
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a received signature; old timestamps are rejected so captured requests can't be replayed
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const sentAt = Number(timestamp);
+  if (!signature || !Number.isInteger(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, sentAt, body));
+  const provided = Buffer.from(signature);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,136 @@
+/**
+ * Webhook targets
+ * Webhook URLs are chosen by API callers, so requests to them must not reach the
+ * service's own network: loopback, private (RFC 1918, unique local), link-local
+ * (including cloud metadata at 169.254.169.254), carrier-grade NAT, multicast and
+ * reserved addresses are refused. Hosts listed in WEBHOOK_ALLOWED_HOSTS skip the check.
+ *
+ * A request must connect to the addresses that were checked, not resolve the host
+ * again: DNS could answer differently the second time (rebinding). resolveWebhookTarget
+ * returns a lookup function pinned to the checked addresses for the request to use.
+ */
+
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+
+export interface WebhookTarget {
+  refused: string | null; // Why the URL may not be called
+  lookup?: LookupFunction; // Resolves the host to the checked addresses; unset for IP literals and allowed hosts
+}
+
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64, embeds an IPv4 address
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return blocked.check(address, 'ipv4');
+  }
+  if (family !== 6) {
+    return true;
+  }
+
+  // IPv4-mapped (::ffff:10.0.0.1) and IPv4-compatible addresses are judged by their IPv4 part
+  const mapped = /^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  return mapped !== undefined ? blocked.check(mapped, 'ipv4') : blocked.check(address, 'ipv6');
+}
+
+/**
+ * Why a webhook URL may not be called, or null when it may
+ * Every address the host resolves to must be public, unless the host is allowed
+ */
+export async function checkWebhookTarget(url: string, allowedHosts: ReadonlySet<string>): Promise<string | null> {
+  return (await resolveWebhookTarget(url, allowedHosts)).refused;
+}
+
+/**
+ * Check a webhook URL and pin its host to the addresses that passed
+ */
+export async function resolveWebhookTarget(url: string, allowedHosts: ReadonlySet<string>): Promise<WebhookTarget> {
+  const { hostname } = new URL(url);
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '').toLowerCase();
+
+  if (allowedHosts.has(host)) {
+    return { refused: null };
+  }
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return { refused: `${host} is a loopback host` };
+  }
+  if (isIP(host)) {
+    return { refused: isPrivateAddress(host) ? `${host} resolves to ${host}, which is not a public address` : null };
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return { refused: `${host} could not be resolved` };
+  }
+
+  const denied = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (denied) {
+    return { refused: `${host} resolves to ${denied.address}, which is not a public address` };
+  }
+  return { refused: null, lookup: pinnedLookup(addresses) };
+}
+
+/**
+ * A lookup function that answers with fixed addresses, whatever the host
+ */
+export function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (hostname, options, callback) => {
+    const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family;
+    const matching = family ? addresses.filter((entry) => entry.family === family) : addresses;
+    const [first] = matching;
+
+    if (!first) {
+      const error: NodeJS.ErrnoException = new Error(`${hostname} has no IPv${family} address`);
+      error.code = 'ENOTFOUND';
+      callback(error, '');
+    } else if (options.all) {
+      callback(null, matching);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  };
+}
+
+/**
+ * Hosts exempt from the check, from a comma-separated list
+ */
+export function parseAllowedHosts(value: string | undefined): Set<string> {
+  return new Set(
+    (value ?? '')
+      .split(',')
+      .map((host) => host.trim().replace(/^\[(.*)\]$/, '$1').toLowerCase())
+      .filter(Boolean)
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Weights service
+ * Provides the default matching weights: those trained by the train-weights
+ * command when a weights file exists at MATCHING_WEIGHTS_PATH, otherwise the
+ * hand-picked DEFAULT_WEIGHTS (version 0)
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DEFAULT_WEIGHTS, type MatchingWeights } from '../types/user.types.js';
+import type { WeightsFile } from '../types/outcome.types.js';
+
+const WEIGHT_KEYS = ['w1', 'w2', 'w3', 'w4'] as const;
+
+export class WeightsService {
+  private active: WeightsFile | null = null;
+
+  constructor(readonly filePath: string | null) {}
+
+  /**
+   * Load the trained weights; a missing or invalid file keeps the built-in defaults
+   */
+  async initialize(): Promise<void> {
+    this.active = null;
+
+    try {
+      const file = await this.read();
+      if (file) {
+        this.active = file;
+        console.log(`Loaded matching weights v${file.version} from ${this.filePath}`);
+      }
+    } catch (error) {
+      console.warn(`Ignoring matching weights at ${this.filePath}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Weights used when a request doesn't set its own
+   */
+  getDefaultWeights(): MatchingWeights {
+    return this.active?.weights ?? DEFAULT_WEIGHTS;
+  }
+
+  /**
+   * Version of the default weights; 0 for the built-in defaults
+   */
+  getVersion(): number {
+    return this.active?.version ?? 0;
+  }
+
+  /**
+   * The active weights file, or a description of the built-in defaults
+   */
+  getActive(): WeightsFile & { source: 'file' | 'built-in' } {
+    return this.active
+      ? { ...this.active, source: 'file' }
+      : { version: 0, weights: DEFAULT_WEIGHTS, trainedAt: '', source: 'built-in' };
+  }
+
+  /**
+   * Read and check the weights file; null when there is none
+   */
+  async read(): Promise<WeightsFile | null> {
+    if (!this.filePath) {
+      return null;
+    }
+
+    let raw: Partial<WeightsFile>;
+    try {
+      raw = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    if (!Number.isInteger(raw.version) || raw.version! < 1) {
+      throw new Error('version must be a positive integer');
+    }
+    const weights = raw.weights;
+    if (!weights || WEIGHT_KEYS.some((key) => !Number.isFinite(weights[key]) || weights[key] < 0)) {
+      throw new Error('weights must have non-negative w1, w2, w3 and w4');
+    }
+    const sum = WEIGHT_KEYS.reduce((total, key) => total + weights[key], 0);
+    if (sum <= 0) {
+      throw new Error('weights must include at least one positive weight');
+    }
+
+    return raw as WeightsFile;
+  }
+
+  /**
+   * Write a new weights file, keeping a copy per version next to it
+   * (matching-weights.json → matching-weights.v3.json)
+   */
+  async write(file: WeightsFile): Promise<string> {
+    if (!this.filePath) {
+      throw new Error('MATCHING_WEIGHTS_PATH is off');
+    }
+
+    const content = JSON.stringify(file, null, 2) + '\n';
+    const { dir, name, ext } = path.parse(this.filePath);
+    const archivePath = path.join(dir, `${name}.v${file.version}${ext}`);
+
+    await mkdir(dir || '.', { recursive: true });
+    await writeFile(archivePath, content);
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, content);
+    await rename(tempPath, this.filePath);
+
+    return archivePath;
+  }
+}
+
+const weightsPathEnv = process.env.MATCHING_WEIGHTS_PATH;
+
+// Singleton instance
+export const weightsService = new WeightsService(
+  weightsPathEnv === 'off' ? null : weightsPathEnv ?? '.data/matching-weights.json'
+);
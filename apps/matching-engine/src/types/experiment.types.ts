@@ -0,0 +1,56 @@
+/**
+ * Matching experiment types
+ */
+
+import type { MatchingConfig } from './matching.types.js';
+
+/**
+ * - running: users are assigned to variants on /find
+ * - stopped: no longer assigned; results stay readable
+ */
+export type ExperimentStatus = 'running' | 'stopped';
+
+export interface ExperimentVariant {
+  name: string; // e.g. 'control', 'language-heavy'
+  weight: number; // Share of traffic relative to the other variants
+  config: Partial<MatchingConfig>; // Applied over the request's config on /find
+}
+
+export interface Experiment {
+  id: string;
+  description?: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The experiment and variant a user was assigned to
+ */
+export interface ExperimentAssignment {
+  experimentId: string;
+  variant: string;
+}
+
+/**
+ * Outcomes of the matches shown under one variant
+ * A shown pair counts once, however often it was shown
+ */
+export interface VariantResults {
+  variant: string;
+  users: number; // Users assigned who searched
+  impressions: number; // Matches shown
+  shownPairs: number;
+  acceptedPairs: number; // Accepted or completed after being shown
+  declinedPairs: number;
+  acceptanceRate: number | null; // acceptedPairs / shownPairs
+  responseAcceptanceRate: number | null; // acceptedPairs / (acceptedPairs + declinedPairs)
+}
+
+export interface ExperimentResults {
+  experimentId: string;
+  status: ExperimentStatus;
+  variants: VariantResults[];
+  calculatedAt: Date;
+}
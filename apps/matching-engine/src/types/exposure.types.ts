@@ -0,0 +1,51 @@
+/**
+ * Exposure tracking types
+ */
+
+/**
+ * - shown: matches actually returned
+ * - baseline: matches the unadjusted scores would have returned
+ */
+export type ExposureSeries = 'shown' | 'baseline';
+
+/**
+ * How exposure is spread over a set of users
+ */
+export interface ExposureDistribution {
+  users: number;
+  total: number; // Sum of decayed exposure
+  mean: number;
+  gini: number; // 0 when everyone is shown equally, towards 1 when a few users get it all
+  topDecileShare: number; // Share of all exposure going to the most exposed 10% of users
+  unexposedShare: number; // Share of users with exposure below 0.5: never shown, or once over a half-life ago
+  percentiles: {
+    p50: number;
+    p90: number;
+    p99: number;
+    max: number;
+  };
+}
+
+/**
+ * Exposure before (baseline) and after (shown) fairness adjustments
+ */
+export interface ExposureMetrics {
+  halfLifeDays: number;
+  trackingSince: Date; // Oldest impression counted
+  all: Record<ExposureSeries, ExposureDistribution>;
+  newUsers: {
+    newUserDays: number;
+    users: number;
+  } & Record<ExposureSeries, ExposureDistribution>;
+}
+
+export interface UserExposure {
+  userId: string;
+  shown: number;
+  baseline: number;
+  halfLifeDays: number;
+}
+
+export interface ExposureQuery {
+  newUserDays?: number; // Default 14
+}
@@ -0,0 +1,32 @@
+/**
+ * Session feedback and reputation types
+ */
+
+/**
+ * Feedback one user leaves about another after a swap session
+ * Each participant can rate the other once per accepted match request
+ */
+export interface SessionFeedback {
+  id: string;
+  matchRequestId: string; // Accepted match request the swap came from
+  fromUserId: string; // Author
+  toUserId: string; // User being rated
+  rating: number; // 1-5
+  noShow: boolean; // The rated user did not turn up
+  tags: string[]; // e.g. ['patient', 'well-prepared']
+  comment?: string;
+  createdAt: Date;
+}
+
+/**
+ * Trust derived from the feedback a user has received
+ */
+export interface ReputationSummary {
+  userId: string;
+  trustScore: number; // 0-1
+  ratingCount: number;
+  averageRating: number | null; // Raw 1-5 average, no decay or prior
+  noShowCount: number;
+  tags: Record<string, number>; // Tag → number of times received
+  calculatedAt: Date;
+}
@@ -0,0 +1,45 @@
+/**
+ * Match request lifecycle types
+ */
+
+/**
+ * - pending: sent, waiting for the recipient
+ * - accepted: both users are swapping
+ * - declined: the recipient said no
+ * - expired: nobody responded in time
+ * - cancelled: the sender withdrew, or one user blocked the other
+ */
+export type MatchRequestStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+export interface MatchRequest {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  status: MatchRequestStatus;
+  message?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  respondedAt?: Date; // When the status left pending
+}
+
+export interface UserBlock {
+  userId: string; // User who blocked
+  blockedUserId: string;
+  createdAt: Date;
+}
+
+/**
+ * A pending request between a user and a candidate, from the user's point of view
+ */
+export interface PendingRequestMarker {
+  requestId: string;
+  direction: 'incoming' | 'outgoing';
+}
+
+/**
+ * How a user's existing requests and blocks affect their matches
+ */
+export interface MatchRelationships {
+  excludedUserIds: Set<string>; // Blocked either way, declined either way, or already swapping
+  pending: Map<string, PendingRequestMarker>; // By other user's id
+}
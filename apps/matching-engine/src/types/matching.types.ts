@@ -2,13 +2,72 @@
  * Matching algorithm types and interfaces
  */
 
-import type { UserProfile, MatchResult, MatchingWeights } from './user.types.js';
+import type { UserProfile, UserFilters, MatchResult, MatchScore, MatchingWeights, Skill, LanguageProficiency } from './user.types.js';
+import type { ScorerWeights } from './scorer.types.js';
+import type { ExperimentAssignment } from './experiment.types.js';
+
+/**
+ * How the two semantic directions are combined
+ * - off: weighted sum of both directions (w1 / w2)
+ * - strict: like off, but both directions must reach reciprocityThreshold
+ * - balanced: both directions are combined with a mean that penalizes one-sided matches
+ */
+export type ReciprocityMode = 'off' | 'strict' | 'balanced';
+
+export type ReciprocityMean = 'geometric' | 'harmonic';
+
+export interface ReciprocitySettings {
+  mode: ReciprocityMode;
+  threshold: number; // strict: minimum score for each direction
+  mean: ReciprocityMean; // balanced: how both directions are combined
+}
+
+/**
+ * How an offer's level is weighted against a want
+ * - gap-aware: compare the offer with the learner's current and target level
+ * - offer-only: weight by the offer's own level (legacy behaviour)
+ */
+export type LevelGapPolicy = 'gap-aware' | 'offer-only';
+
+/**
+ * Where an offer's level falls relative to a want
+ */
+export type LevelFit = 'above-target' | 'at-target' | 'below-target' | 'at-current' | 'below-current';
 
 export interface MatchingConfig {
-  weights: MatchingWeights;
+  weights: MatchingWeights; // Legacy weights: semantic = w1 + w2, language = w3, trust = w4
+  scorerWeights?: ScorerWeights; // Weights by scorer id, override the legacy weights
   minMatchScore?: number; // Minimum score to consider a match (0-1)
   maxResults?: number; // Maximum number of matches to return
-  enableBidirectionalMatching?: boolean; // Ensure both directions match
+  enableBidirectionalMatching?: boolean; // Shorthand for reciprocity: 'strict'
+  reciprocity?: ReciprocityMode; // Takes precedence over enableBidirectionalMatching
+  reciprocityThreshold?: number; // Default 0.3
+  reciprocityMean?: ReciprocityMean; // Default 'geometric'
+  candidatePoolSize?: number; // Max candidates retrieved from the ANN index before full scoring
+  minAvailabilityOverlapHours?: number; // Drop pairs free together fewer hours per week
+  levelGapPolicy?: LevelGapPolicy; // Default 'gap-aware'
+  diversity?: DiversityConfig; // Re-rank results for variety in the skills matched
+  fairness?: FairnessConfig; // Boost under-exposed and new candidates
+}
+
+/**
+ * Maximal marginal relevance re-ranking:
+ * next = argmax λ * totalScore - (1 - λ) * max similarity to the results already picked
+ */
+export interface DiversityConfig {
+  lambda: number; // 0-1; 1 keeps the score order, lower values favour variety
+  maxPerCategory?: number; // Cap on results sharing one matched skill category
+}
+
+/**
+ * Exploration bonus added to the totalScore of matches above minMatchScore:
+ * bonus = explorationBonus * max(0, 1 - exposure / targetExposure), or the full
+ * explorationBonus for accounts younger than newUserDays
+ */
+export interface FairnessConfig {
+  explorationBonus: number; // 0-1; the largest bonus a match can get
+  targetExposure?: number; // Default: mean exposure of the candidates
+  newUserDays?: number; // Default 14
 }
 
 export interface SemanticSimilarityResult {
@@ -16,10 +75,56 @@ export interface SemanticSimilarityResult {
   explanation?: string;
 }
 
-export interface LanguageSimilarityResult {
+/**
+ * Precomputed skill embeddings, keyed by the skill's text representation
+ */
+export type SkillEmbeddings = Map<string, number[]>;
+
+/**
+ * An offered skill paired with the wanted skill it matches best
+ */
+export interface SkillPairMatch {
+  offer: Skill;
+  want: Skill;
+  similarity: number; // 0-1
+  levelWeight: number; // Multiplier from the offer's level relative to the want
+  levelFit: LevelFit;
+}
+
+/**
+ * One direction of a match: how well one user's offers cover another's wants
+ */
+export interface DirectionalMatch {
   score: number; // 0-1
-  commonLanguages: string[];
+  pairs: SkillPairMatch[];
+}
+
+export interface TeachingEdge extends DirectionalMatch {
+  teacher: UserProfile;
+  learner: UserProfile;
+}
+
+export interface LanguageSimilarityResult {
+  score: number; // 0-1, value of the best mutual proficiency
+  commonLanguages: string[]; // Primary language subtags, e.g. 'en'
   totalLanguages: number;
+  sharedLanguages: SharedLanguage[]; // Best mutual proficiency first
+}
+
+/**
+ * A language both users speak; region variants count as the same language
+ */
+export interface SharedLanguage {
+  language: string; // Primary language subtag
+  proficiencyA: LanguageProficiency;
+  proficiencyB: LanguageProficiency;
+  mutualProficiency: LanguageProficiency; // The lower of the two
+}
+
+export interface AvailabilityOverlapResult {
+  score: number; // 0-1
+  overlapHours: number | null; // Hours per week both users are free, null when unknown
+  known: boolean; // False when either user has no availability windows
 }
 
 export interface TrustScoreResult {
@@ -33,12 +138,154 @@ export interface TrustScoreResult {
 
 export interface MatchingRequest {
   userId: string;
-  config?: Partial<MatchingConfig>;
+  config?: Partial<MatchingConfig>; // maxResults is the page size
+  filters?: UserFilters; // Applied to candidates before scoring
+  cursor?: string; // nextCursor from the previous page
+  live?: boolean; // Score now instead of serving the precomputed match index
+}
+
+/**
+ * Query of GET /api/matching/find/stream; only flat config fields fit in a query string
+ */
+export interface MatchStreamQuery extends UserFilters, Partial<Pick<
+  MatchingConfig,
+  'minMatchScore' | 'maxResults' | 'reciprocity' | 'reciprocityThreshold' | 'reciprocityMean' |
+  'levelGapPolicy' | 'minAvailabilityOverlapHours'
+>> {
+  userId: string;
+  chunkSize?: number; // Candidates scored between progress events
+}
+
+export interface ScoreRequest extends Partial<Pick<
+  MatchingConfig,
+  'weights' | 'scorerWeights' | 'reciprocity' | 'reciprocityThreshold' | 'reciprocityMean' | 'levelGapPolicy'
+>> {
+  userIdA: string;
+  userIdB: string;
+}
+
+export interface RecallRequest extends Partial<Pick<MatchingConfig, 'weights' | 'scorerWeights'>> {
+  userId: string;
+  k?: number; // Default 10
+  poolSize?: number; // Default 200
+}
+
+/**
+ * Position after the last match of a page; matches are ordered by
+ * totalScore descending, then candidate id ascending
+ */
+export interface MatchCursor {
+  score: number;
+  userId: string;
+}
+
+export interface MatchPage {
+  matches: MatchResult[];
+  hasMore: boolean;
+  baseline?: MatchResult[]; // With fairness: the page the unadjusted scores would have given
+}
+
+/**
+ * Provisional results while a search is still scoring
+ */
+export interface MatchProgress {
+  matches: MatchResult[]; // Best maxResults so far
+  scored: number; // Candidates scored so far
+  total: number;
+}
+
+export interface MatchSearchOptions {
+  chunkSize?: number; // Candidates scored per chunk (default: all at once)
+  signal?: AbortSignal; // Checked between chunks; aborting rejects with its reason
+  onProgress?: (progress: MatchProgress) => void; // Called after each chunk
+}
+
+export interface CandidateRetrieval {
+  strategy: 'exhaustive' | 'ann';
+  scoredCandidates: number; // Candidates that went through full scoring
 }
 
 export interface MatchingResponse {
   matches: MatchResult[];
   totalCandidates: number;
   processingTime: number; // milliseconds
+  retrieval?: CandidateRetrieval;
+  nextCursor?: string | null; // Pass as cursor to fetch the next page; null on the last page
+  experiment?: ExperimentAssignment; // Set when a running experiment chose the config
+  source?: 'index' | 'live'; // Precomputed match index or scored for this request
+  computedAt?: Date; // When the served index entry was last updated (source 'index')
+}
+
+export interface CandidateRecallReport {
+  k: number;
+  poolSize: number;
+  recall: number; // 0-1, share of the exhaustive top-k found via ANN retrieval
+  exhaustiveIds: string[];
+  approximateIds: string[];
+  exhaustiveTime: number; // milliseconds
+  approximateTime: number; // milliseconds
+}
+
+
+export interface PairScore {
+  userA: UserProfile;
+  userB: UserProfile;
+  matchScore: MatchScore;
+}
+
+export type PairingMode = 'max-weight' | 'stable';
+
+export interface PairingRequest {
+  mode?: PairingMode;
+  userIds?: string[]; // Restrict pairing to these users (default: everyone)
+  config?: Partial<Pick<MatchingConfig, 'weights' | 'scorerWeights' | 'minMatchScore'>>;
+}
+
+export interface SwapPair {
+  userA: { id: string; username: string };
+  userB: { id: string; username: string };
+  matchScore: MatchScore;
+}
+
+export interface PairingResponse {
+  mode: PairingMode;
+  pairs: SwapPair[];
+  totalUtility: number; // Sum of totalScore over all pairs
+  unmatchedUserIds: string[];
+  totalUsers: number;
+  processingTime: number; // milliseconds
 }
 
+export interface CycleRequest {
+  userId?: string; // Only return cycles that include this user
+  minLength?: number; // Default 3
+  maxLength?: number; // Default 5
+  minEdgeScore?: number; // Minimum directional score for a "can teach" edge
+  maxEdgesPerUser?: number; // Keep only each user's strongest outgoing edges
+  maxResults?: number;
+  levelGapPolicy?: LevelGapPolicy; // Default 'gap-aware'
+}
+
+export interface CycleEdge {
+  from: { id: string; username: string };
+  to: { id: string; username: string };
+  score: number; // Directional semantic score from → to
+  offer: Skill; // Skill `from` teaches
+  want: Skill; // Skill `to` wants
+  similarity: number;
+}
+
+export interface SwapCycle {
+  members: Array<{ id: string; username: string }>;
+  edges: CycleEdge[];
+  weakestLink: number; // Lowest edge score, used for ranking
+  length: number;
+}
+
+export interface CycleResponse {
+  cycles: SwapCycle[];
+  totalCycles: number; // Cycles found before limiting
+  truncated: boolean; // Enumeration stopped at its cap, so totalCycles is a lower bound and better rings may be missing
+  totalUsers: number;
+  processingTime: number; // milliseconds
+}
@@ -0,0 +1,96 @@
+/**
+ * Match outcome log and learned weight types
+ */
+
+import type { MatchingWeights } from './user.types.js';
+import type { ExperimentAssignment } from './experiment.types.js';
+
+/**
+ * What eventually happened between two users after a match was shown
+ * - accepted: a match request between them was accepted
+ * - declined: a match request between them was declined
+ * - completed: one of them left feedback on a finished swap session
+ */
+export type MatchOutcome = 'accepted' | 'declined' | 'completed';
+
+/**
+ * The score components of a match, one per legacy weight
+ */
+export interface MatchFeatures {
+  semanticScoreAtoB: number; // w1
+  semanticScoreBtoA: number; // w2
+  languageScore: number; // w3
+  trustScore: number; // w4
+}
+
+/**
+ * A match shown to a user in /find results
+ */
+export interface MatchImpression {
+  type: 'impression';
+  id: string;
+  userId: string; // User who searched
+  candidateId: string; // User who was shown
+  rank: number; // 1-based position on the results page
+  totalScore: number;
+  features: MatchFeatures;
+  weightsVersion: number | null; // Version of the default weights used; null when the request or variant set its own
+  experiment?: ExperimentAssignment; // Variant the searching user was assigned to
+  shownAt: string; // ISO 8601
+}
+
+/**
+ * An outcome between two users, in either direction
+ */
+export interface MatchOutcomeEvent {
+  type: 'outcome';
+  userIdA: string;
+  userIdB: string;
+  outcome: MatchOutcome;
+  recordedAt: string; // ISO 8601
+}
+
+export type OutcomeLogEntry = MatchImpression | MatchOutcomeEvent;
+
+/**
+ * One shown match with its eventual label (1 for accepted/completed, 0 for declined)
+ */
+export interface TrainingExample {
+  userId: string;
+  candidateId: string;
+  features: MatchFeatures;
+  totalScore: number; // Score the match was shown with
+  label: 0 | 1;
+  shownAt: string;
+}
+
+/**
+ * Held-out ranking quality of a set of weights
+ */
+export interface RankingMetrics {
+  auc: number | null; // Probability a positive is ranked above a negative; null without both labels
+  ndcgAtK: number | null; // Mean NDCG@k over users with at least one positive
+  mrr: number | null; // Mean reciprocal rank of the first positive, same users
+  evaluatedUsers: number;
+}
+
+export interface TrainingReport {
+  examples: number;
+  positives: number;
+  trainExamples: number;
+  holdoutExamples: number;
+  k: number;
+  logLoss: number | null; // Held-out log loss of the fitted model
+  learned: RankingMetrics;
+  baseline: RankingMetrics; // The logged scores, i.e. the ranking users were shown
+}
+
+/**
+ * A trained weights file, loaded from MATCHING_WEIGHTS_PATH
+ */
+export interface WeightsFile {
+  version: number; // Increases with every training run
+  weights: MatchingWeights; // Sum to 1
+  trainedAt: string; // ISO 8601
+  report?: TrainingReport;
+}
@@ -0,0 +1,48 @@
+/**
+ * Scorer plugin types
+ * Each scorer contributes one weighted term to the total match score
+ */
+
+import type { UserProfile } from './user.types.js';
+import type { LevelGapPolicy, ReciprocitySettings, SkillEmbeddings } from './matching.types.js';
+
+export interface ScorerResult<TDetails = unknown> {
+  score: number; // 0-1
+  details: TDetails;
+}
+
+/**
+ * Shared inputs prepared once per matching run
+ */
+export interface ScoringContext {
+  embeddings: SkillEmbeddings;
+  reciprocity: ReciprocitySettings;
+  directionWeights: {
+    aToB: number; // Share of the semantic term for A's offers → B's wants (w1)
+    bToA: number; // Share of the semantic term for B's offers → A's wants (w2)
+  };
+  levelGapPolicy: LevelGapPolicy;
+}
+
+export interface MatchScorer<TDetails = unknown> {
+  id: string; // Used as the weight name in MatchingConfig.scorerWeights
+  description: string;
+  defaultWeight: number;
+  fields?: ReadonlyArray<keyof UserProfile>; // Profile fields score() reads; leave out when unknown, so every save rescores
+  score(userA: UserProfile, userB: UserProfile, context: ScoringContext): ScorerResult<TDetails>;
+}
+
+/**
+ * Weights by scorer id
+ */
+export type ScorerWeights = Record<string, number>;
+
+/**
+ * Fully resolved scoring settings for one matching run
+ */
+export interface ScoringOptions {
+  weights: ScorerWeights;
+  reciprocity: ReciprocitySettings;
+  directionWeights: ScoringContext['directionWeights'];
+  levelGapPolicy: LevelGapPolicy;
+}
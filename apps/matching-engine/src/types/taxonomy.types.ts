@@ -0,0 +1,34 @@
+/**
+ * Skill taxonomy types
+ * Canonical skills with aliases, grouped into a category hierarchy
+ */
+
+export interface TaxonomyCategory {
+  id: string; // e.g. 'web-development'
+  name: string;
+  parent?: string; // Parent category id
+  aliases?: string[];
+}
+
+export interface TaxonomySkill {
+  id: string; // e.g. 'javascript'
+  name: string; // Canonical display name
+  category: string; // Category id
+  aliases?: string[]; // Alternative spellings, abbreviations
+}
+
+/**
+ * File format accepted by SKILL_TAXONOMY_PATH
+ */
+export interface SkillTaxonomyData {
+  version: number;
+  categories: TaxonomyCategory[];
+  skills: TaxonomySkill[];
+}
+
+export interface SkillSuggestion {
+  id: string;
+  name: string;
+  category: string;
+  matchedAlias?: string; // Alias the query matched, when not the canonical name
+}
@@ -0,0 +1,37 @@
+/**
+ * Bulk user import and export types
+ */
+
+import type { FieldError } from '../validation/errors.js';
+
+/**
+ * - jsonl: one UserProfile JSON object per line
+ * - csv: one profile per row, skills flattened into numbered columns
+ */
+export type UserTransferFormat = 'jsonl' | 'csv';
+
+/**
+ * - create: rows whose id already exists are rejected
+ * - upsert: existing profiles are replaced
+ */
+export type ImportMode = 'create' | 'upsert';
+
+export interface ImportOptions {
+  format: UserTransferFormat;
+  mode: ImportMode;
+  dryRun: boolean; // Validate and report without saving
+}
+
+export interface ImportLineError {
+  line: number; // 1-based line in the file where the record starts
+  userId?: string; // When the record had a usable id
+  errors: FieldError[];
+}
+
+export interface ImportReport extends ImportOptions {
+  records: number;
+  created: number; // Saved as new profiles (would be, in a dry run)
+  updated: number; // Replaced existing profiles (would be, in a dry run)
+  failed: number;
+  errors: ImportLineError[];
+}
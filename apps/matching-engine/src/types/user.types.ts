@@ -2,24 +2,66 @@
  * User profile types for the matching engine
  */
 
+import type { LevelFit, LevelGapPolicy } from './matching.types.js';
+import type { PendingRequestMarker } from './match-request.types.js';
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export const SKILL_LEVELS: SkillLevel[] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
 export interface Skill {
   id: string;
   name: string;
   description?: string;
-  level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
+  level: SkillLevel; // Offers: teaching level. Wants: the learner's current level
+  targetLevel?: SkillLevel; // Wants only: level the learner is aiming for (default: one above level)
   category?: string;
+  canonicalId?: string; // Taxonomy skill id, set when the name is recognised
+}
+
+/**
+ * CEFR proficiency, plus native speakers
+ */
+export type LanguageProficiency = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2' | 'native';
+
+export interface LanguageSkill {
+  tag: string; // BCP-47 tag, e.g. 'en-US', 'pt-BR', 'zh-Hans'
+  proficiency: LanguageProficiency;
+}
+
+/**
+ * A weekly window in the user's local time
+ */
+export interface AvailabilityWindow {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:MM
+  end: string; // HH:MM, after start ('24:00' for end of day)
 }
 
 export interface UserProfile {
   id: string;
   username: string;
   email: string;
-  languages: string[]; // e.g., ['en', 'es', 'fr']
+  languages: Array<string | LanguageSkill>; // e.g. [{ tag: 'en-US', proficiency: 'native' }] or legacy ['en', 'es']
   offers: Skill[]; // Skills the user can teach
   wants: Skill[]; // Skills the user wants to learn
-  trustScore: number; // 0-1 scale
+  trustScore: number; // 0-1 scale, derived from session feedback
+  timezone?: string; // IANA name, e.g. 'Europe/Madrid' (default: UTC)
+  availability?: AvailabilityWindow[]; // Weekly windows in local time
   createdAt: Date;
   updatedAt: Date;
+  lastActiveAt?: Date; // Last profile update or search (falls back to updatedAt)
+}
+
+/**
+ * Filters applied to users before scoring or listing
+ */
+export interface UserFilters {
+  category?: string; // Offers a skill in this category or a subcategory
+  minOfferLevel?: SkillLevel; // Offers a skill at this level or above (within category, if set)
+  language?: string; // Speaks this language (BCP-47 tag or name; region variants match)
+  minTrust?: number; // Derived trust score at least this
+  activeWithinDays?: number; // Active within the last N days
 }
 
 export interface MatchScore {
@@ -28,12 +70,40 @@ export interface MatchScore {
   semanticScoreBtoA: number; // B's offer → A's want
   languageScore: number;
   trustScore: number;
-  breakdown: {
-    w1: number; // weight for semanticScoreAtoB
-    w2: number; // weight for semanticScoreBtoA
-    w3: number; // weight for languageScore
-    w4: number; // weight for trustScore
+  breakdown: Record<string, number>; // Weight applied to each scorer, by scorer id
+  components: Record<string, ScoreComponent>; // Result of each scorer, by scorer id
+  reciprocity: {
+    mode: 'off' | 'strict' | 'balanced';
+    combinedSemanticScore: number; // Both directions combined as used in totalScore
   };
+  explanation: MatchExplanation;
+}
+
+export interface ScoreComponent {
+  score: number; // 0-1
+  weight: number;
+  details: unknown; // Scorer-specific details
+}
+
+export interface MatchedSkillPair {
+  offerSkill: Skill;
+  wantSkill: Skill;
+  similarity: number; // Raw semantic similarity (0-1)
+  levelWeight: number; // Multiplier from the offer's level relative to the want
+  levelFit: LevelFit;
+  direction: 'AtoB' | 'BtoA'; // AtoB: A teaches B, BtoA: B teaches A
+}
+
+export interface MatchExplanation {
+  matchedPairs: MatchedSkillPair[]; // Strongest pairs first
+  levelGapPolicy: LevelGapPolicy; // How levelWeight was derived
+  commonLanguages: string[];
+  trustFactors: {
+    userATrust: number;
+    userBTrust: number;
+    averageTrust: number;
+  };
+  summary: string; // Human-readable explanation
 }
 
 export interface MatchResult {
@@ -41,6 +111,28 @@ export interface MatchResult {
   userB: UserProfile;
   matchScore: MatchScore;
   matchedAt: Date;
+  pendingRequest?: PendingRequestMarker; // Set when a request between the two users is awaiting a response
+  diversity?: DiversityPlacement; // Set when the results were re-ranked for diversity
+  fairness?: FairnessAdjustment; // Set when the request asked for a fairness adjustment
+}
+
+/**
+ * Exploration bonus included in matchScore.totalScore
+ */
+export interface FairnessAdjustment {
+  baseScore: number; // totalScore before the bonus
+  bonus: number; // Added to baseScore, capped so the total stays within 1
+  exposure: number; // Candidate's decayed exposure when ranked
+  newAccount: boolean; // Got the full bonus as a new account
+}
+
+/**
+ * Where a re-ranked result would have been by score alone
+ */
+export interface DiversityPlacement {
+  relevanceRank: number; // 1-based position by totalScore
+  category: string | null; // Category of the skills this match was judged on
+  promoted: boolean; // Placed above its relevanceRank
 }
 
 export interface MatchingWeights {
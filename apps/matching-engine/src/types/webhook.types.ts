@@ -0,0 +1,54 @@
+/**
+ * Match webhook types
+ */
+
+import type { MatchScore } from './user.types.js';
+
+export interface WebhookSubscription {
+  id: string;
+  userId: string; // Subscriber; notified about candidates that match them
+  url: string; // http(s) callback receiving signed POSTs
+  minScore: number; // Only matches with totalScore at or above this are sent
+  secret: string; // HMAC key; returned once, when the subscription is created
+  createdAt: Date;
+}
+
+/**
+ * - pending: waiting for its first or next attempt
+ * - delivered: the receiver answered 2xx
+ * - failed: a non-retryable response, or out of attempts
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookAttempt {
+  attemptedAt: Date;
+  statusCode?: number; // Missing when the request itself failed
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Body of a match.found webhook
+ */
+export interface MatchFoundPayload {
+  event: 'match.found';
+  deliveryId: string;
+  subscriptionId: string;
+  userId: string;
+  candidate: { id: string; username: string };
+  matchScore: MatchScore;
+  occurredAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  userId: string;
+  candidateId: string;
+  payload: MatchFoundPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  nextAttemptAt: Date | null; // Set while pending
+  createdAt: Date;
+  deliveredAt?: Date;
+}
@@ -0,0 +1,84 @@
+/**
+ * API errors
+ * Every error response uses the same envelope:
+ *
+ * { "error": "Validation failed", "message": "...", "details": [{ "field": "offers[0].level", "message": "..." }] }
+ *
+ * details is only present for validation errors.
+ */
+
+import type { Response } from 'express';
+
+export interface FieldError {
+  field: string; // Path into the request, e.g. 'config.weights.w1'
+  message: string;
+}
+
+export interface ErrorEnvelope {
+  error: string;
+  message: string;
+  details?: FieldError[];
+}
+
+/**
+ * An error with the HTTP status and envelope it should be reported with
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    message: string,
+    readonly details?: FieldError[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  toJSON(): ErrorEnvelope {
+    return {
+      error: this.error,
+      message: this.message,
+      ...(this.details && { details: this.details }),
+    };
+  }
+}
+
+/**
+ * A request that failed schema validation, listing every invalid field
+ */
+export class ValidationError extends ApiError {
+  constructor(details: FieldError[]) {
+    super(
+      400,
+      'Validation failed',
+      details.length === 1
+        ? `${details[0]!.field || 'request'}: ${details[0]!.message}`
+        : `${details.length} fields are invalid`,
+      details
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(error: string, message: string) {
+    super(404, error, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Send an error response; unexpected errors are logged and reported as 500
+ */
+export function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof ApiError) {
+    res.status(error.status).json(error.toJSON());
+    return;
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    error: 'Internal server error',
+    message: fallbackMessage,
+  } satisfies ErrorEnvelope);
+}
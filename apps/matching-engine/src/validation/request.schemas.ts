@@ -0,0 +1,452 @@
+/**
+ * Request schemas for every API route
+ */
+
+import {
+  type Schema,
+  array,
+  boolean,
+  date,
+  fieldPath,
+  integer,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+} from './schema.js';
+import type { FieldError } from './errors.js';
+import { scorerRegistry, WEIGHT_SUM_TOLERANCE } from '../core/scorer.registry.js';
+import { decodeCursor } from '../core/cursor.js';
+import { availabilityService } from '../services/availability.service.js';
+import { languageService, LANGUAGE_PROFICIENCIES } from '../services/language.service.js';
+import type { FeedbackInput } from '../services/reputation.service.js';
+import type { ExperimentInput } from '../services/experiment.service.js';
+import type { WebhookInput } from '../services/webhook.service.js';
+import { SKILL_LEVELS } from '../types/user.types.js';
+import type {
+  AvailabilityWindow,
+  LanguageSkill,
+  MatchingWeights,
+  Skill,
+  UserFilters,
+} from '../types/user.types.js';
+import type {
+  CycleRequest,
+  DiversityConfig,
+  FairnessConfig,
+  LevelGapPolicy,
+  MatchCursor,
+  MatchingConfig,
+  MatchingRequest,
+  MatchStreamQuery,
+  PairingMode,
+  PairingRequest,
+  RecallRequest,
+  ReciprocityMean,
+  ReciprocityMode,
+  ScoreRequest,
+} from '../types/matching.types.js';
+import type { MatchRequestStatus } from '../types/match-request.types.js';
+import type { ExposureQuery } from '../types/exposure.types.js';
+import type { ExperimentVariant } from '../types/experiment.types.js';
+import type { ImportMode, ImportOptions, UserTransferFormat } from '../types/user-transfer.types.js';
+
+const MAX_PAGE_SIZE = 200;
+const MAX_SKILLS = 50;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 40;
+
+const RECIPROCITY_MODES: ReciprocityMode[] = ['off', 'strict', 'balanced'];
+const RECIPROCITY_MEANS: ReciprocityMean[] = ['geometric', 'harmonic'];
+const LEVEL_GAP_POLICIES: LevelGapPolicy[] = ['gap-aware', 'offer-only'];
+const PAIRING_MODES: PairingMode[] = ['max-weight', 'stable'];
+const MATCH_REQUEST_STATUSES: MatchRequestStatus[] = ['pending', 'accepted', 'declined', 'expired', 'cancelled'];
+const USER_TRANSFER_FORMATS: UserTransferFormat[] = ['jsonl', 'csv'];
+const IMPORT_MODES: ImportMode[] = ['create', 'upsert'];
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-_]*$/;
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+const id = () => string({ max: 200 });
+const score = () => number({ min: 0, max: 1 });
+
+// ---- Weights ----
+
+const weightsSchema = object<MatchingWeights>({
+  w1: number({ min: 0 }),
+  w2: number({ min: 0 }),
+  w3: number({ min: 0 }),
+  w4: number({ min: 0 }),
+});
+
+const scorerWeightsSchema = record(number({ min: 0 }));
+
+/**
+ * Scorer ids must be registered, and the resolved weights must not all be zero;
+ * under WEIGHT_SUM_POLICY=strict they must also sum to 1
+ */
+function checkWeights(
+  config: Partial<Pick<MatchingConfig, 'weights' | 'scorerWeights'>>,
+  path: string,
+  errors: FieldError[]
+): void {
+  const unknown = Object.keys(config.scorerWeights ?? {}).filter((scorerId) => !scorerRegistry.get(scorerId));
+  for (const scorerId of unknown) {
+    errors.push({
+      field: fieldPath(fieldPath(path, 'scorerWeights'), scorerId),
+      message: `is not a registered scorer (${scorerRegistry.list().map((scorer) => scorer.id).join(', ')})`,
+    });
+  }
+  if (unknown.length > 0 || (!config.weights && !config.scorerWeights)) {
+    return;
+  }
+
+  const field = fieldPath(path, config.scorerWeights ? 'scorerWeights' : 'weights');
+  const sum = Object.values(scorerRegistry.resolveRawWeights(config)).reduce((total, weight) => total + weight, 0);
+
+  if (sum <= 0) {
+    errors.push({ field, message: 'must include at least one positive weight' });
+  } else if (scorerRegistry.weightSumPolicy === 'strict' && Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    errors.push({ field, message: `must sum to 1, got ${Number(sum.toFixed(6))}` });
+  }
+}
+
+// ---- Users ----
+
+const skillSchema = (kind: 'offer' | 'want') => object<Skill>(
+  {
+    id: id(),
+    name: string({ max: 100 }),
+    description: optional(string({ min: 0, max: 1000 })),
+    level: oneOf(SKILL_LEVELS),
+    targetLevel: kind === 'want' ? optional(oneOf(SKILL_LEVELS)) : () => undefined,
+    category: optional(string({ max: 100 })),
+    canonicalId: () => undefined, // Set from the taxonomy on save
+  },
+  (skill, path, errors) => {
+    if (skill.targetLevel && SKILL_LEVELS.indexOf(skill.targetLevel) < SKILL_LEVELS.indexOf(skill.level)) {
+      errors.push({ field: fieldPath(path, 'targetLevel'), message: 'must not be below level' });
+    }
+  }
+);
+
+const languageSkillSchema = object<LanguageSkill>({
+  tag: refine(string(), (tag) => languageService.isValidTag(tag), 'must be a BCP-47 language tag, e.g. "en-US"'),
+  proficiency: oneOf(LANGUAGE_PROFICIENCIES),
+});
+
+// Plain strings are accepted for backwards compatibility
+const languageSchema: Schema<string | LanguageSkill> = (value, path, errors) =>
+  typeof value === 'string' ? string({ max: 50 })(value, path, errors) : languageSkillSchema(value, path, errors);
+
+const availabilityWindowSchema = object<AvailabilityWindow>(
+  {
+    day: integer({ min: 0, max: 6 }),
+    start: string({ pattern: TIME_PATTERN, patternMessage: 'must be a time in HH:MM format' }),
+    end: string({ pattern: TIME_PATTERN, patternMessage: 'must be a time in HH:MM format' }),
+  },
+  (window, path, errors) => {
+    if (window.end <= window.start) {
+      errors.push({ field: fieldPath(path, 'end'), message: 'must be after start' });
+    }
+  }
+);
+
+/**
+ * Profile fields a client may send; trustScore is accepted but ignored
+ */
+export interface UserProfileInput {
+  id: string;
+  username: string;
+  email: string;
+  languages?: Array<string | LanguageSkill>;
+  offers?: Skill[];
+  wants?: Skill[];
+  trustScore?: number;
+  timezone?: string;
+  availability?: AvailabilityWindow[];
+  createdAt?: Date;
+}
+
+const userProfileShape = {
+  id: id(),
+  username: string({ max: 100 }),
+  email: string({ max: 254, pattern: EMAIL_PATTERN, patternMessage: 'must be an email address' }),
+  languages: optional(array(languageSchema, { max: 20 })),
+  offers: optional(array(skillSchema('offer'), { max: MAX_SKILLS })),
+  wants: optional(array(skillSchema('want'), { max: MAX_SKILLS })),
+  trustScore: optional(score()),
+  timezone: optional(refine(
+    string(),
+    (timezone) => availabilityService.isValidTimezone(timezone),
+    'must be an IANA timezone name, e.g. "Europe/Madrid"'
+  )),
+  availability: optional(array(availabilityWindowSchema, { max: 50 })),
+  createdAt: optional(date()),
+};
+
+export const userProfileSchema = object<UserProfileInput>(userProfileShape);
+
+/**
+ * An imported profile may also carry its timestamps, which are kept
+ */
+export interface UserImportInput extends UserProfileInput {
+  updatedAt?: Date;
+  lastActiveAt?: Date;
+}
+
+export const userImportSchema = object<UserImportInput>({
+  ...userProfileShape,
+  updatedAt: optional(date()),
+  lastActiveAt: optional(date()),
+});
+
+// Numbers are coerced so the same filters work in query strings
+const userFiltersShape = {
+  category: optional(string({ max: 100 })),
+  minOfferLevel: optional(oneOf(SKILL_LEVELS)),
+  language: optional(string({ max: 50 })),
+  minTrust: optional(number({ min: 0, max: 1, coerce: true })),
+  activeWithinDays: optional(number({ min: 0, exclusiveMin: true, coerce: true })),
+};
+
+export const userFiltersSchema = object<UserFilters>(userFiltersShape);
+
+export const userListQuerySchema = object<UserFilters & { limit?: number; cursor?: string }>({
+  ...userFiltersShape,
+  limit: optional(integer({ min: 1, max: MAX_PAGE_SIZE, coerce: true })),
+  cursor: optional(refine(
+    string(),
+    (cursor) => decodeCursor<{ userId: string }>(cursor, ['userId']) !== null,
+    'must be a nextCursor value from a previous response'
+  )),
+});
+
+export const userExportQuerySchema = object<UserFilters & { format?: UserTransferFormat }>({
+  ...userFiltersShape,
+  format: optional(oneOf(USER_TRANSFER_FORMATS)),
+});
+
+export const userImportQuerySchema = object<Partial<ImportOptions>>({
+  format: optional(oneOf(USER_TRANSFER_FORMATS)),
+  mode: optional(oneOf(IMPORT_MODES)),
+  dryRun: optional(boolean({ coerce: true })),
+});
+
+// ---- Matching ----
+
+export const matchingConfigSchema = object<Partial<MatchingConfig>>(
+  {
+    weights: optional(weightsSchema),
+    scorerWeights: optional(scorerWeightsSchema),
+    minMatchScore: optional(score()),
+    maxResults: optional(integer({ min: 1, max: MAX_PAGE_SIZE })),
+    enableBidirectionalMatching: optional(boolean()),
+    reciprocity: optional(oneOf(RECIPROCITY_MODES)),
+    reciprocityThreshold: optional(score()),
+    reciprocityMean: optional(oneOf(RECIPROCITY_MEANS)),
+    candidatePoolSize: optional(integer({ min: 1, max: 10000 })),
+    minAvailabilityOverlapHours: optional(number({ min: 0, max: 168 })),
+    levelGapPolicy: optional(oneOf(LEVEL_GAP_POLICIES)),
+    diversity: optional(object<DiversityConfig>({
+      lambda: score(),
+      maxPerCategory: optional(integer({ min: 1 })),
+    })),
+    fairness: optional(object<FairnessConfig>({
+      explorationBonus: score(),
+      targetExposure: optional(number({ min: 0, exclusiveMin: true })),
+      newUserDays: optional(number({ min: 0, max: 365 })),
+    })),
+  },
+  checkWeights
+);
+
+export const findRequestSchema = object<MatchingRequest>(
+  {
+    userId: id(),
+    config: optional(matchingConfigSchema),
+    filters: optional(userFiltersSchema),
+    cursor: optional(refine(
+      string(),
+      (cursor) => decodeCursor<MatchCursor>(cursor, ['score', 'userId']) !== null,
+      'must be a nextCursor value from a previous response'
+    )),
+    live: optional(boolean()),
+  },
+  (request, path, errors) => {
+    // Diversity-ranked results come as one page, and fairness bonuses shift as pages are shown
+    for (const field of ['diversity', 'fairness'] as const) {
+      if (request.cursor !== undefined && request.config?.[field]) {
+        errors.push({ field: fieldPath(path, 'cursor'), message: `cannot be combined with config.${field}` });
+      }
+    }
+  }
+);
+
+// Query strings carry numbers as text, so they are coerced
+export const matchStreamQuerySchema = object<MatchStreamQuery>({
+  ...userFiltersShape,
+  userId: id(),
+  minMatchScore: optional(number({ min: 0, max: 1, coerce: true })),
+  maxResults: optional(integer({ min: 1, max: MAX_PAGE_SIZE, coerce: true })),
+  reciprocity: optional(oneOf(RECIPROCITY_MODES)),
+  reciprocityThreshold: optional(number({ min: 0, max: 1, coerce: true })),
+  reciprocityMean: optional(oneOf(RECIPROCITY_MEANS)),
+  levelGapPolicy: optional(oneOf(LEVEL_GAP_POLICIES)),
+  minAvailabilityOverlapHours: optional(number({ min: 0, max: 168, coerce: true })),
+  chunkSize: optional(integer({ min: 1, max: 10000, coerce: true })),
+});
+
+export const exposureQuerySchema = object<ExposureQuery>({
+  newUserDays: optional(number({ min: 0, max: 365, coerce: true })),
+});
+
+export const scoreRequestSchema = object<ScoreRequest>(
+  {
+    userIdA: id(),
+    userIdB: id(),
+    weights: optional(weightsSchema),
+    scorerWeights: optional(scorerWeightsSchema),
+    reciprocity: optional(oneOf(RECIPROCITY_MODES)),
+    reciprocityThreshold: optional(score()),
+    reciprocityMean: optional(oneOf(RECIPROCITY_MEANS)),
+    levelGapPolicy: optional(oneOf(LEVEL_GAP_POLICIES)),
+  },
+  checkWeights
+);
+
+export const pairingRequestSchema = object<PairingRequest>({
+  mode: optional(oneOf(PAIRING_MODES)),
+  userIds: optional(array(id(), { max: 5000 })),
+  config: optional(object<NonNullable<PairingRequest['config']>>(
+    {
+      weights: optional(weightsSchema),
+      scorerWeights: optional(scorerWeightsSchema),
+      minMatchScore: optional(score()),
+    },
+    checkWeights
+  )),
+});
+
+export const cycleRequestSchema = object<CycleRequest>(
+  {
+    userId: optional(id()),
+    minLength: optional(integer({ min: 3, max: 8 })),
+    maxLength: optional(integer({ min: 3, max: 8 })),
+    minEdgeScore: optional(score()),
+    maxEdgesPerUser: optional(integer({ min: 1, max: 100 })),
+    maxResults: optional(integer({ min: 1, max: MAX_PAGE_SIZE })),
+    levelGapPolicy: optional(oneOf(LEVEL_GAP_POLICIES)),
+  },
+  (request, path, errors) => {
+    if (request.minLength !== undefined && request.maxLength !== undefined && request.maxLength < request.minLength) {
+      errors.push({ field: fieldPath(path, 'maxLength'), message: 'must not be less than minLength' });
+    }
+  }
+);
+
+export const recallRequestSchema = object<RecallRequest>(
+  {
+    userId: id(),
+    k: optional(integer({ min: 1, max: 100 })),
+    poolSize: optional(integer({ min: 1, max: 10000 })),
+    weights: optional(weightsSchema),
+    scorerWeights: optional(scorerWeightsSchema),
+  },
+  checkWeights
+);
+
+// ---- Skills ----
+
+export const autocompleteQuerySchema = object<{ q: string; limit?: number }>({
+  q: string({ max: 100 }),
+  limit: optional(integer({ min: 1, max: 50, coerce: true })),
+});
+
+export const resolveQuerySchema = object<{ name: string }>({
+  name: string({ max: 100 }),
+});
+
+// ---- Feedback ----
+
+export const feedbackSchema = object<FeedbackInput>(
+  {
+    matchRequestId: id(),
+    fromUserId: id(),
+    toUserId: id(),
+    rating: integer({ min: 1, max: 5 }),
+    noShow: optional(boolean()),
+    tags: optional(array(string({ min: 0, max: MAX_TAG_LENGTH }), { max: MAX_TAGS })),
+    comment: optional(string({ min: 0, max: 2000 })),
+  },
+  (feedback, path, errors) => {
+    if (feedback.fromUserId === feedback.toUserId) {
+      errors.push({ field: fieldPath(path, 'toUserId'), message: 'users cannot rate themselves' });
+    }
+  }
+);
+
+// ---- Match requests ----
+
+export const sendMatchRequestSchema = object<{ fromUserId: string; toUserId: string; message?: string }>({
+  fromUserId: id(),
+  toUserId: id(),
+  message: optional(string({ min: 0, max: 1000 })),
+});
+
+export const respondMatchRequestSchema = object<{ userId: string }>({
+  userId: id(),
+});
+
+export const matchRequestListQuerySchema = object<{ status?: MatchRequestStatus }>({
+  status: optional(oneOf(MATCH_REQUEST_STATUSES)),
+});
+
+export const blockSchema = object<{ userId: string; blockedUserId: string }>({
+  userId: id(),
+  blockedUserId: id(),
+});
+
+// ---- Experiments ----
+
+const slug = () => string({ max: 64, pattern: SLUG_PATTERN, patternMessage: 'must be lowercase letters, digits, - or _' });
+
+export const experimentSchema = object<ExperimentInput>(
+  {
+    id: slug(),
+    description: optional(string({ min: 0, max: 500 })),
+    variants: array(
+      object<ExperimentVariant>({
+        name: slug(),
+        weight: number({ min: 0, exclusiveMin: true }),
+        config: matchingConfigSchema,
+      }),
+      { min: 2, max: 10 }
+    ),
+  },
+  (experiment, path, errors) => {
+    const seen = new Set<string>();
+    experiment.variants.forEach((variant, i) => {
+      if (seen.has(variant.name)) {
+        errors.push({ field: fieldPath(fieldPath(fieldPath(path, 'variants'), i), 'name'), message: 'must be unique' });
+      }
+      seen.add(variant.name);
+    });
+  }
+);
+
+// ---- Webhooks ----
+
+export const webhookSubscriptionSchema = object<WebhookInput>({
+  userId: id(),
+  url: refine(
+    string({ max: 2000 }),
+    (url) => URL.canParse(url) && ['http:', 'https:'].includes(new URL(url).protocol),
+    'must be an http or https URL'
+  ),
+  minScore: score(),
+});
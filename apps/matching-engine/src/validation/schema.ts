@@ -0,0 +1,250 @@
+/**
+ * Request schemas
+ * Small composable validators that collect every invalid field instead of
+ * stopping at the first one:
+ *
+ * const schema = object<{ userId: string; k?: number }>({ userId: string(), k: optional(integer({ min: 1 })) });
+ * const request = parse(schema, req.body); // throws ValidationError listing each bad field
+ *
+ * Objects keep only the keys in their schema, so parsed requests never carry
+ * unexpected properties through to the engine.
+ */
+
+import { ValidationError, type FieldError } from './errors.js';
+
+/**
+ * Validate a value at a path, pushing problems to errors
+ * The return value is only meaningful when no errors were added
+ */
+export type Schema<T> = (value: unknown, path: string, errors: FieldError[]) => T;
+
+/**
+ * Schemas for every property of T; optional properties take an optional() schema
+ */
+export type Shape<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? Schema<T[K] | undefined> : Schema<T[K]>;
+};
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  trim?: boolean;
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  // Accept numeric strings, for query parameters
+  coerce?: boolean;
+}
+
+interface BooleanOptions {
+  // Accept 'true' and 'false', for query parameters
+  coerce?: boolean;
+}
+
+interface ArrayOptions {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Validate a value and return it, or throw a ValidationError listing every invalid field
+ */
+export function parse<T>(schema: Schema<T>, value: unknown): T {
+  const errors: FieldError[] = [];
+  const parsed = schema(value, '', errors);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return parsed;
+}
+
+/**
+ * Join a property or index onto a path: ('config', 'weights') → 'config.weights'
+ */
+export function fieldPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function fail<T>(errors: FieldError[], path: string, message: string): T {
+  errors.push({ field: path, message });
+  return undefined as T;
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  return (value, path, errors) => {
+    if (typeof value !== 'string') {
+      return fail(errors, path, value === undefined ? 'is required' : 'must be a string');
+    }
+
+    const text = options.trim === false ? value : value.trim();
+    const min = options.min ?? 1;
+    if (text.length < min) {
+      return fail(errors, path, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+    }
+    if (options.max !== undefined && text.length > options.max) {
+      return fail(errors, path, `must be at most ${options.max} characters`);
+    }
+    if (options.pattern && !options.pattern.test(text)) {
+      return fail(errors, path, options.patternMessage ?? `must match ${options.pattern}`);
+    }
+
+    return text;
+  };
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return (value, path, errors) => {
+    const parsed = options.coerce && typeof value === 'string' && value.trim() !== ''
+      ? Number(value)
+      : value;
+
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      return fail(errors, path, value === undefined ? 'is required' : 'must be a finite number');
+    }
+    if (options.min !== undefined && (options.exclusiveMin ? parsed <= options.min : parsed < options.min)) {
+      return fail(errors, path, `must be ${options.exclusiveMin ? 'greater than' : 'at least'} ${options.min}`);
+    }
+    if (options.max !== undefined && parsed > options.max) {
+      return fail(errors, path, `must be at most ${options.max}`);
+    }
+
+    return parsed;
+  };
+}
+
+export function integer(options: NumberOptions = {}): Schema<number> {
+  const base = number(options);
+  return (value, path, errors) => {
+    const count = errors.length;
+    const parsed = base(value, path, errors);
+    if (errors.length === count && !Number.isInteger(parsed)) {
+      return fail(errors, path, 'must be an integer');
+    }
+    return parsed;
+  };
+}
+
+export function boolean(options: BooleanOptions = {}): Schema<boolean> {
+  return (value, path, errors) => {
+    const parsed = options.coerce && (value === 'true' || value === 'false') ? value === 'true' : value;
+
+    if (typeof parsed !== 'boolean') {
+      return fail(errors, path, value === undefined ? 'is required' : 'must be true or false');
+    }
+    return parsed;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path, errors) => {
+    if (!values.includes(value as T)) {
+      return fail(errors, path, `must be one of: ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * An ISO 8601 date string (or Date), parsed to a Date
+ */
+export function date(): Schema<Date> {
+  return (value, path, errors) => {
+    const parsed = typeof value === 'string' || value instanceof Date ? new Date(value) : null;
+    if (!parsed || Number.isNaN(parsed.getTime())) {
+      return fail(errors, path, value === undefined ? 'is required' : 'must be an ISO 8601 date');
+    }
+    return parsed;
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, errors) => (value === undefined ? undefined : schema(value, path, errors));
+}
+
+export function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      return fail(errors, path, value === undefined ? 'is required' : 'must be an array');
+    }
+    if (options.min !== undefined && value.length < options.min) {
+      return fail(errors, path, `must have at least ${options.min} items`);
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(errors, path, `must have at most ${options.max} items`);
+    }
+
+    return value.map((entry, i) => item(entry, fieldPath(path, i), errors));
+  };
+}
+
+/**
+ * An object with arbitrary keys, e.g. scorerWeights
+ */
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path, errors) => {
+    if (!isPlainObject(value)) {
+      return fail(errors, path, value === undefined ? 'is required' : 'must be an object');
+    }
+
+    const parsed: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      parsed[key] = item(entry, fieldPath(path, key), errors);
+    }
+    return parsed;
+  };
+}
+
+/**
+ * An object with known keys; check runs only when every field is valid,
+ * for rules that span several fields
+ */
+export function object<T extends object>(
+  shape: Shape<T>,
+  check?: (value: T, path: string, errors: FieldError[]) => void
+): Schema<T> {
+  return (value, path, errors) => {
+    if (!isPlainObject(value)) {
+      return fail(errors, path, value === undefined ? 'is required' : 'must be an object');
+    }
+
+    const count = errors.length;
+    const parsed: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const entry = shape[key](value[key], fieldPath(path, key), errors);
+      if (entry !== undefined) {
+        parsed[key] = entry;
+      }
+    }
+
+    if (check && errors.length === count) {
+      check(parsed as T, path, errors);
+    }
+    return parsed as T;
+  };
+}
+
+/**
+ * A value checked by a predicate; the message describes what is expected
+ */
+export function refine<T>(schema: Schema<T>, predicate: (value: T) => boolean, message: string): Schema<T> {
+  return (value, path, errors) => {
+    const count = errors.length;
+    const parsed = schema(value, path, errors);
+    if (errors.length === count && !predicate(parsed)) {
+      return fail(errors, path, message);
+    }
+    return parsed;
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,135 @@
+/**
+ * ANN candidate retrieval recall against exhaustive scoring
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { candidateIndex } from '../../src/core/candidate.index.js';
+import { InMemoryUserRepository } from '../../src/repositories/user.memory.repository.js';
+import { weightsService } from '../../src/services/weights.service.js';
+import type { UserProfile } from '../../src/types/user.types.js';
+import { seededRandom } from '../support/random.js';
+import { skill, user } from '../support/users.js';
+
+const WORDS = [
+  'alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel',
+  'india', 'juliet', 'kilo', 'lima', 'mike', 'november', 'oscar', 'papa',
+];
+const POPULATION = 240;
+const SEARCHERS = 20;
+const K = 10;
+const POOL_SIZE = 60;
+const RECALL_FLOOR = 0.9;
+
+const random = seededRandom(11);
+const pick = () => WORDS[Math.floor(random() * WORDS.length)]!;
+// Names of two or three words, so embeddings overlap by degree
+const skillName = () => Array.from({ length: 2 + Math.floor(random() * 2) }, pick).join(' ');
+const skills = (level: 'expert' | 'beginner') =>
+  Array.from({ length: 1 + Math.floor(random() * 2) }, () => skill(skillName(), level));
+
+/**
+ * Searchers only want to learn, so exhaustive scoring ranks candidates by
+ * what they offer: the direction ANN retrieval searches
+ */
+const population = Array.from({ length: POPULATION }, (_, i) =>
+  user(`u${i}`, { offers: skills('expert'), wants: skills('beginner') })
+);
+const searchers = Array.from({ length: SEARCHERS }, (_, i) => user(`searcher${i}`, { wants: skills('beginner') }));
+
+async function meanRecall(candidates: UserProfile[]): Promise<number> {
+  let total = 0;
+  for (const searcher of searchers) {
+    const report = await candidateIndex.measureRecall(
+      searcher,
+      candidates,
+      K,
+      POOL_SIZE,
+      { weights: weightsService.getDefaultWeights() }
+    );
+    total += report.recall;
+  }
+  return total / searchers.length;
+}
+
+describe('candidateIndex', () => {
+  const repository = new InMemoryUserRepository();
+  let saved: UserProfile[];
+
+  beforeAll(async () => {
+    candidateIndex.attach(repository);
+    saved = await repository.saveMany(population);
+    await candidateIndex.initialize(saved);
+  });
+
+  it(`keeps at least ${RECALL_FLOOR * 100}% of the exhaustive top-${K}`, async () => {
+    expect(candidateIndex.getStats().users).toBe(POPULATION);
+    expect(await meanRecall(saved)).toBeGreaterThanOrEqual(RECALL_FLOOR);
+  });
+
+  describe('with filters', () => {
+    // One user in eight passes the filters: 30 of 240, above the share ANN still serves
+    const filtered = () => saved.filter((_, i) => i % 8 === 0);
+
+    it('retrieves a full pool from the filtered candidates only', async () => {
+      const allowed = new Set(filtered().map((profile) => profile.id));
+      for (const searcher of searchers) {
+        const { candidates, strategy } = await candidateIndex.retrieve(searcher, filtered(), 10);
+        expect(strategy).toBe('ann');
+        expect(candidates).toHaveLength(10);
+        expect(candidates.every((candidate) => allowed.has(candidate.id))).toBe(true);
+      }
+    });
+
+    it(`keeps at least ${RECALL_FLOOR * 100}% of the exhaustive top-5 among them`, async () => {
+      let total = 0;
+      for (const searcher of searchers) {
+        const report = await candidateIndex.measureRecall(searcher, filtered(), 5, 10, { weights: weightsService.getDefaultWeights() });
+        total += report.recall;
+      }
+      expect(total / searchers.length).toBeGreaterThanOrEqual(RECALL_FLOOR);
+    });
+
+    it('scores every candidate when filters leave a small share of the index', async () => {
+      const few = saved.slice(0, 20);
+      const { candidates, strategy } = await candidateIndex.retrieve(searchers[0]!, few, 10);
+
+      expect(strategy).toBe('exhaustive');
+      expect(candidates).toBe(few);
+    });
+  });
+
+  describe('after deletes', () => {
+    let live: UserProfile[];
+
+    beforeAll(async () => {
+      live = [];
+      for (const [i, profile] of saved.entries()) {
+        if (i % 3 === 0) {
+          await repository.delete(profile.id);
+        } else {
+          live.push(profile);
+        }
+      }
+      await candidateIndex.flush();
+    });
+
+    it('tombstones the deleted users', () => {
+      const stats = candidateIndex.getStats();
+      expect(stats.users).toBe(live.length);
+      expect(stats.tombstones).toBeGreaterThan(0);
+    });
+
+    it('never retrieves deleted users', async () => {
+      const liveIds = new Set(live.map((profile) => profile.id));
+      for (const searcher of searchers) {
+        for (const id of (await candidateIndex.findCandidates(searcher, POOL_SIZE)) ?? []) {
+          expect(liveIds.has(id)).toBe(true);
+        }
+      }
+    });
+
+    it(`keeps at least ${RECALL_FLOOR * 100}% recall over the remaining users`, async () => {
+      expect(await meanRecall(live)).toBeGreaterThanOrEqual(RECALL_FLOOR);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Swap cycle enumeration
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { cycleEngine } from '../../src/core/cycle.engine.js';
+import { matchRequestRepository } from '../../src/repositories/match-request.repository.js';
+import { matchRequestService } from '../../src/services/match-request.service.js';
+import { skill, user } from '../support/users.js';
+
+afterEach(async () => {
+  await matchRequestRepository.clear();
+});
+
+describe('findCycles', () => {
+  const users = [
+    user('a', { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking', 'beginner')] }),
+    user('b', { offers: [skill('Painting', 'expert')], wants: [skill('Guitar', 'beginner')] }),
+    user('c', { offers: [skill('Cooking', 'expert')], wants: [skill('Painting', 'beginner')] }),
+    user('d', { offers: [skill('Chess', 'expert')], wants: [skill('Knitting', 'beginner')] }),
+  ];
+
+  it('finds a three-way ring and lists it from the requested user', async () => {
+    const all = await cycleEngine.findCycles(users, { minEdgeScore: 0.6 });
+    expect(all.cycles.map((cycle) => cycle.members.map((member) => member.id))).toEqual([['a', 'b', 'c']]);
+    expect(all.truncated).toBe(false);
+
+    const fromC = await cycleEngine.findCycles(users, { userId: 'c', minEdgeScore: 0.6 });
+    expect(fromC.cycles.map((cycle) => cycle.members.map((member) => member.id))).toEqual([['c', 'a', 'b']]);
+
+    expect((await cycleEngine.findCycles(users, { userId: 'd', minEdgeScore: 0.6 })).cycles).toEqual([]);
+  });
+
+  it('breaks rings where two members blocked each other or declined a request', async () => {
+    await matchRequestService.block('b', 'c');
+    expect((await cycleEngine.findCycles(users, { minEdgeScore: 0.6 })).cycles).toEqual([]);
+
+    await matchRequestService.unblock('b', 'c');
+    expect((await cycleEngine.findCycles(users, { minEdgeScore: 0.6 })).cycles).toHaveLength(1);
+
+    const request = await matchRequestService.send('a', 'c');
+    await matchRequestService.respond(request.id, 'c', 'decline');
+    expect((await cycleEngine.findCycles(users, { minEdgeScore: 0.6 })).cycles).toEqual([]);
+  });
+
+  describe('on a graph with more rings than the enumeration cap', () => {
+    // Everyone can teach everyone: 12 users give 440 + 2970 + 19008 rings of length 3 to 5
+    const users = Array.from({ length: 12 }, (_, i) =>
+      user(`u${String(i).padStart(2, '0')}`, { offers: [skill('Guitar', 'expert')], wants: [skill('Guitar', 'beginner')] })
+    );
+    const request = { minEdgeScore: 0, maxEdgesPerUser: 11, maxResults: 5 };
+
+    it('reports the search as truncated', async () => {
+      const result = await cycleEngine.findCycles(users, request);
+
+      expect(result.truncated).toBe(true);
+      expect(result.totalCycles).toBe(10000);
+    });
+
+    it('still finds every ring through a requested user', async () => {
+      // Rings through one user: 11 * 10 + 11 * 10 * 9 + 11 * 10 * 9 * 8
+      const result = await cycleEngine.findCycles(users, { ...request, userId: 'u11' });
+
+      expect(result.truncated).toBe(false);
+      expect(result.totalCycles).toBe(9020);
+      expect(result.cycles.every((cycle) => cycle.members[0]!.id === 'u11')).toBe(true);
+    });
+  });
+});
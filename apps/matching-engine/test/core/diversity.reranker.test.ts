@@ -0,0 +1,66 @@
+/**
+ * Diversity re-ranking by maximal marginal relevance
+ */
+
+import { describe, expect, it } from 'vitest';
+import { diversityReranker } from '../../src/core/diversity.reranker.js';
+import { taxonomyService } from '../../src/services/taxonomy.service.js';
+import type { MatchResult, MatchScore } from '../../src/types/user.types.js';
+import { skill, user } from '../support/users.js';
+
+const searcher = user('searcher');
+
+/**
+ * A match where the candidate teaches the searcher one skill
+ */
+function match(id: string, totalScore: number, teaches: string): MatchResult {
+  const offer = taxonomyService.normalizeSkill(skill(teaches));
+  const matchScore = {
+    totalScore,
+    explanation: {
+      matchedPairs: [{ offerSkill: offer, wantSkill: offer, similarity: 1, levelWeight: 1, levelFit: 'at-target', direction: 'BtoA' }],
+    },
+  } as unknown as MatchScore;
+
+  return { userA: searcher, userB: user(id), matchScore, matchedAt: new Date() };
+}
+
+// Sorted by score: three guitar teachers, then a Spanish teacher and a knitting teacher outside the taxonomy
+const matches = [
+  match('guitar1', 0.9, 'Guitar'),
+  match('guitar2', 0.88, 'Acoustic guitar'),
+  match('guitar3', 0.86, 'Electric guitar'),
+  match('spanish', 0.7, 'Spanish'),
+  match('knitting', 0.6, 'Knitting'),
+];
+
+const ids = (results: MatchResult[]) => results.map((result) => result.userB.id);
+
+describe('rerank', () => {
+  it('keeps the score order at lambda 1', async () => {
+    const results = await diversityReranker.rerank(matches, { lambda: 1 }, 3);
+
+    expect(ids(results)).toEqual(['guitar1', 'guitar2', 'guitar3']);
+    expect(results.every((result) => !result.diversity?.promoted)).toBe(true);
+  });
+
+  it('promotes a lower-scored match from another category over a near duplicate', async () => {
+    const results = await diversityReranker.rerank(matches, { lambda: 0.5 }, 2);
+
+    expect(ids(results)).toEqual(['guitar1', 'spanish']);
+    expect(results[1]!.diversity).toEqual({ relevanceRank: 4, category: 'language', promoted: true });
+    expect(results[0]!.diversity).toEqual({ relevanceRank: 1, category: 'instruments', promoted: false });
+  });
+
+  it('passes over matches whose category is full, but not uncategorized ones', async () => {
+    const results = await diversityReranker.rerank(matches, { lambda: 1, maxPerCategory: 1 }, 5);
+
+    expect(ids(results)).toEqual(['guitar1', 'spanish', 'knitting']);
+    expect(results[2]!.diversity?.category).toBeNull();
+  });
+
+  it('stops at the limit', async () => {
+    expect(await diversityReranker.rerank(matches, { lambda: 0.5 }, 0)).toEqual([]);
+    expect(await diversityReranker.rerank(matches, { lambda: 0.5 }, 10)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * HNSW recall against brute-force search
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { HnswIndex, type SerializedHnswIndex } from '../../src/core/hnsw.index.js';
+import { randomUnitVector, seededRandom } from '../support/random.js';
+
+const DIMENSIONS = 24;
+const POPULATION = 1500;
+const QUERIES = 40;
+const K = 10;
+const RECALL_FLOOR = 0.95;
+
+interface Entry {
+  label: string;
+  vector: number[];
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i]!, 0);
+}
+
+function bruteForce(entries: Entry[], query: number[], k: number): string[] {
+  return entries
+    .map((entry) => ({ label: entry.label, similarity: dot(entry.vector, query) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map((entry) => entry.label);
+}
+
+/**
+ * Mean share of the exact top-k that the index returns
+ */
+function recall(index: HnswIndex, entries: Entry[], queries: number[][]): number {
+  let found = 0;
+  for (const query of queries) {
+    const returned = new Set(index.search(query, K).map((hit) => hit.label));
+    found += bruteForce(entries, query, K).filter((label) => returned.has(label)).length;
+  }
+  return found / (queries.length * K);
+}
+
+describe('HnswIndex', () => {
+  let entries: Entry[];
+  let queries: number[][];
+  let built: string; // Serialized once; each test restores its own copy
+  let index: HnswIndex;
+
+  beforeAll(() => {
+    const random = seededRandom(7);
+    entries = Array.from({ length: POPULATION }, (_, i) => ({
+      label: `u${i}`,
+      vector: randomUnitVector(random, DIMENSIONS),
+    }));
+    queries = Array.from({ length: QUERIES }, () => randomUnitVector(random, DIMENSIONS));
+
+    const fresh = new HnswIndex();
+    for (const entry of entries) {
+      fresh.add(entry.label, entry.vector);
+    }
+    built = JSON.stringify(fresh.toJSON());
+  });
+
+  beforeEach(() => {
+    index = HnswIndex.fromJSON(JSON.parse(built) as SerializedHnswIndex);
+  });
+
+  it(`finds at least ${RECALL_FLOOR * 100}% of the exact top-${K}`, () => {
+    expect(index.size).toBe(POPULATION);
+    expect(recall(index, entries, queries)).toBeGreaterThanOrEqual(RECALL_FLOOR);
+  });
+
+  it('returns results by descending similarity', () => {
+    const similarities = index.search(queries[0]!, K).map((hit) => hit.similarity);
+    expect(similarities).toEqual([...similarities].sort((a, b) => b - a));
+  });
+
+  describe('after deletes', () => {
+    let live: Entry[];
+
+    beforeEach(() => {
+      // Tombstone every third vector, including whichever is the entry point
+      live = entries.filter((entry, i) => {
+        if (i % 3 !== 0) {
+          return true;
+        }
+        expect(index.remove(entry.label)).toBe(true);
+        return false;
+      });
+    });
+
+    it('never returns deleted labels', () => {
+      for (const query of queries) {
+        for (const hit of index.search(query, K)) {
+          expect(index.has(hit.label)).toBe(true);
+        }
+      }
+    });
+
+    it('keeps recall over the live vectors while they are tombstoned', () => {
+      expect(index.tombstones).toBe(POPULATION - live.length);
+      expect(index.size).toBe(live.length);
+      expect(recall(index, live, queries)).toBeGreaterThanOrEqual(RECALL_FLOOR);
+    });
+
+    it('still returns k results when most vectors are deleted', () => {
+      for (const entry of live.slice(K)) {
+        index.remove(entry.label);
+      }
+      expect(index.search(queries[0]!, K)).toHaveLength(K);
+    });
+
+    it('keeps recall after compacting', () => {
+      index.compact();
+
+      expect(index.tombstones).toBe(0);
+      expect(index.size).toBe(live.length);
+      expect(recall(index, live, queries)).toBeGreaterThanOrEqual(RECALL_FLOOR);
+    });
+
+    it('round-trips through JSON with its tombstones', () => {
+      const restored = HnswIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+
+      expect(restored.tombstones).toBe(index.tombstones);
+      expect(restored.labels().sort()).toEqual(index.labels().sort());
+      expect(restored.search(queries[0]!, K)).toEqual(index.search(queries[0]!, K));
+    });
+  });
+
+  it('removes every vector of a label', () => {
+    const small = new HnswIndex();
+    small.add('a', [1, 0]);
+    small.add('a', [0, 1]);
+    small.add('b', [0.7, 0.7]);
+
+    expect(small.remove('a')).toBe(true);
+    expect(small.remove('a')).toBe(false);
+    expect(small.search([1, 0], 3).map((hit) => hit.label)).toEqual(['b']);
+  });
+});
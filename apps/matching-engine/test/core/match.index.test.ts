@@ -0,0 +1,176 @@
+/**
+ * Match index lists: building, patching on save and serving /find pages
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MatchIndex, type IndexedMatches } from '../../src/core/match.index.js';
+import { matchingEngine } from '../../src/core/matching.engine.js';
+import { InMemoryUserRepository } from '../../src/repositories/user.memory.repository.js';
+import type { UserProfile } from '../../src/types/user.types.js';
+import { skill, user } from '../support/users.js';
+
+// The searcher teaches cooking and wants guitar; the expert is the clear best fit
+const searcher = user('searcher', { offers: [skill('Cooking')], wants: [skill('Guitar', 'beginner')] });
+const candidates = [
+  user('expert', { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking', 'beginner')] }),
+  user('casual', { offers: [skill('Guitar', 'beginner')], wants: [skill('Cooking', 'advanced')] }),
+  user('painter', { offers: [skill('Painting')], wants: [skill('Chess')] }),
+];
+
+const ids = (list: IndexedMatches | null) => list?.matches.map((match) => match.candidateId);
+
+async function setup(size: number): Promise<{ index: MatchIndex; repository: InMemoryUserRepository }> {
+  const repository = new InMemoryUserRepository();
+  await repository.saveMany([searcher, ...candidates]);
+
+  const index = new MatchIndex(size);
+  index.attach(repository);
+  index.initialize();
+  await index.flush();
+  return { index, repository };
+}
+
+/**
+ * The owner's full ranking, scored from scratch
+ */
+async function ranking(repository: InMemoryUserRepository, ownerId: string): Promise<string[]> {
+  const users = await repository.getAll();
+  const owner = users.find((other) => other.id === ownerId)!;
+  const others = users.filter((other) => other.id !== ownerId);
+  const scores = await matchingEngine.scorePairs(others.map((other): [UserProfile, UserProfile] => [owner, other]));
+
+  return others
+    .map((other, i) => ({ id: other.id, score: scores[i]!.totalScore }))
+    .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : 1))
+    .map(({ id }) => id);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('building', () => {
+  it('keeps every other user, best first, when they all fit', async () => {
+    const { index, repository } = await setup(10);
+    const list = index.get('searcher');
+
+    expect(list?.complete).toBe(true);
+    expect(ids(list)).toEqual(await ranking(repository, 'searcher'));
+    expect(ids(list)?.[0]).toBe('expert');
+    expect(index.getStats()).toMatchObject({ users: 4, staleUsers: 0, ready: true });
+  });
+
+  it('truncates to the index size and marks the list incomplete', async () => {
+    const { index, repository } = await setup(2);
+    const list = index.get('searcher');
+
+    expect(list?.complete).toBe(false);
+    expect(ids(list)).toEqual((await ranking(repository, 'searcher')).slice(0, 2));
+  });
+});
+
+describe('saves', () => {
+  it('patches a rescored candidate into its new place', async () => {
+    const { index, repository } = await setup(10);
+    await repository.save({ ...candidates[0]!, offers: [skill('Chess')], wants: [] });
+    await index.flush();
+
+    expect(ids(index.get('searcher'))).toEqual(await ranking(repository, 'searcher'));
+    expect(ids(index.get('searcher'))?.[2]).toBe('expert');
+  });
+
+  it('rebuilds a truncated list when a listed candidate drops out of it', async () => {
+    const { index, repository } = await setup(2);
+    const rebuilt = vi.spyOn(matchingEngine, 'scorePairs');
+
+    await repository.save({ ...candidates[0]!, offers: [skill('Chess')], wants: [] });
+    await index.flush();
+
+    // Own list, the pair in each other list, then the searcher's stale list from scratch
+    expect(rebuilt.mock.calls.some(([pairs]) => pairs.length === 3 && pairs[0]![0].id === 'searcher')).toBe(true);
+    expect(ids(index.get('searcher'))).toEqual((await ranking(repository, 'searcher')).slice(0, 2));
+    expect(index.getStats().staleUsers).toBe(0);
+  });
+
+  it('skips the rescore when no scored field changed', async () => {
+    const { index, repository } = await setup(10);
+    const computedAt = index.get('searcher')!.computedAt;
+    const scorePairs = vi.spyOn(matchingEngine, 'scorePairs');
+
+    await repository.save({ ...candidates[0]!, email: 'new@example.com', lastActiveAt: new Date() });
+    await index.flush();
+
+    expect(scorePairs).not.toHaveBeenCalled();
+    expect(index.get('searcher')!.computedAt).toBe(computedAt);
+
+    await repository.save({ ...candidates[0]!, wants: [skill('Painting')] });
+    await index.flush();
+
+    expect(scorePairs).toHaveBeenCalled();
+  });
+
+  it('serves lists that involve a saved user live until the save is applied', async () => {
+    const { index, repository } = await setup(10);
+    const users = await repository.getAll();
+
+    await repository.save({ ...candidates[0]!, offers: [skill('Chess')] });
+
+    expect(index.get('expert')).toBeNull();
+    expect(await index.findMatchPage(searcher, users, {})).toBeNull();
+
+    await index.flush();
+    expect(index.get('expert')).not.toBeNull();
+    expect(await index.findMatchPage(searcher, users, {})).not.toBeNull();
+  });
+
+  it('drops a deleted user from every list', async () => {
+    const { index, repository } = await setup(10);
+    await repository.delete('expert');
+    await index.flush();
+
+    expect(index.get('expert')).toBeNull();
+    expect(ids(index.get('searcher'))).toEqual(await ranking(repository, 'searcher'));
+    expect(ids(index.get('searcher'))).not.toContain('expert');
+  });
+});
+
+describe('findMatchPage', () => {
+  it('serves a complete list whatever the page size', async () => {
+    const { index, repository } = await setup(10);
+    const page = await index.findMatchPage(searcher, await repository.getAll(), { minMatchScore: 0 });
+
+    expect(page?.matches.map((match) => match.userB.id)).toEqual(ids(index.get('searcher')));
+    expect(page?.hasMore).toBe(false);
+  });
+
+  it('scores live when a page would run past the end of a truncated list', async () => {
+    const { index, repository } = await setup(2);
+    const users = await repository.getAll();
+
+    expect(await index.findMatchPage(searcher, users, { minMatchScore: 0 })).toBeNull();
+    expect(await index.findMatchPage(searcher, users, { minMatchScore: 0, maxResults: 2 })).toBeNull();
+  });
+
+  it('serves a truncated list when the page ends inside it', async () => {
+    const { index, repository } = await setup(2);
+    const page = await index.findMatchPage(searcher, await repository.getAll(), { minMatchScore: 0, maxResults: 1 });
+
+    expect(page?.matches.map((match) => match.userB.id)).toEqual(['expert']);
+    expect(page?.hasMore).toBe(true);
+  });
+
+  it('serves a truncated list when everything past it scores below minMatchScore', async () => {
+    const { index, repository } = await setup(2);
+    const [first, last] = index.get('searcher')!.matches;
+    const minMatchScore = (first!.matchScore.totalScore + last!.matchScore.totalScore) / 2;
+
+    const page = await index.findMatchPage(searcher, await repository.getAll(), { minMatchScore });
+    expect(page?.matches.map((match) => match.userB.id)).toEqual(['expert']);
+    expect(page?.hasMore).toBe(false);
+  });
+
+  it('scores live when the request sets a scoring field', async () => {
+    const { index, repository } = await setup(10);
+    expect(await index.findMatchPage(searcher, await repository.getAll(), { reciprocity: 'strict' })).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Matching engine ranking
+ */
+
+import { describe, expect, it } from 'vitest';
+import { matchingEngine } from '../../src/core/matching.engine.js';
+import { weightsService } from '../../src/services/weights.service.js';
+import type { MatchingConfig } from '../../src/types/matching.types.js';
+import type { MatchResult } from '../../src/types/user.types.js';
+import { skill, user } from '../support/users.js';
+
+const ids = (matches: MatchResult[]) => matches.map((match) => match.userB.id);
+
+describe('reciprocity modes', () => {
+  // The searcher teaches cooking and wants to learn guitar
+  const searcher = user('searcher', {
+    offers: [skill('Cooking', 'intermediate')],
+    wants: [skill('Guitar', 'beginner')],
+  });
+
+  const candidates = [
+    // Teaches guitar well and wants something the searcher doesn't offer
+    user('teacher', { offers: [skill('Guitar', 'expert')], wants: [skill('Painting', 'beginner')] }),
+    // Teaches guitar well, but already cooks better than the searcher: the swap only helps the searcher
+    user('oneSided', { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking', 'advanced')] }),
+    // A modest swap that helps both
+    user('mutual', { offers: [skill('Guitar', 'beginner')], wants: [skill('Cooking', 'intermediate')] }),
+  ];
+
+  const find = (config: Partial<MatchingConfig>) =>
+    matchingEngine.findMatches(searcher, candidates, {
+      weights: weightsService.getDefaultWeights(),
+      minMatchScore: 0,
+      reciprocityThreshold: 0.3,
+      ...config,
+    });
+
+  it('off ranks by the weighted sum, so a strong one-sided match beats a modest two-way one', async () => {
+    const matches = await find({ reciprocity: 'off' });
+
+    expect(ids(matches)).toEqual(['teacher', 'oneSided', 'mutual']);
+    const oneSided = matches[1]!.matchScore;
+    expect(oneSided.semanticScoreAtoB).toBeLessThan(0.3);
+    expect(oneSided.semanticScoreBtoA).toBeGreaterThan(0.3);
+  });
+
+  it('strict drops matches where either direction is below the threshold', async () => {
+    const matches = await find({ reciprocity: 'strict' });
+
+    expect(ids(matches)).toEqual(['teacher', 'mutual']);
+  });
+
+  it('balanced keeps one-sided matches but ranks them below two-way ones', async () => {
+    const matches = await find({ reciprocity: 'balanced' });
+
+    expect(ids(matches)).toEqual(['teacher', 'mutual', 'oneSided']);
+    for (const match of matches) {
+      expect(match.matchScore.reciprocity.mode).toBe('balanced');
+    }
+  });
+
+  it('enableBidirectionalMatching without a mode means strict', async () => {
+    expect(ids(await find({ enableBidirectionalMatching: true }))).toEqual(['teacher', 'mutual']);
+  });
+
+  it('the harmonic mean punishes imbalance harder than the geometric mean', async () => {
+    const combined = async (reciprocityMean: 'geometric' | 'harmonic') =>
+      new Map((await find({ reciprocity: 'balanced', reciprocityMean })).map((match) => [
+        match.userB.id,
+        match.matchScore.reciprocity.combinedSemanticScore,
+      ]));
+
+    const geometric = await combined('geometric');
+    const harmonic = await combined('harmonic');
+
+    expect(harmonic.get('oneSided')!).toBeLessThan(geometric.get('oneSided')!);
+    // Equal directions have the same mean either way
+    expect(harmonic.get('mutual')).toBeCloseTo(geometric.get('mutual')!, 10);
+  });
+});
+
+describe('legacy weights', () => {
+  // Scored by calculateMatchScore before batched scoring (one findBestMatch per offer), under the test embedding
+  const PRE_BATCH = {
+    totalScore: 0.659006477667275,
+    semanticScoreAtoB: 0.4994126249606799,
+    semanticScoreBtoA: 0.6974714256100103,
+    languageScore: 1,
+    trustScore: 0.5,
+  };
+
+  // Native languages and offer-only levels: the scoring legacy profiles got before proficiencies and level gaps
+  const native = [{ tag: 'en', proficiency: 'native' as const }];
+  const userA = user('a', {
+    languages: native,
+    offers: [skill('Python programming', 'advanced'), skill('JavaScript', 'beginner')],
+    wants: [skill('Guitar lessons', 'intermediate'), skill('Spanish conversation', 'beginner')],
+  });
+  const userB = user('b', {
+    languages: native,
+    offers: [skill('Classical guitar lessons', 'expert'), skill('Spanish', 'intermediate')],
+    wants: [skill('Python', 'intermediate')],
+  });
+
+  it('scores a pair under w1..w4 exactly as before batching', async () => {
+    const score = await matchingEngine.calculateMatchScore(userA, userB, {
+      weights: { w1: 0.4, w2: 0.3, w3: 0.2, w4: 0.1 },
+      levelGapPolicy: 'offer-only',
+    });
+
+    expect(score).toMatchObject(PRE_BATCH);
+  });
+});
+
+describe('single-page rankings', () => {
+  const searcher = user('searcher', { offers: [skill('Cooking')], wants: [skill('Guitar', 'beginner')] });
+  const candidates = ['a', 'b', 'c', 'd'].map((id) =>
+    user(id, { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking', 'beginner')] })
+  );
+  const config: MatchingConfig = { weights: weightsService.getDefaultWeights(), minMatchScore: 0, maxResults: 2 };
+
+  it('pages plain results', async () => {
+    const page = await matchingEngine.findMatchPage(searcher, candidates, config);
+
+    expect(page.matches).toHaveLength(2);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('returns fairness results as one page, with a baseline of the same size', async () => {
+    const page = await matchingEngine.findMatchPage(searcher, candidates, { ...config, fairness: { explorationBonus: 0.1 } });
+
+    expect(page.matches).toHaveLength(2);
+    expect(page.hasMore).toBe(false);
+    expect(page.baseline).toHaveLength(2);
+    expect(page.matches.every((match) => match.fairness !== undefined)).toBe(true);
+  });
+
+  it('returns diversity results as one page', async () => {
+    const page = await matchingEngine.findMatchPage(searcher, candidates, { ...config, diversity: { lambda: 0.5 } });
+
+    expect(page.matches).toHaveLength(2);
+    expect(page.hasMore).toBe(false);
+  });
+});
+
+describe('streamed progress', () => {
+  const searcher = user('searcher', { offers: [skill('Cooking')], wants: [skill('Guitar', 'beginner')] });
+  const levels = ['beginner', 'intermediate', 'advanced', 'expert'] as const;
+  const candidates = Array.from({ length: 12 }, (_, i) =>
+    user(`c${String(i).padStart(2, '0')}`, { offers: [skill('Guitar', levels[i % levels.length])], wants: [skill('Cooking', 'beginner')] })
+  );
+  const config: MatchingConfig = { weights: weightsService.getDefaultWeights(), minMatchScore: 0, maxResults: 3 };
+
+  it('reports the best maxResults of the candidates scored so far, after the cursor', async () => {
+    const first = await matchingEngine.findMatchPage(searcher, candidates, config);
+    const last = first.matches[first.matches.length - 1]!;
+    const after = { score: last.matchScore.totalScore, userId: last.userB.id };
+
+    const progress: MatchResult[][] = [];
+    const page = await matchingEngine.findMatchPage(searcher, candidates, config, after, {
+      chunkSize: 4,
+      onProgress: ({ matches }) => progress.push(matches),
+    });
+
+    expect(progress).toHaveLength(3);
+    for (const [i, matches] of progress.entries()) {
+      const scoredSoFar = candidates.slice(0, (i + 1) * 4);
+      const expected = await matchingEngine.findMatchPage(searcher, scoredSoFar, config, after);
+      expect(ids(matches)).toEqual(ids(expected.matches));
+    }
+    expect(ids(progress[2]!)).toEqual(ids(page.matches));
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Maximum-weight matching on small graphs and on large edge lists
+ */
+
+import { describe, expect, it } from 'vitest';
+import { maxWeightMatching, type WeightedEdge } from '../../src/core/graph/max-weight-matching.js';
+import { seededRandom } from '../support/random.js';
+
+describe('maxWeightMatching', () => {
+  it('prefers two medium edges to one heavy one when they weigh more together', () => {
+    // Path 0-1-2-3: the middle edge alone (5) loses to both ends (3 + 3)
+    const mate = maxWeightMatching([
+      { u: 0, v: 1, weight: 3 },
+      { u: 1, v: 2, weight: 5 },
+      { u: 2, v: 3, weight: 3 },
+    ], 4);
+
+    expect(mate).toEqual([1, 0, 3, 2]);
+  });
+
+  it('handles edge lists too long to spread into one call', () => {
+    // 40 vertices with a heavy perfect matching (2i, 2i + 1) hidden among 300,000 light edges
+    const vertexCount = 40;
+    const random = seededRandom(11);
+    const edges: WeightedEdge[] = [];
+    for (let i = 0; i < 300_000; i++) {
+      const u = Math.floor(random() * vertexCount);
+      const v = (u + 1 + Math.floor(random() * (vertexCount - 1))) % vertexCount;
+      edges.push({ u, v, weight: 1 + Math.floor(random() * 10) });
+    }
+    for (let u = 0; u < vertexCount; u += 2) {
+      edges.push({ u, v: u + 1, weight: 1000 });
+    }
+
+    const mate = maxWeightMatching(edges, vertexCount);
+
+    expect(mate).toEqual(Array.from({ length: vertexCount }, (_, v) => v ^ 1));
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Pairing the population into one-to-one swaps
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { pairingEngine } from '../../src/core/pairing.engine.js';
+import { matchRequestRepository } from '../../src/repositories/match-request.repository.js';
+import { matchRequestService } from '../../src/services/match-request.service.js';
+import { skill, user } from '../support/users.js';
+
+afterEach(async () => {
+  await matchRequestRepository.clear();
+});
+
+describe('computePairs', () => {
+  // a and b are the best pair; c and d are a weaker fallback for each of them
+  const users = [
+    user('a', { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking', 'beginner')] }),
+    user('b', { offers: [skill('Cooking', 'expert')], wants: [skill('Guitar', 'beginner')] }),
+    user('c', { offers: [skill('Cooking', 'intermediate')], wants: [skill('Guitar', 'beginner')] }),
+    user('d', { offers: [skill('Guitar', 'intermediate')], wants: [skill('Cooking', 'beginner')] }),
+  ];
+
+  const partners = async (mode: 'max-weight' | 'stable') => {
+    const result = await pairingEngine.computePairs(users, mode, { minMatchScore: 0 });
+    return result!.pairs.map((pair) => [pair.userA.id, pair.userB.id].sort().join('-')).sort();
+  };
+
+  it('pairs the best match otherwise', async () => {
+    for (const mode of ['max-weight', 'stable'] as const) {
+      expect(await partners(mode)).toEqual(['a-b', 'c-d']);
+    }
+  });
+
+  it('never pairs users who blocked each other', async () => {
+    await matchRequestService.block('b', 'a');
+
+    for (const mode of ['max-weight', 'stable'] as const) {
+      expect(await partners(mode)).not.toContain('a-b');
+    }
+  });
+
+  it('never pairs users after a declined request', async () => {
+    const request = await matchRequestService.send('a', 'b');
+    await matchRequestService.respond(request.id, 'b', 'decline');
+
+    for (const mode of ['max-weight', 'stable'] as const) {
+      expect(await partners(mode)).not.toContain('a-b');
+    }
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Ranking metrics on small hand-computed examples
+ */
+
+import { describe, expect, it } from 'vitest';
+import { auc, dcg, evaluateRanking, ndcgAtK, reciprocalRank } from '../../src/core/ranking.metrics.js';
+
+describe('auc', () => {
+  it('is the share of positive-negative pairs ranked the right way round', () => {
+    // 0.9 beats both negatives, 0.7 beats only 0.6: 3 of 4 pairs
+    expect(auc([0.9, 0.8, 0.7, 0.6], [1, 0, 1, 0])).toBe(0.75);
+    expect(auc([0.9, 0.1], [1, 0])).toBe(1);
+    expect(auc([0.1, 0.9], [1, 0])).toBe(0);
+  });
+
+  it('counts ties as half a pair', () => {
+    expect(auc([0.5, 0.5], [1, 0])).toBe(0.5);
+    // 0.9 beats 0.5 (1), the tied 0.5 counts half: 1.5 of 2 pairs
+    expect(auc([0.9, 0.5, 0.5], [1, 1, 0])).toBe(0.75);
+  });
+
+  it('is null without both labels', () => {
+    expect(auc([0.9, 0.8], [1, 1])).toBeNull();
+    expect(auc([0.9, 0.8], [0, 0])).toBeNull();
+    expect(auc([], [])).toBeNull();
+  });
+});
+
+describe('dcg', () => {
+  it('discounts each label by log2 of its position + 1, up to k', () => {
+    // 1 / log2(2) + 0 + 1 / log2(4)
+    expect(dcg([1, 0, 1], 3)).toBe(1.5);
+    expect(dcg([1, 0, 1], 1)).toBe(1);
+    expect(dcg([0, 1], 2)).toBeCloseTo(1 / Math.log2(3), 12);
+    expect(dcg([], 10)).toBe(0);
+  });
+});
+
+describe('ndcgAtK', () => {
+  it('divides by the DCG of the ideal order', () => {
+    // (1 / log2(3) + 1 / 2) / (1 + 1 / log2(3))
+    expect(ndcgAtK([0, 1, 1], 3)).toBeCloseTo(0.693426, 6);
+    expect(ndcgAtK([1, 1, 0], 3)).toBe(1);
+  });
+
+  it('only looks at the top k', () => {
+    expect(ndcgAtK([0, 1], 1)).toBe(0);
+    // The positive at 4 is cut off, but still counts towards the ideal 1 + 1 / log2(3)
+    expect(ndcgAtK([1, 0, 0, 1], 2)).toBeCloseTo(1 / (1 + 1 / Math.log2(3)), 12);
+  });
+
+  it('is 0 without a positive', () => {
+    expect(ndcgAtK([0, 0], 2)).toBe(0);
+  });
+});
+
+describe('reciprocalRank', () => {
+  it('is one over the position of the first positive', () => {
+    expect(reciprocalRank([1, 0])).toBe(1);
+    expect(reciprocalRank([0, 0, 1, 1])).toBe(1 / 3);
+    expect(reciprocalRank([0, 0])).toBe(0);
+  });
+});
+
+describe('evaluateRanking', () => {
+  it('averages NDCG and MRR over users with a positive, and takes AUC over every example', () => {
+    const metrics = evaluateRanking([
+      // u1 ranks its positive second
+      { userId: 'u1', candidateId: 'c1', score: 0.9, label: 0 },
+      { userId: 'u1', candidateId: 'c2', score: 0.8, label: 1 },
+      // u2 ranks its positive first
+      { userId: 'u2', candidateId: 'c3', score: 0.7, label: 1 },
+      { userId: 'u2', candidateId: 'c4', score: 0.2, label: 0 },
+      // u3 has no positive and is left out of NDCG and MRR
+      { userId: 'u3', candidateId: 'c5', score: 0.5, label: 0 },
+    ], 10);
+
+    expect(metrics.evaluatedUsers).toBe(2);
+    expect(metrics.ndcgAtK).toBeCloseTo((1 / Math.log2(3) + 1) / 2, 12);
+    expect(metrics.mrr).toBe(0.75);
+    // Both positives beat 0.2 and 0.5 but not 0.9: 4 of 6 pairs
+    expect(metrics.auc).toBeCloseTo(4 / 6, 12);
+  });
+
+  it('breaks score ties by candidate id', () => {
+    const metrics = evaluateRanking([
+      { userId: 'u1', candidateId: 'b', score: 0.5, label: 1 },
+      { userId: 'u1', candidateId: 'a', score: 0.5, label: 0 },
+    ], 10);
+
+    expect(metrics.mrr).toBe(0.5);
+  });
+
+  it('reports nothing for users without a positive', () => {
+    expect(evaluateRanking([{ userId: 'u1', candidateId: 'c1', score: 0.5, label: 0 }], 10)).toEqual({
+      auc: null,
+      ndcgAtK: null,
+      mrr: null,
+      evaluatedUsers: 0,
+    });
+  });
+});
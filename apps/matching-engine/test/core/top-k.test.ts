@@ -0,0 +1,42 @@
+/**
+ * Bounded top-K against a full sort
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TopK } from '../../src/core/top-k.js';
+import { seededRandom } from '../support/random.js';
+
+const descending = (a: number, b: number) => b - a;
+
+describe('TopK', () => {
+  it('keeps the k best items, best first', () => {
+    const top = new TopK(3, descending);
+    [5, 1, 9, 3, 7, 2, 8].forEach((n) => top.push(n));
+
+    expect(top.size).toBe(3);
+    expect(top.toSorted()).toEqual([9, 8, 7]);
+  });
+
+  it('holds fewer than k items until k have been pushed, and nothing for k = 0', () => {
+    const top = new TopK(5, descending);
+    [2, 4].forEach((n) => top.push(n));
+    expect(top.toSorted()).toEqual([4, 2]);
+
+    const none = new TopK(0, descending);
+    none.push(1);
+    expect(none.toSorted()).toEqual([]);
+  });
+
+  it('matches sorting everything and slicing, at every step', () => {
+    const random = seededRandom(7);
+    const top = new TopK(10, descending);
+    const seen: number[] = [];
+
+    for (let i = 0; i < 500; i++) {
+      const n = Math.floor(random() * 100);
+      seen.push(n);
+      top.push(n);
+      expect(top.toSorted()).toEqual([...seen].sort(descending).slice(0, 10));
+    }
+  });
+});
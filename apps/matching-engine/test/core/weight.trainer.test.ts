@@ -0,0 +1,44 @@
+/**
+ * Weight training against the ranking users were shown
+ */
+
+import { describe, expect, it } from 'vitest';
+import { weightTrainer } from '../../src/core/weight.trainer.js';
+import type { TrainingExample } from '../../src/types/outcome.types.js';
+
+/**
+ * Acceptance follows semanticScoreAtoB, while the logged scores ranked the
+ * declined matches first
+ */
+function examples(count: number): TrainingExample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const label = (i % 2) as 0 | 1;
+    return {
+      userId: `u${Math.floor(i / 4)}`,
+      candidateId: `c${i}`,
+      features: { semanticScoreAtoB: label ? 0.9 : 0.1, semanticScoreBtoA: 0.5, languageScore: 0.5, trustScore: 0.5 },
+      totalScore: label ? 0.2 : 0.8,
+      label,
+      shownAt: new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString(),
+    };
+  });
+}
+
+describe('weightTrainer.train', () => {
+  it('compares the learned weights with the logged scores on the held-out examples', () => {
+    const { weights, report } = weightTrainer.train(examples(40), { holdoutFraction: 0.5 });
+
+    expect(weights.w1).toBeGreaterThan(weights.w2);
+    expect(report).toMatchObject({ examples: 40, positives: 20, trainExamples: 20, holdoutExamples: 20 });
+
+    expect(report.learned).toMatchObject({ auc: 1, ndcgAtK: 1, mrr: 1, evaluatedUsers: 5 });
+    // Each user was shown both declined matches above both accepted ones
+    expect(report.baseline).toMatchObject({ auc: 0, mrr: 1 / 3, evaluatedUsers: 5 });
+  });
+
+  it('needs both labels to train', () => {
+    const accepted = examples(10).map((example) => ({ ...example, label: 1 as const }));
+
+    expect(() => weightTrainer.train(accepted, {})).toThrow(/both accepted and declined/);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Experiments survive a restart when saved to a file
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ExperimentRepository } from '../../src/repositories/experiment.repository.js';
+import type { Experiment } from '../../src/types/experiment.types.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'experiments-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function open(): Promise<ExperimentRepository> {
+  const repository = new ExperimentRepository(path.join(dir, 'experiments.json'));
+  await repository.initialize();
+  return repository;
+}
+
+function experiment(id: string, status: Experiment['status']): Experiment {
+  const createdAt = new Date(id === 'first' ? '2024-01-01T00:00:00.000Z' : '2024-02-01T00:00:00.000Z');
+  return {
+    id,
+    status,
+    variants: [
+      { name: 'control', weight: 1, config: {} },
+      { name: 'language-heavy', weight: 1, config: { weights: { w1: 0.2, w2: 0.2, w3: 0.5, w4: 0.1 } } },
+    ],
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe('ExperimentRepository', () => {
+  it('reloads saved experiments, with dates revived', async () => {
+    const repository = await open();
+    await repository.save(experiment('second', 'running'));
+    await repository.save(experiment('first', 'stopped'));
+
+    const reloaded = await open();
+    expect(await reloaded.getAll()).toEqual([experiment('first', 'stopped'), experiment('second', 'running')]);
+  });
+
+  it('persists updates and deletes', async () => {
+    const repository = await open();
+    await repository.save(experiment('first', 'running'));
+    await repository.save(experiment('second', 'running'));
+    await repository.save({ ...experiment('first', 'running'), status: 'stopped' });
+    await repository.delete('second');
+
+    const reloaded = await open();
+    expect(await reloaded.getAll()).toEqual([experiment('first', 'stopped')]);
+  });
+
+  it('starts empty without a file, and keeps nothing when disabled', async () => {
+    expect(await (await open()).getAll()).toEqual([]);
+
+    const inMemory = new ExperimentRepository(null);
+    await inMemory.save(experiment('first', 'running'));
+    await inMemory.initialize();
+    expect(await inMemory.getAll()).toEqual([]);
+  });
+});
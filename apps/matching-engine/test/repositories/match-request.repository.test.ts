@@ -0,0 +1,99 @@
+/**
+ * Match requests, blocks and feedback survive a restart when saved to a file
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FeedbackRepository, type StoredFeedback } from '../../src/repositories/feedback.repository.js';
+import { MatchRequestRepository, type StoredMatchRequests } from '../../src/repositories/match-request.repository.js';
+import { SnapshotFile } from '../../src/repositories/snapshot.file.js';
+import type { SessionFeedback } from '../../src/types/feedback.types.js';
+import type { MatchRequest } from '../../src/types/match-request.types.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'match-requests-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function openRequests(): Promise<MatchRequestRepository> {
+  const repository = new MatchRequestRepository(
+    new SnapshotFile<StoredMatchRequests>(path.join(dir, 'match-requests.json'), 'Match request store')
+  );
+  await repository.initialize();
+  return repository;
+}
+
+async function openFeedback(): Promise<FeedbackRepository> {
+  const repository = new FeedbackRepository(new SnapshotFile<StoredFeedback>(path.join(dir, 'feedback.json'), 'Feedback store'));
+  await repository.initialize();
+  return repository;
+}
+
+const request: MatchRequest = {
+  id: 'r1',
+  fromUserId: 'alice',
+  toUserId: 'bob',
+  status: 'accepted',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  expiresAt: new Date('2024-01-15T00:00:00.000Z'),
+  respondedAt: new Date('2024-01-02T00:00:00.000Z'),
+};
+
+describe('MatchRequestRepository', () => {
+  it('reloads requests and blocks, with dates revived', async () => {
+    const repository = await openRequests();
+    await repository.save(request);
+    await repository.block({ userId: 'alice', blockedUserId: 'carol', createdAt: new Date('2024-01-03T00:00:00.000Z') });
+    await repository.block({ userId: 'dave', blockedUserId: 'carol', createdAt: new Date('2024-01-04T00:00:00.000Z') });
+    await repository.unblock('dave', 'carol');
+
+    const reloaded = await openRequests();
+    expect(await reloaded.getById('r1')).toEqual(request);
+    expect(await reloaded.getBlocks('alice')).toEqual([
+      { userId: 'alice', blockedUserId: 'carol', createdAt: new Date('2024-01-03T00:00:00.000Z') },
+    ]);
+    expect(await reloaded.getBlockedBy('carol')).toHaveLength(1);
+  });
+
+  it('starts empty without a file, and keeps nothing in memory mode', async () => {
+    expect(await (await openRequests()).getForUser('alice')).toEqual([]);
+
+    const inMemory = new MatchRequestRepository(null);
+    await inMemory.save(request);
+    await inMemory.initialize();
+    expect(await inMemory.getById('r1')).toBeNull();
+  });
+
+  it('refuses a file written by a newer schema version', async () => {
+    await writeFile(path.join(dir, 'match-requests.json'), JSON.stringify({ schemaVersion: 99, requests: [], blocks: [] }));
+
+    await expect(openRequests()).rejects.toThrow(/newer than supported/);
+  });
+});
+
+describe('FeedbackRepository', () => {
+  it('reloads feedback, with dates revived', async () => {
+    const feedback: SessionFeedback = {
+      id: 'f1',
+      matchRequestId: 'r1',
+      fromUserId: 'alice',
+      toUserId: 'bob',
+      rating: 5,
+      noShow: false,
+      tags: ['patient'],
+      createdAt: new Date('2024-01-05T00:00:00.000Z'),
+    };
+    await (await openFeedback()).save(feedback);
+
+    const reloaded = await openFeedback();
+    expect(await reloaded.getAll()).toEqual([feedback]);
+    expect(await reloaded.findByAuthorAndRequest('alice', 'r1')).toEqual(feedback);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Contract every UserRepository implementation must meet, run against each store
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { UserRepository } from '../../src/repositories/user.repository.js';
+import { InMemoryUserRepository } from '../../src/repositories/user.memory.repository.js';
+import { FileUserRepository } from '../../src/repositories/user.file.repository.js';
+import { USER_STORE_SCHEMA_VERSION, migrateUserStore } from '../../src/repositories/user.migrations.js';
+import { skill, user } from '../support/users.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'user-store-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function createFileRepository(): Promise<FileUserRepository> {
+  const repository = new FileUserRepository(path.join(dir, 'users.json'));
+  await repository.initialize();
+  return repository;
+}
+
+const stores: Array<[string, () => Promise<UserRepository>]> = [
+  ['InMemoryUserRepository', async () => new InMemoryUserRepository()],
+  ['FileUserRepository', createFileRepository],
+];
+
+describe.each(stores)('%s', (_name, createRepository) => {
+  let repository: UserRepository;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+  });
+
+  describe('save and getById', () => {
+    it('returns the saved profile with normalized skills and a fresh updatedAt', async () => {
+      const before = Date.now();
+      const saved = await repository.save(user('u1', { offers: [skill('python3')] }));
+
+      expect(saved.offers[0]).toMatchObject({ canonicalId: 'python', category: 'programming' });
+      expect(saved.updatedAt.getTime()).toBeGreaterThanOrEqual(before);
+      expect(await repository.getById('u1')).toEqual(saved);
+    });
+
+    it('replaces an existing profile', async () => {
+      await repository.save(user('u1', { username: 'before' }));
+      await repository.save(user('u1', { username: 'after' }));
+
+      expect((await repository.getById('u1'))?.username).toBe('after');
+      expect(await repository.getAll()).toHaveLength(1);
+    });
+
+    it('returns null for an unknown id', async () => {
+      expect(await repository.getById('missing')).toBeNull();
+      expect(await repository.exists('missing')).toBe(false);
+    });
+  });
+
+  describe('saveMany', () => {
+    it('saves every profile in the batch', async () => {
+      const saved = await repository.saveMany([user('u1'), user('u2'), user('u3')]);
+
+      expect(saved.map((profile) => profile.id)).toEqual(['u1', 'u2', 'u3']);
+      expect((await repository.getAll()).map((profile) => profile.id).sort()).toEqual(['u1', 'u2', 'u3']);
+    });
+
+    it('stamps updatedAt unless asked to preserve it', async () => {
+      const before = Date.now();
+      const [stamped] = await repository.saveMany([user('u1')]);
+      const [preserved] = await repository.saveMany([user('u2')], { preserveUpdatedAt: true });
+
+      expect(stamped!.updatedAt.getTime()).toBeGreaterThanOrEqual(before);
+      expect(preserved!.updatedAt).toEqual(user('u2').updatedAt);
+      expect((await repository.getById('u2'))?.updatedAt).toEqual(user('u2').updatedAt);
+    });
+  });
+
+  describe('getAll and getAllExcept', () => {
+    it('lists every profile, optionally leaving one out', async () => {
+      await repository.saveMany([user('u1'), user('u2')]);
+
+      expect((await repository.getAll()).map((profile) => profile.id).sort()).toEqual(['u1', 'u2']);
+      expect((await repository.getAllExcept('u1')).map((profile) => profile.id)).toEqual(['u2']);
+    });
+  });
+
+  describe('touch', () => {
+    it('updates lastActiveAt without changing the profile', async () => {
+      const saved = await repository.save(user('u1'));
+      const at = new Date('2030-01-01T00:00:00.000Z');
+      await repository.touch('u1', at);
+
+      expect(await repository.getById('u1')).toEqual({ ...saved, lastActiveAt: at });
+    });
+
+    it('ignores unknown users', async () => {
+      await repository.touch('missing');
+      expect(await repository.exists('missing')).toBe(false);
+    });
+  });
+
+  describe('setTrustScore', () => {
+    it('updates trustScore without changing updatedAt', async () => {
+      const saved = await repository.save(user('u1'));
+      await repository.setTrustScore('u1', 0.9);
+
+      expect(await repository.getById('u1')).toEqual({ ...saved, trustScore: 0.9 });
+    });
+
+    it('ignores unknown users', async () => {
+      await repository.setTrustScore('missing', 0.9);
+      expect(await repository.exists('missing')).toBe(false);
+    });
+  });
+
+  describe('delete and clear', () => {
+    it('deletes a profile and reports whether it existed', async () => {
+      await repository.save(user('u1'));
+
+      expect(await repository.delete('u1')).toBe(true);
+      expect(await repository.delete('u1')).toBe(false);
+      expect(await repository.getById('u1')).toBeNull();
+    });
+
+    it('clears every profile', async () => {
+      await repository.saveMany([user('u1'), user('u2')]);
+      await repository.clear();
+
+      expect(await repository.getAll()).toEqual([]);
+    });
+  });
+
+  describe('events', () => {
+    it('emits saved, savedMany, deleted and cleared after each change', async () => {
+      const events: string[] = [];
+      repository.on('saved', (profile) => events.push(`saved ${profile.id}`));
+      repository.on('savedMany', (profiles) => events.push(`savedMany ${profiles.map((profile) => profile.id).join(',')}`));
+      repository.on('deleted', (userId) => events.push(`deleted ${userId}`));
+      repository.on('cleared', () => events.push('cleared'));
+
+      await repository.save(user('u1'));
+      await repository.saveMany([user('u2'), user('u3')]);
+      await repository.saveMany([]);
+      await repository.touch('u1');
+      await repository.setTrustScore('u1', 0.9);
+      await repository.delete('u1');
+      await repository.delete('u1');
+      await repository.clear();
+
+      expect(events).toEqual(['saved u1', 'savedMany u2,u3', 'deleted u1', 'cleared']);
+    });
+
+    it('emits the profile as stored', async () => {
+      let emitted: unknown = null;
+      repository.on('saved', (profile) => {
+        emitted = profile;
+      });
+
+      const saved = await repository.save(user('u1', { offers: [skill('golang')] }));
+      expect(emitted).toEqual(saved);
+    });
+  });
+
+  describe('lookups', () => {
+    beforeEach(async () => {
+      await repository.saveMany([
+        user('coder', { offers: [skill('Python')], languages: [{ tag: 'es-MX', proficiency: 'native' }] }),
+        user('web', { offers: [skill('React')], languages: ['en-US'] }),
+        user('musician', { offers: [skill('Guitar')], languages: ['fr'] }),
+      ]);
+    });
+
+    it('finds users by skill category, including subcategories', async () => {
+      const ids = async (category: string) =>
+        (await repository.getBySkillCategory(category)).map((profile) => profile.id).sort();
+
+      expect(await ids('programming')).toEqual(['coder', 'web']);
+      expect(await ids('technology')).toEqual(['coder', 'web']);
+      expect(await ids('web-development')).toEqual(['web']);
+      expect(await ids('music')).toEqual(['musician']);
+    });
+
+    it('finds users by language tag or name', async () => {
+      const ids = async (language: string) =>
+        (await repository.getByLanguage(language)).map((profile) => profile.id).sort();
+
+      expect(await ids('es')).toEqual(['coder']);
+      expect(await ids('Spanish')).toEqual(['coder']);
+      expect(await ids('en')).toEqual(['web']);
+    });
+
+    it('keeps the lookups in step with updates and deletes', async () => {
+      await repository.save(user('web', { offers: [skill('Guitar')], languages: ['fr'] }));
+      await repository.delete('musician');
+
+      expect((await repository.getBySkillCategory('programming')).map((profile) => profile.id)).toEqual(['coder']);
+      expect((await repository.getByLanguage('fr')).map((profile) => profile.id)).toEqual(['web']);
+
+      await repository.clear();
+      expect(await repository.getByLanguage('es')).toEqual([]);
+    });
+  });
+});
+
+describe('FileUserRepository persistence', () => {
+  const storePath = () => path.join(dir, 'users.json');
+
+  it('reloads saved profiles, with dates revived', async () => {
+    const repository = await createFileRepository();
+    const saved = await repository.saveMany([user('u1', { offers: [skill('Python')] }), user('u2')]);
+    await repository.delete('u2');
+
+    const reloaded = await createFileRepository();
+    expect(await reloaded.getAll()).toEqual([saved[0]]);
+    expect((await reloaded.getById('u1'))?.createdAt).toBeInstanceOf(Date);
+    expect((await reloaded.getBySkillCategory('programming')).map((profile) => profile.id)).toEqual(['u1']);
+  });
+
+  it('persists trust scores', async () => {
+    const repository = await createFileRepository();
+    await repository.save(user('u1'));
+    await repository.setTrustScore('u1', 0.9);
+
+    expect((await (await createFileRepository()).getById('u1'))?.trustScore).toBe(0.9);
+  });
+
+  it('persists every save made while a write is in flight', async () => {
+    const repository = await createFileRepository();
+    await Promise.all(Array.from({ length: 20 }, (_, i) => repository.save(user(`u${i}`))));
+
+    const stored = JSON.parse(await readFile(storePath(), 'utf8'));
+    expect(stored.users).toHaveLength(20);
+  });
+
+  it('starts empty without a store file', async () => {
+    expect(await (await createFileRepository()).getAll()).toEqual([]);
+  });
+
+  it('migrates a version 0 store and writes it back at the current version', async () => {
+    const legacy = { ...user('u1'), updatedAt: '2024-02-01T00:00:00.000Z' } as Record<string, unknown>;
+    delete legacy.lastActiveAt;
+    await writeFile(storePath(), JSON.stringify([legacy]));
+
+    const repository = await createFileRepository();
+    expect((await repository.getById('u1'))?.lastActiveAt).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+
+    const stored = JSON.parse(await readFile(storePath(), 'utf8'));
+    expect(stored.schemaVersion).toBe(USER_STORE_SCHEMA_VERSION);
+  });
+
+  it('refuses a store from a newer schema version', async () => {
+    await writeFile(storePath(), JSON.stringify({ schemaVersion: USER_STORE_SCHEMA_VERSION + 1, users: [] }));
+    await expect(createFileRepository()).rejects.toThrow(/newer than supported/);
+  });
+});
+
+describe('migrateUserStore', () => {
+  it('keeps an existing lastActiveAt', () => {
+    const { data, applied } = migrateUserStore({
+      schemaVersion: 1,
+      users: [{ id: 'u1', updatedAt: 'a', lastActiveAt: 'b' }],
+    });
+
+    expect(applied).toBe(1);
+    expect(data.users[0]).toMatchObject({ lastActiveAt: 'b' });
+  });
+
+  it('applies nothing to a current store', () => {
+    expect(migrateUserStore({ schemaVersion: USER_STORE_SCHEMA_VERSION, users: [] }).applied).toBe(0);
+  });
+
+  it('rejects data that is not a user list', () => {
+    expect(() => migrateUserStore({ users: 'nope' })).toThrow(/not a versioned user list/);
+  });
+});
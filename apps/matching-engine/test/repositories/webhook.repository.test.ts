@@ -0,0 +1,113 @@
+/**
+ * Webhook subscriptions, deliveries and sent candidates survive a restart when saved to a file
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SnapshotFile } from '../../src/repositories/snapshot.file.js';
+import { WebhookRepository, type StoredWebhooks } from '../../src/repositories/webhook.repository.js';
+import type { WebhookDelivery, WebhookSubscription } from '../../src/types/webhook.types.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'webhooks-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function openWebhooks(): Promise<WebhookRepository> {
+  const repository = new WebhookRepository(new SnapshotFile<StoredWebhooks>(path.join(dir, 'webhooks.json'), 'Webhook store'));
+  await repository.initialize();
+  return repository;
+}
+
+const subscription: WebhookSubscription = {
+  id: 's1',
+  userId: 'learner',
+  url: 'https://hooks.example.com/matches',
+  minScore: 0.5,
+  secret: 'whsec_test',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+};
+
+const delivery = (id: string, overrides: Partial<WebhookDelivery> = {}): WebhookDelivery => ({
+  id,
+  subscriptionId: 's1',
+  userId: 'learner',
+  candidateId: 'teacher',
+  payload: {
+    event: 'match.found',
+    deliveryId: id,
+    subscriptionId: 's1',
+    userId: 'learner',
+    candidate: { id: 'teacher', username: 'teacher' },
+    matchScore: { totalScore: 0.8 } as WebhookDelivery['payload']['matchScore'],
+    occurredAt: '2024-01-02T00:00:00.000Z',
+  },
+  status: 'pending',
+  attempts: [{ attemptedAt: new Date('2024-01-02T00:00:00.000Z'), statusCode: 503, durationMs: 12 }],
+  nextAttemptAt: new Date('2024-01-02T00:00:02.000Z'),
+  createdAt: new Date('2024-01-02T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('WebhookRepository', () => {
+  it('reloads subscriptions and deliveries, with dates revived', async () => {
+    const repository = await openWebhooks();
+    await repository.saveSubscription(subscription);
+    const delivered = delivery('d1', {
+      status: 'delivered',
+      nextAttemptAt: null,
+      deliveredAt: new Date('2024-01-02T00:00:03.000Z'),
+    });
+    await repository.saveDelivery(delivered);
+    await repository.saveDelivery(delivery('d2'));
+
+    const reloaded = await openWebhooks();
+    expect(await reloaded.getSubscriptions()).toEqual([subscription]);
+    expect(await reloaded.getDeliveries('s1')).toEqual([delivery('d2'), delivered]);
+    expect(await reloaded.getPendingDeliveries()).toEqual([delivery('d2')]);
+  });
+
+  it('reloads the candidates sent to each subscription', async () => {
+    const repository = await openWebhooks();
+    await repository.saveSubscription(subscription);
+    await repository.setNotified('s1', 'teacher', true);
+    await repository.setNotified('s1', 'tutor', true);
+    await repository.setNotified('s1', 'tutor', false);
+
+    const reloaded = await openWebhooks();
+    expect(await reloaded.wasNotified('s1', 'teacher')).toBe(true);
+    expect(await reloaded.wasNotified('s1', 'tutor')).toBe(false);
+
+    await reloaded.forgetCandidate('teacher');
+    expect(await (await openWebhooks()).wasNotified('s1', 'teacher')).toBe(false);
+  });
+
+  it('deletes a subscription with its deliveries and sent candidates', async () => {
+    const repository = await openWebhooks();
+    await repository.saveSubscription(subscription);
+    await repository.saveDelivery(delivery('d1'));
+    await repository.setNotified('s1', 'teacher', true);
+    await repository.deleteSubscription('s1');
+
+    const reloaded = await openWebhooks();
+    expect(await reloaded.getSubscriptions()).toEqual([]);
+    expect(await reloaded.getPendingDeliveries()).toEqual([]);
+    expect(await reloaded.wasNotified('s1', 'teacher')).toBe(false);
+  });
+
+  it('starts empty without a file, and keeps nothing in memory mode', async () => {
+    expect(await (await openWebhooks()).getSubscriptions()).toEqual([]);
+
+    const inMemory = new WebhookRepository(null);
+    await inMemory.saveSubscription(subscription);
+    await inMemory.initialize();
+    expect(await inMemory.getSubscription('s1')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Weekly availability overlap across timezones
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { availabilityService } from '../../src/services/availability.service.js';
+import type { AvailabilityWindow } from '../../src/types/user.types.js';
+import { user } from '../support/users.js';
+
+const SUNDAY = 0;
+const MONDAY = 1;
+const SATURDAY = 6;
+
+const window = (day: number, start: string, end: string): AvailabilityWindow => ({ day, start, end });
+
+const overlapHours = (
+  timezoneA: string, availabilityA: AvailabilityWindow[],
+  timezoneB: string, availabilityB: AvailabilityWindow[],
+  referenceDate: Date
+) => availabilityService.calculateAvailabilityOverlap(
+  user('a', { timezone: timezoneA, availability: availabilityA }),
+  user('b', { timezone: timezoneB, availability: availabilityB }),
+  referenceDate
+).overlapHours;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('calculateAvailabilityOverlap', () => {
+  const winter = new Date('2024-01-17T12:00:00Z');
+
+  it('compares windows in UTC, across a day boundary', () => {
+    // Tokyo Monday 08:00-10:00 is Sunday 23:00 to Monday 01:00 UTC
+    expect(overlapHours('Asia/Tokyo', [window(MONDAY, '08:00', '10:00')], 'Europe/London', [window(SUNDAY, '22:00', '24:00')], winter))
+      .toBe(1);
+  });
+
+  it('compares windows in UTC, across the end of the week', () => {
+    // Auckland (UTC+13 in January) Sunday 06:00-08:00 is Saturday 17:00-19:00 UTC
+    expect(overlapHours('Pacific/Auckland', [window(SUNDAY, '06:00', '08:00')], 'UTC', [window(SATURDAY, '18:00', '20:00')], winter))
+      .toBe(1);
+  });
+
+  it('treats users without windows as unknown', () => {
+    expect(availabilityService.calculateAvailabilityOverlap(user('a'), user('b'))).toEqual({ score: 0.5, overlapHours: null, known: false });
+  });
+
+  it('converts each window at its own offset in a DST transition week', () => {
+    // New York moves from UTC-5 to UTC-4 at 02:00 on Sunday 10 March 2024
+    const dstWeek = new Date('2024-03-13T12:00:00Z');
+    const newYork = [window(SUNDAY, '00:00', '01:00'), window(MONDAY, '09:00', '10:00')];
+
+    // Sunday 00:00 EST is 05:00 UTC; Monday 09:00 EDT is 13:00 UTC
+    expect(overlapHours('America/New_York', newYork, 'UTC', [window(SUNDAY, '05:00', '06:00')], dstWeek)).toBe(1);
+    expect(overlapHours('America/New_York', newYork, 'UTC', [window(MONDAY, '13:00', '14:00')], dstWeek)).toBe(1);
+    expect(overlapHours('America/New_York', newYork, 'UTC', [window(SUNDAY, '04:00', '05:00')], dstWeek)).toBe(0);
+  });
+
+  it('shifts the same windows by the season', () => {
+    const newYork = [window(MONDAY, '09:00', '10:00')];
+    const utc = [window(MONDAY, '14:00', '15:00')];
+
+    expect(overlapHours('America/New_York', newYork, 'UTC', utc, winter)).toBe(1);
+    expect(overlapHours('America/New_York', newYork, 'UTC', utc, new Date('2024-07-17T12:00:00Z'))).toBe(0);
+  });
+
+  it('creates one formatter per timezone', () => {
+    const DateTimeFormat = vi.spyOn(Intl, 'DateTimeFormat');
+    const lima = [window(MONDAY, '09:00', '17:00'), window(SATURDAY, '10:00', '12:00')];
+
+    overlapHours('America/Lima', lima, 'America/Lima', lima, winter);
+    overlapHours('America/Lima', lima, 'America/Lima', lima, winter);
+
+    expect(DateTimeFormat).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Embedding cache: LRU eviction and the on-disk layer
+ */
+
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EmbeddingCache } from '../../src/services/embedding.cache.js';
+
+const MODEL = 'test-model';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'embedding-cache-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('memory layer', () => {
+  it('evicts the least recently used entry, counting reads as use', async () => {
+    const cache = new EmbeddingCache({ maxMemoryEntries: 2, directory: null });
+    await cache.set(MODEL, 'a', [1]);
+    await cache.set(MODEL, 'b', [2]);
+    await cache.get(MODEL, 'a');
+    await cache.set(MODEL, 'c', [3]);
+
+    expect(await cache.get(MODEL, 'b')).toBeNull();
+    expect(await cache.get(MODEL, 'a')).toEqual([1]);
+    expect(await cache.get(MODEL, 'c')).toEqual([3]);
+    expect(cache.getStats()).toMatchObject({ memoryEntries: 2, memoryHits: 3, misses: 1 });
+  });
+
+  it('shares entries between texts that differ only in case and spacing', async () => {
+    const cache = new EmbeddingCache({ directory: null });
+    await cache.set(MODEL, '  Web   Development ', [1, 2]);
+
+    expect(await cache.get(MODEL, 'web development')).toEqual([1, 2]);
+    expect(await cache.get('other-model', 'web development')).toBeNull();
+  });
+});
+
+describe('disk layer', () => {
+  const entryPath = (cache: EmbeddingCache, text: string) => {
+    const key = cache.keyFor(MODEL, text);
+    return path.join(dir, key.slice(0, 2), `${key}.json`);
+  };
+
+  it('reloads entries written by an earlier instance', async () => {
+    await new EmbeddingCache({ directory: dir }).set(MODEL, 'guitar', [0.5, -0.25]);
+
+    const reloaded = new EmbeddingCache({ directory: dir });
+    expect(await reloaded.get(MODEL, 'guitar')).toEqual([0.5, -0.25]);
+    expect(await reloaded.get(MODEL, 'guitar')).toEqual([0.5, -0.25]);
+    expect(reloaded.getStats()).toMatchObject({ diskHits: 1, memoryHits: 1, misses: 0 });
+  });
+
+  it('reads back entries evicted from memory', async () => {
+    const cache = new EmbeddingCache({ maxMemoryEntries: 1, directory: dir });
+    await cache.set(MODEL, 'a', [1]);
+    await cache.set(MODEL, 'b', [2]);
+
+    expect(await cache.get(MODEL, 'a')).toEqual([1]);
+    expect(cache.getStats()).toMatchObject({ diskHits: 1, memoryEntries: 1 });
+  });
+
+  it.each([
+    ['truncated', '[0.5, -0.2'],
+    ['not a list', '{"embedding": [1]}'],
+    ['a list of non-numbers', '["a", "b"]'],
+    ['empty', ''],
+  ])('treats a %s entry as a miss and replaces it on the next set', async (_name, content) => {
+    const cache = new EmbeddingCache({ directory: dir });
+    await cache.set(MODEL, 'guitar', [1]);
+    await writeFile(entryPath(cache, 'guitar'), content);
+
+    const reloaded = new EmbeddingCache({ directory: dir });
+    expect(await reloaded.get(MODEL, 'guitar')).toBeNull();
+
+    await reloaded.set(MODEL, 'guitar', [0.75]);
+    expect(await new EmbeddingCache({ directory: dir }).get(MODEL, 'guitar')).toEqual([0.75]);
+  });
+
+  it('leaves no temporary files behind', async () => {
+    const cache = new EmbeddingCache({ directory: dir });
+    await Promise.all(['a', 'b', 'c'].map((text, i) => cache.set(MODEL, text, [i])));
+
+    const files = (await readdir(dir, { recursive: true })).filter((file) => file.endsWith('.tmp'));
+    expect(files).toEqual([]);
+  });
+});
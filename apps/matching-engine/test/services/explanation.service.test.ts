@@ -0,0 +1,76 @@
+/**
+ * Match explanations: matched pairs and the readable summary
+ */
+
+import { describe, expect, it } from 'vitest';
+import { explanationService } from '../../src/services/explanation.service.js';
+import type { DirectionalMatch, LanguageSimilarityResult, TrustScoreResult } from '../../src/types/matching.types.js';
+import { skill, user } from '../support/users.js';
+
+const ana = user('ana', { username: 'Ana' });
+const ben = user('ben', { username: 'Ben' });
+
+// Ana teaches guitar and a little cooking; Ben teaches Spanish
+const anaToBen: DirectionalMatch = {
+  score: 0.6,
+  pairs: [
+    { offer: skill('Guitar', 'expert'), want: skill('Guitar', 'beginner'), similarity: 1, levelWeight: 1, levelFit: 'above-target' },
+    { offer: skill('Cooking', 'beginner'), want: skill('Baking', 'intermediate'), similarity: 0.8, levelWeight: 0.2, levelFit: 'below-current' },
+  ],
+};
+const benToAna: DirectionalMatch = {
+  score: 0.5,
+  pairs: [
+    { offer: skill('Spanish', 'intermediate'), want: skill('Spanish conversation', 'beginner'), similarity: 0.9, levelWeight: 0.9, levelFit: 'at-target' },
+  ],
+};
+
+const trust: TrustScoreResult = { score: 0.55, factors: { userATrust: 0.6, userBTrust: 0.5, averageTrust: 0.55 } };
+
+const language = (shared: LanguageSimilarityResult['sharedLanguages']): LanguageSimilarityResult => ({
+  score: 0,
+  commonLanguages: shared.map((entry) => entry.language),
+  totalLanguages: shared.length,
+  sharedLanguages: shared,
+});
+const english = { language: 'en', proficiencyA: 'native', proficiencyB: 'C1', mutualProficiency: 'C1' } as const;
+const spanish = { language: 'es', proficiencyA: 'B1', proficiencyB: 'native', mutualProficiency: 'B1' } as const;
+
+describe('explain', () => {
+  it('lists both directions, strongest weighted similarity first', () => {
+    const explanation = explanationService.explain(ana, ben, anaToBen, benToAna, language([english]), trust, 'gap-aware');
+
+    expect(explanation.matchedPairs.map((pair) => [pair.offerSkill.name, pair.direction, pair.levelFit])).toEqual([
+      ['Guitar', 'AtoB', 'above-target'],
+      ['Spanish', 'BtoA', 'at-target'],
+      ['Cooking', 'AtoB', 'below-current'],
+    ]);
+    expect(explanation).toMatchObject({ levelGapPolicy: 'gap-aware', commonLanguages: ['en'], trustFactors: trust.factors });
+  });
+
+  it('summarizes the best pair each way, the shared language and trust', () => {
+    const { summary } = explanationService.explain(ana, ben, anaToBen, benToAna, language([english]), trust, 'gap-aware');
+
+    expect(summary).toBe(
+      'Ana can teach Guitar to Ben at expert level (above the level they are aiming for), 100% similar. ' +
+        'Ben can teach Spanish (wanted: Spanish conversation) to Ana at intermediate level (the level they are aiming for), 90% similar. ' +
+        'They can communicate in en (both at least C1). ' +
+        'Combined trust is 55% (Ana: 60%, Ben: 50%).'
+    );
+  });
+
+  it('names every shared language, best first', () => {
+    const { summary } = explanationService.explain(ana, ben, anaToBen, benToAna, language([english, spanish]), trust, 'gap-aware');
+    expect(summary).toContain('They share 2 languages (en, es), best in en (both at least C1).');
+  });
+
+  it('says when there is nothing in common', () => {
+    const none: DirectionalMatch = { score: 0, pairs: [] };
+    const explanation = explanationService.explain(ana, ben, none, none, language([]), trust, 'offer-only');
+
+    expect(explanation.matchedPairs).toEqual([]);
+    expect(explanation.summary).toBe(
+      'Ana and Ben have no overlapping skills yet. They do not share a common language. Combined trust is 55% (Ana: 60%, Ben: 50%).'
+    );
+  });
+});
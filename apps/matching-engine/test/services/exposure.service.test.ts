@@ -0,0 +1,109 @@
+/**
+ * Exposure counts survive restarts through snapshots, replaying only the log written since
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutcomeRepository } from '../../src/repositories/outcome.repository.js';
+import { ExposureService } from '../../src/services/exposure.service.js';
+import type { MatchImpression } from '../../src/types/outcome.types.js';
+import type { MatchResult } from '../../src/types/user.types.js';
+import { user } from '../support/users.js';
+
+const HALF_LIFE_DAYS = 10_000; // Long enough that nothing decays during a test
+
+let dir: string;
+let log: OutcomeRepository;
+let snapshotPath: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'exposure-'));
+  log = new OutcomeRepository(path.join(dir, 'outcomes.jsonl'));
+  snapshotPath = path.join(dir, 'exposure.json');
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+function impression(candidateId: string): MatchImpression {
+  return {
+    type: 'impression',
+    id: `${candidateId}-${Math.random()}`,
+    userId: 'searcher',
+    candidateId,
+    rank: 1,
+    totalScore: 0.5,
+    features: { semanticScoreAtoB: 0.5, semanticScoreBtoA: 0.5, languageScore: 1, trustScore: 0.5 },
+    weightsVersion: null,
+    shownAt: new Date().toISOString(),
+  };
+}
+
+function shown(...candidateIds: string[]): MatchResult[] {
+  return candidateIds.map((id) => ({ userB: user(id) }) as MatchResult);
+}
+
+async function start(): Promise<ExposureService> {
+  const service = new ExposureService(HALF_LIFE_DAYS, snapshotPath, log);
+  await service.initialize();
+  return service;
+}
+
+describe('exposure snapshots', () => {
+  it('replays the whole log when there is no snapshot', async () => {
+    await log.append([impression('u1'), impression('u1'), impression('u2')]);
+    const service = await start();
+
+    expect(service.getExposure('u1')).toBeCloseTo(2);
+    expect(service.getExposure('u2', 'baseline')).toBeCloseTo(1);
+  });
+
+  it('replays only the impressions logged after the snapshot', async () => {
+    await log.append([impression('u1'), impression('u1')]);
+    await start();
+
+    const snapshotEnd = await log.getSize();
+    await log.append([impression('u2')]);
+
+    const readFrom = vi.spyOn(log, 'readFrom');
+    const service = await start();
+
+    expect(readFrom).toHaveBeenCalledWith(snapshotEnd);
+    expect((await readFrom.mock.results[0]!.value).entries).toHaveLength(1);
+    expect(service.getExposure('u1')).toBeCloseTo(2);
+    expect(service.getExposure('u2')).toBeCloseTo(1);
+  });
+
+  it('keeps recorded appearances, including baseline-only ones, across a restart', async () => {
+    const service = await start();
+    service.record(shown('u1', 'u2'), shown('u1', 'u3'));
+    await service.flush();
+
+    const restarted = await start();
+    expect(restarted.getUserExposure('u2')).toMatchObject({ shown: expect.closeTo(1), baseline: 0 });
+    expect(restarted.getUserExposure('u3')).toMatchObject({ shown: 0, baseline: expect.closeTo(1) });
+  });
+
+  it('starts over from the log when the log was replaced', async () => {
+    await log.append([impression('u1'), impression('u1'), impression('u1')]);
+    await start();
+
+    await writeFile(path.join(dir, 'outcomes.jsonl'), `${JSON.stringify(impression('u2'))}\n`);
+    const service = await start();
+
+    expect(service.getExposure('u1')).toBe(0);
+    expect(service.getExposure('u2')).toBeCloseTo(1);
+  });
+
+  it('replays the log when the snapshot is unreadable', async () => {
+    await log.append([impression('u1')]);
+    await writeFile(snapshotPath, '{ not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await start()).getExposure('u1')).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Language matching by BCP-47 tag and CEFR proficiency
+ */
+
+import { describe, expect, it } from 'vitest';
+import { languageService } from '../../src/services/language.service.js';
+import type { UserProfile } from '../../src/types/user.types.js';
+import { user } from '../support/users.js';
+
+const similarity = (languagesA: UserProfile['languages'], languagesB: UserProfile['languages']) =>
+  languageService.calculateLanguageSimilarity(user('a', { languages: languagesA }), user('b', { languages: languagesB }));
+
+describe('calculateLanguageSimilarity', () => {
+  it.each([
+    ['region variants', 'en-US', 'en-GB'],
+    ['a tag and an English name', 'es', 'Spanish'],
+    ['a tag and an endonym', 'de-AT', 'Deutsch'],
+    ['script and region variants', 'zh-Hant-TW', 'zh-CN'],
+    ['underscores and case', 'pt_br', 'PT-pt'],
+    ['unrecognised names, by lowercase text', 'Klingon', 'klingon'],
+  ])('matches %s', (_name, a, b) => {
+    const result = similarity([a], [b]);
+
+    expect(result.commonLanguages).toHaveLength(1);
+    expect(result.score).toBe(0.85); // Plain strings read as C1
+  });
+
+  it('scores the lower of the two proficiencies', () => {
+    const result = similarity([{ tag: 'fr', proficiency: 'native' }], [{ tag: 'fr-CA', proficiency: 'A2' }]);
+
+    expect(result.score).toBe(0.35);
+    expect(result.sharedLanguages).toEqual([{ language: 'fr', proficiencyA: 'native', proficiencyB: 'A2', mutualProficiency: 'A2' }]);
+  });
+
+  it('scores the best shared language, listed first', () => {
+    const result = similarity(
+      [{ tag: 'es', proficiency: 'B1' }, { tag: 'en', proficiency: 'native' }],
+      [{ tag: 'es', proficiency: 'native' }, { tag: 'en-AU', proficiency: 'C2' }]
+    );
+
+    expect(result.score).toBe(0.95);
+    expect(result.commonLanguages).toEqual(['en', 'es']);
+  });
+
+  it('keeps the highest proficiency when a language is listed twice', () => {
+    expect(similarity([{ tag: 'en-US', proficiency: 'A1' }, { tag: 'en-GB', proficiency: 'B2' }], [{ tag: 'en', proficiency: 'native' }]).score)
+      .toBe(0.7);
+  });
+
+  it('reads an unknown proficiency as C1', () => {
+    const unknown = { tag: 'it', proficiency: 'fluent' } as unknown as UserProfile['languages'][number];
+    expect(similarity([unknown], [{ tag: 'it', proficiency: 'native' }]).score).toBe(0.85);
+  });
+
+  it('scores 0 without a shared language, counting each language once', () => {
+    const result = similarity(['en', 'en-US', 'fr'], ['ja']);
+
+    expect(result).toMatchObject({ score: 0, commonLanguages: [], sharedLanguages: [], totalLanguages: 3 });
+    expect(similarity([], ['en']).score).toBe(0);
+  });
+});
+
+describe('lookups', () => {
+  const speaker = user('speaker', { languages: [{ tag: 'pt-BR', proficiency: 'native' }, 'English'] });
+
+  it('checks whether a user speaks a language, whatever the variant', () => {
+    expect(languageService.speaks(speaker, 'pt-PT')).toBe(true);
+    expect(languageService.speaks(speaker, 'en-GB')).toBe(true);
+    expect(languageService.speaks(speaker, 'es')).toBe(false);
+  });
+
+  it('returns the primary subtag of the first language', () => {
+    expect(languageService.getPrimaryLanguage(speaker)).toBe('pt');
+    expect(languageService.getPrimaryLanguage(user('none', { languages: [] }))).toBeNull();
+  });
+
+  it('validates tags', () => {
+    expect(languageService.isValidTag('sr-Latn-RS')).toBe(true);
+    expect(languageService.isValidTag('en_US')).toBe(false);
+    expect(languageService.isValidTag('not a tag')).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Match request lifecycle, as it decides who may rate whom
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { matchRequestRepository } from '../../src/repositories/match-request.repository.js';
+import { matchRequestService } from '../../src/services/match-request.service.js';
+
+afterEach(async () => {
+  await matchRequestRepository.clear();
+});
+
+describe('getSwap', () => {
+  it('returns the accepted request for its two participants, in either order', async () => {
+    const request = await matchRequestService.send('alice', 'bob');
+    await expect(matchRequestService.getSwap(request.id, 'alice', 'bob')).rejects.toMatchObject({ status: 403 });
+
+    await matchRequestService.respond(request.id, 'bob', 'accept');
+    expect(await matchRequestService.getSwap(request.id, 'alice', 'bob')).toMatchObject({ id: request.id, status: 'accepted' });
+    expect(await matchRequestService.getSwap(request.id, 'bob', 'alice')).toMatchObject({ id: request.id });
+  });
+
+  it('refuses users who are not both on the request', async () => {
+    const request = await matchRequestService.send('alice', 'bob');
+    await matchRequestService.respond(request.id, 'bob', 'accept');
+
+    await expect(matchRequestService.getSwap(request.id, 'alice', 'carol')).rejects.toMatchObject({ status: 403 });
+    await expect(matchRequestService.getSwap(request.id, 'carol', 'bob')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('refuses declined, cancelled and unknown requests', async () => {
+    const declined = await matchRequestService.send('alice', 'bob');
+    await matchRequestService.respond(declined.id, 'bob', 'decline');
+    const cancelled = await matchRequestService.send('alice', 'carol');
+    await matchRequestService.cancel(cancelled.id, 'alice');
+
+    await expect(matchRequestService.getSwap(declined.id, 'alice', 'bob')).rejects.toMatchObject({ status: 403 });
+    await expect(matchRequestService.getSwap(cancelled.id, 'alice', 'carol')).rejects.toMatchObject({ status: 403 });
+    await expect(matchRequestService.getSwap('missing', 'alice', 'bob')).rejects.toMatchObject({ status: 404 });
+  });
+});
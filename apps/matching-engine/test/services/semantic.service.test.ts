@@ -0,0 +1,69 @@
+/**
+ * Skill similarity from precomputed embeddings, and level fit between offers and wants
+ */
+
+import { describe, expect, it } from 'vitest';
+import { semanticService } from '../../src/services/semantic.service.js';
+import { taxonomyService } from '../../src/services/taxonomy.service.js';
+import type { LevelGapPolicy } from '../../src/types/matching.types.js';
+import type { Skill, SkillLevel } from '../../src/types/user.types.js';
+import { skill, user } from '../support/users.js';
+
+describe('similarityMatrix', () => {
+  it('scores two wordings of the same taxonomy skill as identical', async () => {
+    const sources = [skill('JS'), skill('Golang')].map((entry) => taxonomyService.normalizeSkill(entry));
+    const targets = [skill('ECMAScript'), skill('Knitting')].map((entry) => taxonomyService.normalizeSkill(entry));
+    const embeddings = await semanticService.embedSkills([...sources, ...targets]);
+
+    const matrix = semanticService.similarityMatrix(sources, targets, embeddings);
+
+    expect(matrix[0]![0]).toBe(1);
+    expect(matrix[0]![1]).toBeLessThan(1);
+    expect(matrix[1]![0]).toBeLessThan(1);
+  });
+
+  it('falls back to the embeddings when either skill is outside the taxonomy', async () => {
+    const sources = [skill('Knitting'), skill('Knitting', 'expert')];
+    const embeddings = await semanticService.embedSkills(sources);
+
+    const matrix = semanticService.similarityMatrix(sources, sources, embeddings);
+
+    expect(sources[0]!.canonicalId).toBeUndefined();
+    expect(matrix[0]![1]).toBeCloseTo((await semanticService.calculateSkillSimilarity(sources[0]!, sources[1]!)).score, 10);
+  });
+});
+
+describe('calculateDirectionalMatch level fit', () => {
+  const fitOf = async (offerLevel: SkillLevel, want: Skill, policy?: LevelGapPolicy) => {
+    const teacher = user('teacher', { offers: [skill('Guitar', offerLevel)] });
+    const learner = user('learner', { wants: [want] });
+    const embeddings = await semanticService.embedSkills([...teacher.offers, ...learner.wants]);
+    const [pair] = semanticService.calculateDirectionalMatch(teacher, learner, embeddings, policy).pairs;
+    return { levelFit: pair!.levelFit, levelWeight: pair!.levelWeight };
+  };
+
+  // Currently beginner, aiming for advanced
+  const want: Skill = { ...skill('Guitar', 'beginner'), targetLevel: 'advanced' };
+
+  it.each([
+    ['expert', 'above-target', 1],
+    ['advanced', 'at-target', 0.85],
+    ['intermediate', 'below-target', 0.6],
+    ['beginner', 'at-current', 0.4],
+  ] as const)('weights a %s offer as %s', async (level, levelFit, levelWeight) => {
+    expect(await fitOf(level, want)).toEqual({ levelFit, levelWeight });
+  });
+
+  it('penalizes offers below the learner\'s current level', async () => {
+    expect(await fitOf('intermediate', skill('Guitar', 'advanced'))).toEqual({ levelFit: 'below-current', levelWeight: 0.1 });
+  });
+
+  it('aims one level above the current level without a target', async () => {
+    expect((await fitOf('advanced', skill('Guitar', 'intermediate'))).levelFit).toBe('at-target');
+    expect((await fitOf('expert', skill('Guitar', 'expert'))).levelFit).toBe('at-target');
+  });
+
+  it('weights by the offer\'s level alone under offer-only, still reporting the fit', async () => {
+    expect(await fitOf('beginner', skill('Guitar', 'advanced'), 'offer-only')).toEqual({ levelFit: 'below-current', levelWeight: 0.5 });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Skill taxonomy: alias resolution, suffix stripping and file loading
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TaxonomyService } from '../../src/services/taxonomy.service.js';
+import type { SkillTaxonomyData } from '../../src/types/taxonomy.types.js';
+import { skill } from '../support/users.js';
+
+const taxonomy: SkillTaxonomyData = {
+  version: 1,
+  categories: [
+    { id: 'technology', name: 'Technology' },
+    { id: 'programming', name: 'Programming', parent: 'technology', aliases: ['coding'] },
+  ],
+  skills: [{ id: 'python', name: 'Python', category: 'programming', aliases: ['py', 'python3'] }],
+};
+
+describe('resolveSkill', () => {
+  const taxonomyService = new TaxonomyService();
+  const resolve = (name: string) => taxonomyService.resolveSkill(name)?.id ?? null;
+
+  it('resolves aliases, names and ids to the canonical skill, ignoring case and punctuation', () => {
+    expect(resolve('JS')).toBe('javascript');
+    expect(resolve('Javascript')).toBe('javascript');
+    expect(resolve('  ES6! ')).toBe('javascript');
+    expect(resolve('golang')).toBe('go');
+    expect(resolve('C++')).toBe('cpp');
+    expect(resolve('k8s')).toBe('kubernetes');
+  });
+
+  it('strips generic trailing words, one at a time', () => {
+    expect(resolve('javascript programming')).toBe('javascript');
+    expect(resolve('Python coding skills')).toBe('python');
+    expect(resolve('Electric guitar lessons')).toBe('guitar');
+  });
+
+  it('strips suffixes only at the end, and only whole words', () => {
+    expect(resolve('programming python')).toBeNull();
+    expect(resolve('pythonprogramming')).toBeNull();
+    expect(resolve('underwater basket weaving lessons')).toBeNull();
+  });
+
+  it('normalizes a known skill to its canonical name, id and category', () => {
+    expect(taxonomyService.normalizeSkill(skill('js', 'expert', 'misc'))).toEqual({
+      id: 'js',
+      name: 'JavaScript',
+      level: 'expert',
+      canonicalId: 'javascript',
+      category: 'web-development',
+    });
+  });
+
+  it('keeps an unknown skill, canonicalizing its category and dropping a stale canonicalId', () => {
+    expect(taxonomyService.normalizeSkill({ ...skill('Juggling', 'beginner', 'Coding'), canonicalId: 'old' })).toEqual({
+      id: 'juggling',
+      name: 'Juggling',
+      level: 'beginner',
+      category: 'programming',
+    });
+  });
+});
+
+describe('loadFile', () => {
+  let dir: string;
+  let taxonomyService: TaxonomyService;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'taxonomy-'));
+    taxonomyService = new TaxonomyService();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const write = async (name: string, content: unknown) => {
+    const filePath = path.join(dir, name);
+    await writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+    return filePath;
+  };
+
+  it('replaces the taxonomy with the file', async () => {
+    await taxonomyService.loadFile(await write('taxonomy.json', taxonomy));
+
+    expect(taxonomyService.resolveSkill('python3')?.id).toBe('python');
+    expect(taxonomyService.resolveSkill('js')).toBeNull();
+    expect(taxonomyService.categoryMatches('programming', 'technology')).toBe(true);
+  });
+
+  it('refuses files that are not JSON', async () => {
+    await expect(taxonomyService.loadFile(await write('taxonomy.yaml', 'skills: []'))).rejects.toThrow(/must be a \.json file/);
+    await expect(taxonomyService.loadFile(await write('taxonomy.json', 'skills: []'))).rejects.toThrow(/not valid JSON/);
+    expect(taxonomyService.resolveSkill('js')?.id).toBe('javascript');
+  });
+
+  it.each([
+    ['missing arrays', { version: 1, skills: [] }, /"categories" and "skills" arrays/],
+    ['a skill without a name', { ...taxonomy, skills: [{ id: 'go', category: 'programming' }] }, /non-empty string "id" and "name"/],
+    ['aliases that are not strings', { ...taxonomy, skills: [{ ...taxonomy.skills[0], aliases: 'py' }] }, /aliases must be an array/],
+    ['a duplicate category', { ...taxonomy, categories: [...taxonomy.categories, { id: 'technology', name: 'Tech' }] }, /category id "technology" is used twice/],
+    ['an unknown parent', { ...taxonomy, categories: [{ id: 'programming', name: 'Programming', parent: 'nope' }], skills: [] }, /unknown parent "nope"/],
+    ['an unknown skill category', { ...taxonomy, skills: [{ id: 'go', name: 'Go', category: 'nope' }] }, /unknown category "nope"/],
+    ['an alias shared by two skills', { ...taxonomy, skills: [...taxonomy.skills, { id: 'pypy', name: 'PyPy', category: 'programming', aliases: ['py'] }] }, /"py" names both skill "python" and skill "pypy"/],
+  ])('rejects %s', async (_name, data, message) => {
+    await expect(taxonomyService.loadFile(await write('taxonomy.json', data))).rejects.toThrow(message);
+  });
+});
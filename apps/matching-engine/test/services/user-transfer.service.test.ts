@@ -0,0 +1,115 @@
+/**
+ * Bulk import: validation, timestamps and batched saves
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { userRepository } from '../../src/repositories/user.repository.js';
+import { userTransferService } from '../../src/services/user-transfer.service.js';
+import type { UserProfile } from '../../src/types/user.types.js';
+import { skill, user } from '../support/users.js';
+
+afterEach(async () => {
+  userRepository.removeAllListeners();
+  await userRepository.clear();
+});
+
+const jsonl = (...records: unknown[]) => records.map((record) => `${JSON.stringify(record)}\n`).join('');
+
+describe('userTransferService.import', () => {
+  it('saves the valid records in one batch and reports the rest', async () => {
+    const events: string[] = [];
+    userRepository.on('saved', (profile) => events.push(`saved ${profile.id}`));
+    userRepository.on('savedMany', (profiles) => events.push(`savedMany ${profiles.map((profile) => profile.id).join(',')}`));
+
+    const report = await userTransferService.import(
+      jsonl(user('u1'), { id: 'bad' }, user('u2')),
+      { format: 'jsonl', mode: 'create', dryRun: false }
+    );
+
+    expect(report).toMatchObject({ records: 3, created: 2, updated: 0, failed: 1 });
+    expect(report.errors[0]).toMatchObject({ line: 2, userId: 'bad' });
+    expect(events).toEqual(['savedMany u1,u2']);
+  });
+
+  it('keeps updatedAt and lastActiveAt from the file', async () => {
+    const updatedAt = new Date('2024-03-01T00:00:00.000Z');
+    const lastActiveAt = new Date('2024-03-05T00:00:00.000Z');
+
+    await userTransferService.import(
+      jsonl({ ...user('u1'), updatedAt, lastActiveAt }),
+      { format: 'jsonl', mode: 'create', dryRun: false }
+    );
+
+    expect(await userRepository.getById('u1')).toMatchObject({ updatedAt, lastActiveAt });
+  });
+
+  it('round-trips timestamps through CSV', async () => {
+    const original: UserProfile = {
+      ...user('u1', { offers: [skill('Guitar', 'expert')] }),
+      updatedAt: new Date('2024-03-01T00:00:00.000Z'),
+      lastActiveAt: new Date('2024-03-05T00:00:00.000Z'),
+    };
+    const csv = userTransferService.export([original], 'csv');
+
+    const report = await userTransferService.import(csv, { format: 'csv', mode: 'create', dryRun: false });
+
+    expect(report.failed).toBe(0);
+    expect(await userRepository.getById('u1')).toMatchObject({
+      createdAt: original.createdAt,
+      updatedAt: original.updatedAt,
+      lastActiveAt: original.lastActiveAt,
+    });
+  });
+
+  it('stamps missing timestamps with the import time', async () => {
+    const { updatedAt: _updatedAt, lastActiveAt: _lastActiveAt, ...record } = user('u1');
+    const before = Date.now();
+
+    await userTransferService.import(jsonl(record), { format: 'jsonl', mode: 'create', dryRun: false });
+
+    const saved = await userRepository.getById('u1');
+    expect(saved!.updatedAt.getTime()).toBeGreaterThanOrEqual(before);
+    expect(saved!.lastActiveAt!.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('saves nothing in a dry run', async () => {
+    const report = await userTransferService.import(jsonl(user('u1')), { format: 'jsonl', mode: 'create', dryRun: true });
+
+    expect(report.created).toBe(1);
+    expect(await userRepository.getAll()).toEqual([]);
+  });
+});
+
+describe('userTransferService.export', () => {
+  it('guards text a spreadsheet would run as a formula, and imports it unchanged', async () => {
+    const risky = user('u1', {
+      username: '=HYPERLINK("http://example.com","x")',
+      offers: [skill('+Guitar', 'expert'), skill('@Cooking')],
+      wants: [skill('-Painting', 'beginner'), skill("'=Quoted")],
+    });
+
+    const csv = userTransferService.export([risky], 'csv');
+    const [, row] = csv.split('\n');
+    expect(row).toContain(`"'=HYPERLINK(""http://example.com"",""x"")"`);
+    expect(row).toContain("'+Guitar");
+    expect(row).toContain("'@Cooking");
+    expect(row).toContain("'-Painting");
+    expect(row).toContain("''=Quoted");
+
+    await userTransferService.import(csv, { format: 'csv', mode: 'create', dryRun: false });
+    const imported = await userRepository.getById('u1');
+    expect(imported?.username).toBe(risky.username);
+    expect(imported?.offers.map((offer) => offer.name)).toEqual(['+Guitar', '@Cooking']);
+    expect(imported?.wants.map((want) => want.name)).toEqual(['-Painting', "'=Quoted"]);
+  });
+
+  it('exports more users than fit in one function call', () => {
+    const base = user('u');
+    const users = Array.from({ length: 150_000 }, (_, i) => ({ ...base, id: `u${i}` }));
+    users[0] = user('u0', { offers: [skill('Guitar'), skill('Cooking')] });
+
+    const header = userTransferService.export(users, 'csv').split('\n', 1)[0]!;
+    expect(header).toContain('offer2_name');
+    expect(header).not.toContain('want1_name');
+  });
+});
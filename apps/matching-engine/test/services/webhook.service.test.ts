@@ -0,0 +1,250 @@
+/**
+ * Match webhook delivery against a local receiver: signing, retries and the delivery log
+ * Retries run with the short delays set in vitest.config.ts
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryUserRepository } from '../../src/repositories/user.memory.repository.js';
+import { webhookRepository } from '../../src/repositories/webhook.repository.js';
+import { webhookService } from '../../src/services/webhook.service.js';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signPayload,
+  verifySignature,
+} from '../../src/services/webhook.signature.js';
+import type { MatchFoundPayload, WebhookDelivery, WebhookSubscription } from '../../src/types/webhook.types.js';
+import { skill, user } from '../support/users.js';
+import { startWebhookReceiver, type ScriptedResponse, type WebhookReceiver } from '../support/webhook-receiver.js';
+
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS);
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+
+let receiver: WebhookReceiver | null = null;
+
+afterEach(async () => {
+  webhookService.stop();
+  await webhookRepository.clear();
+  await receiver?.close();
+  receiver = null;
+});
+
+/**
+ * Subscribe a learner to the receiver, then save a teacher they match
+ */
+async function deliverOneMatch(
+  script: ScriptedResponse[]
+): Promise<{ subscription: WebhookSubscription; receiver: WebhookReceiver }> {
+  receiver = await startWebhookReceiver(script);
+  const repository = new InMemoryUserRepository();
+  webhookService.attach(repository);
+
+  await repository.save(user('learner', { offers: [skill('Cooking')], wants: [skill('Guitar', 'beginner')] }));
+  const subscription = await webhookService.subscribe({ userId: 'learner', url: receiver.url, minScore: 0 });
+  await repository.save(user('teacher', { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking')] }));
+  await webhookService.flush();
+
+  return { subscription, receiver };
+}
+
+/**
+ * Wait until the subscription's only delivery leaves pending
+ */
+async function settledDelivery(subscriptionId: string): Promise<WebhookDelivery> {
+  return vi.waitFor(async () => {
+    const [delivery, ...rest] = await webhookService.getDeliveries(subscriptionId);
+    expect(rest).toEqual([]);
+    expect(delivery?.status).not.toBe('pending');
+    return delivery!;
+  }, { timeout: 5000, interval: 10 });
+}
+
+describe('webhook delivery', () => {
+  it('sends one signed match.found request that verifies with the subscription secret', async () => {
+    const { subscription, receiver } = await deliverOneMatch([]);
+    const delivery = await settledDelivery(subscription.id);
+
+    expect(delivery).toMatchObject({ status: 'delivered', candidateId: 'teacher', nextAttemptAt: null });
+    expect(delivery.attempts).toHaveLength(1);
+    expect(delivery.attempts[0]?.statusCode).toBe(204);
+    expect(delivery.deliveredAt).toBeInstanceOf(Date);
+
+    expect(receiver.received).toHaveLength(1);
+    const [request] = receiver.received;
+    const timestamp = request!.headers[TIMESTAMP_HEADER.toLowerCase()];
+    const signature = request!.headers[SIGNATURE_HEADER.toLowerCase()];
+    expect(verifySignature(subscription.secret, timestamp, request!.body, signature)).toBe(true);
+    expect(verifySignature('whsec_other', timestamp, request!.body, signature)).toBe(false);
+
+    const payload = JSON.parse(request!.body) as MatchFoundPayload;
+    expect(payload).toMatchObject({
+      event: 'match.found',
+      deliveryId: delivery.id,
+      subscriptionId: subscription.id,
+      userId: 'learner',
+      candidate: { id: 'teacher', username: 'teacher' },
+    });
+    expect(request!.headers['x-webhook-id']).toBe(delivery.id);
+    expect(request!.headers['x-webhook-event']).toBe('match.found');
+  });
+
+  it('retries a 503 and marks the delivery delivered after the 204', async () => {
+    const { subscription, receiver } = await deliverOneMatch([{ status: 503 }, { status: 204 }]);
+    const delivery = await settledDelivery(subscription.id);
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([503, 204]);
+    expect(receiver.received).toHaveLength(2);
+    expect(receiver.received[1]!.headers['x-webhook-id']).toBe(receiver.received[0]!.headers['x-webhook-id']);
+    expect(receiver.received[1]!.receivedAt - receiver.received[0]!.receivedAt).toBeGreaterThanOrEqual(RETRY_BASE_MS);
+  });
+
+  it('fails a 4xx without retrying', async () => {
+    const { subscription, receiver } = await deliverOneMatch([{ status: 400 }]);
+    const delivery = await settledDelivery(subscription.id);
+
+    expect(delivery).toMatchObject({ status: 'failed', nextAttemptAt: null });
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([400]);
+
+    await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_MS * 4));
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it('retries 429 like a server error', async () => {
+    const { subscription } = await deliverOneMatch([{ status: 429 }]);
+    const delivery = await settledDelivery(subscription.id);
+
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([429, 204]);
+  });
+
+  it('doubles the delay on each retry and fails once attempts run out', async () => {
+    const script = Array.from({ length: MAX_ATTEMPTS }, () => ({ status: 500 }));
+    const { subscription, receiver } = await deliverOneMatch(script);
+    const delivery = await settledDelivery(subscription.id);
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(MAX_ATTEMPTS);
+
+    const gaps = receiver.received.slice(1).map((request, i) => request.receivedAt - receiver.received[i]!.receivedAt);
+    gaps.forEach((gap, i) => expect(gap).toBeGreaterThanOrEqual(RETRY_BASE_MS * 2 ** i));
+  });
+
+  it('waits for Retry-After when it is longer than the backoff', async () => {
+    const { subscription, receiver } = await deliverOneMatch([{ status: 503, retryAfter: 1 }]);
+
+    const pending = await vi.waitFor(async () => {
+      const [delivery] = await webhookService.getDeliveries(subscription.id);
+      expect(delivery?.attempts).toHaveLength(1);
+      return delivery!;
+    }, { timeout: 5000, interval: 10 });
+    expect(pending.status).toBe('pending');
+    expect(pending.nextAttemptAt!.getTime() - pending.attempts[0]!.attemptedAt.getTime()).toBeGreaterThanOrEqual(1000);
+
+    const delivery = await settledDelivery(subscription.id);
+    expect(delivery.status).toBe('delivered');
+    expect(receiver.received[1]!.receivedAt - receiver.received[0]!.receivedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('checks a saveMany batch as one save', async () => {
+    receiver = await startWebhookReceiver([]);
+    const repository = new InMemoryUserRepository();
+    webhookService.attach(repository);
+
+    await repository.save(user('learner', { offers: [skill('Cooking')], wants: [skill('Guitar', 'beginner')] }));
+    const subscription = await webhookService.subscribe({ userId: 'learner', url: receiver.url, minScore: 0 });
+    await repository.saveMany([
+      user('teacher', { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking')] }),
+      user('tutor', { offers: [skill('Guitar', 'advanced')], wants: [skill('Cooking')] }),
+    ]);
+    await webhookService.flush();
+
+    const deliveries = await vi.waitFor(async () => {
+      const logged = await webhookService.getDeliveries(subscription.id);
+      expect(logged.map((delivery) => delivery.status)).toEqual(['delivered', 'delivered']);
+      return logged;
+    }, { timeout: 5000, interval: 10 });
+    expect(deliveries.map((delivery) => delivery.candidateId).sort()).toEqual(['teacher', 'tutor']);
+  });
+
+  it('stops retrying once the subscription is deleted', async () => {
+    const { subscription, receiver } = await deliverOneMatch([{ status: 503 }]);
+    await vi.waitFor(() => expect(receiver.received).toHaveLength(1), { timeout: 5000, interval: 10 });
+    await webhookService.unsubscribe(subscription.id);
+
+    await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_MS * 4));
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it('does not resend a candidate the store already records as sent', async () => {
+    receiver = await startWebhookReceiver([]);
+    const repository = new InMemoryUserRepository();
+    webhookService.attach(repository);
+
+    await repository.save(user('learner', { offers: [skill('Cooking')], wants: [skill('Guitar', 'beginner')] }));
+    const subscription = await webhookService.subscribe({ userId: 'learner', url: receiver.url, minScore: 0 });
+    await webhookRepository.setNotified(subscription.id, 'teacher', true);
+    await repository.save(user('teacher', { offers: [skill('Guitar', 'expert')], wants: [skill('Cooking')] }));
+    await webhookService.flush();
+
+    expect(await webhookService.getDeliveries(subscription.id)).toEqual([]);
+  });
+
+  it('resumes a delivery left pending by a restart', async () => {
+    receiver = await startWebhookReceiver([]);
+    const subscription = await webhookService.subscribe({ userId: 'learner', url: receiver.url, minScore: 0 });
+    const createdAt = new Date(Date.now() - 60_000);
+    await webhookRepository.saveDelivery({
+      id: 'd1',
+      subscriptionId: subscription.id,
+      userId: 'learner',
+      candidateId: 'teacher',
+      payload: {
+        event: 'match.found',
+        deliveryId: 'd1',
+        subscriptionId: subscription.id,
+        userId: 'learner',
+        candidate: { id: 'teacher', username: 'teacher' },
+        matchScore: { totalScore: 0.8 } as MatchFoundPayload['matchScore'],
+        occurredAt: createdAt.toISOString(),
+      },
+      status: 'pending',
+      attempts: [{ attemptedAt: createdAt, statusCode: 503, durationMs: 5 }],
+      nextAttemptAt: new Date(createdAt.getTime() + 1000), // Already due
+      createdAt,
+    });
+
+    await webhookService.initialize();
+    const delivery = await settledDelivery(subscription.id);
+
+    expect(delivery).toMatchObject({ id: 'd1', status: 'delivered' });
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([503, 204]);
+    expect(receiver.received[0]!.headers['x-webhook-id']).toBe('d1');
+  });
+});
+
+describe('webhook signatures', () => {
+  const secret = 'whsec_test';
+  const body = '{"event":"match.found"}';
+  const now = Math.floor(Date.now() / 1000);
+
+  it('accepts its own signature', () => {
+    expect(verifySignature(secret, String(now), body, signPayload(secret, now, body))).toBe(true);
+  });
+
+  it('rejects a changed body, timestamp or secret', () => {
+    const signature = signPayload(secret, now, body);
+
+    expect(verifySignature(secret, String(now), `${body} `, signature)).toBe(false);
+    expect(verifySignature(secret, String(now - 1), body, signature)).toBe(false);
+    expect(verifySignature('whsec_other', String(now), body, signature)).toBe(false);
+  });
+
+  it('rejects missing headers and timestamps outside the tolerance', () => {
+    const old = now - 301;
+
+    expect(verifySignature(secret, undefined, body, signPayload(secret, now, body))).toBe(false);
+    expect(verifySignature(secret, String(now), body, undefined)).toBe(false);
+    expect(verifySignature(secret, String(old), body, signPayload(secret, old, body))).toBe(false);
+    expect(verifySignature(secret, String(old), body, signPayload(secret, old, body), 600)).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Webhook URLs that would reach private networks are refused
+ */
+
+import type { LookupAddress } from 'node:dns';
+import { request } from 'node:http';
+import type { LookupFunction } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { webhookRepository } from '../../src/repositories/webhook.repository.js';
+import { webhookService } from '../../src/services/webhook.service.js';
+import {
+  checkWebhookTarget,
+  isPrivateAddress,
+  parseAllowedHosts,
+  pinnedLookup,
+  resolveWebhookTarget,
+} from '../../src/services/webhook.target.js';
+import { ValidationError } from '../../src/validation/errors.js';
+import { startWebhookReceiver } from '../support/webhook-receiver.js';
+
+// DNS answers for hosts that aren't IP literals, set per test
+const dns = vi.hoisted(() => ({ answers: [] as LookupAddress[] }));
+vi.mock('node:dns/promises', () => ({ lookup: async () => dns.answers }));
+
+const none = new Set<string>();
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '255.255.255.255',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:169.254.169.254',
+  ])('refuses %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700::1111', '::ffff:8.8.8.8'])('allows %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('checkWebhookTarget', () => {
+  it('refuses loopback names and private literals', async () => {
+    expect(await checkWebhookTarget('http://localhost:9090/', none)).toMatch(/loopback/);
+    expect(await checkWebhookTarget('http://api.localhost/', none)).toMatch(/loopback/);
+    expect(await checkWebhookTarget('http://169.254.169.254/latest/meta-data', none)).toMatch(/not a public address/);
+    expect(await checkWebhookTarget('http://[::1]:8080/', none)).toMatch(/not a public address/);
+    expect(await checkWebhookTarget('https://10.0.0.5/hooks', none)).toMatch(/not a public address/);
+  });
+
+  it('allows public literals and allow-listed hosts', async () => {
+    expect(await checkWebhookTarget('https://8.8.8.8/hooks', none)).toBeNull();
+
+    const allowed = parseAllowedHosts(' localhost, [::1],127.0.0.1 ');
+    expect(await checkWebhookTarget('http://localhost:9090/', allowed)).toBeNull();
+    expect(await checkWebhookTarget('http://[::1]:9090/', allowed)).toBeNull();
+    expect(await checkWebhookTarget('http://127.0.0.1:9090/', allowed)).toBeNull();
+    expect(await checkWebhookTarget('http://127.0.0.2:9090/', allowed)).toMatch(/not a public address/);
+  });
+});
+
+describe('webhookService.subscribe', () => {
+  afterEach(async () => {
+    await webhookRepository.clear();
+  });
+
+  it('rejects a private callback URL as a validation error on url', async () => {
+    const subscribing = webhookService.subscribe({ userId: 'u1', url: 'http://192.168.0.10/hooks', minScore: 0.5 });
+
+    await expect(subscribing).rejects.toBeInstanceOf(ValidationError);
+    await expect(subscribing).rejects.toMatchObject({ details: [{ field: 'url' }] });
+    expect(await webhookRepository.getSubscriptions()).toEqual([]);
+  });
+});
+
+describe('resolveWebhookTarget', () => {
+  const publicAddress: LookupAddress = { address: '93.184.216.34', family: 4 };
+
+  const resolveWith = (lookup: LookupFunction, all: boolean) =>
+    new Promise<unknown>((resolve, reject) => {
+      lookup('hooks.example.com', { all }, (error, address, family) => (error ? reject(error) : resolve(all ? address : [address, family])));
+    });
+
+  it('pins the host to the addresses that were checked', async () => {
+    dns.answers = [publicAddress];
+    const target = await resolveWebhookTarget('https://hooks.example.com/matches', none);
+
+    // The host now rebinds to loopback; the pinned lookup still answers with the checked address
+    dns.answers = [{ address: '127.0.0.1', family: 4 }];
+    expect(target.refused).toBeNull();
+    expect(await resolveWith(target.lookup!, true)).toEqual([publicAddress]);
+    expect(await resolveWith(target.lookup!, false)).toEqual(['93.184.216.34', 4]);
+  });
+
+  it('refuses a host when any of its addresses is private', async () => {
+    dns.answers = [publicAddress, { address: '10.0.0.1', family: 4 }];
+    expect(await resolveWebhookTarget('https://hooks.example.com/', none)).toEqual({
+      refused: 'hooks.example.com resolves to 10.0.0.1, which is not a public address',
+    });
+  });
+
+  it('needs no pinning for IP literals and allowed hosts', async () => {
+    expect(await resolveWebhookTarget('https://8.8.8.8/hooks', none)).toEqual({ refused: null });
+    expect(await resolveWebhookTarget('http://localhost:9090/', parseAllowedHosts('localhost'))).toEqual({ refused: null });
+  });
+});
+
+describe('pinnedLookup', () => {
+  it('connects to the pinned address whatever the host name', async () => {
+    const receiver = await startWebhookReceiver([]);
+    const { port } = new URL(receiver.url);
+
+    try {
+      const status = await new Promise<number | undefined>((resolve, reject) => {
+        request(`http://pinned.invalid:${port}/hooks`, {
+          method: 'POST',
+          agent: false,
+          lookup: pinnedLookup([{ address: '127.0.0.1', family: 4 }]),
+        }, (response) => {
+          response.resume();
+          resolve(response.statusCode);
+        }).on('error', reject).end('{}');
+      });
+
+      expect(status).toBe(204);
+      expect(receiver.received[0]?.headers.host).toBe(`pinned.invalid:${port}`);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('fails when no pinned address has the requested family', async () => {
+    const lookup = pinnedLookup([{ address: '93.184.216.34', family: 4 }]);
+    const error = await new Promise((resolve) => lookup('hooks.example.com', { family: 6 }, resolve));
+
+    expect(error).toMatchObject({ code: 'ENOTFOUND' });
+  });
+});
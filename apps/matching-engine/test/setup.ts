@@ -0,0 +1,29 @@
+/**
+ * Test setup
+ * Replaces the embedding model with a bag-of-words embedding, so tests run
+ * offline and deterministically: texts sharing words are similar, others are not.
+ */
+
+import { vi } from 'vitest';
+
+vi.mock('@xenova/transformers', () => {
+  const DIMENSIONS = 256;
+
+  const embed = (text: string): Float32Array => {
+    const vector = new Float32Array(DIMENSIONS);
+    for (const word of text.toLowerCase().split(/[^a-z0-9+#]+/).filter(Boolean)) {
+      let hash = 0;
+      for (const char of word) {
+        hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+      }
+      vector[hash % DIMENSIONS]! += 1;
+    }
+
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map((value) => value / norm);
+  };
+
+  return {
+    pipeline: async () => async (text: string) => ({ data: embed(text) }),
+  };
+});
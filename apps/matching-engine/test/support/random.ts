@@ -0,0 +1,26 @@
+/**
+ * Seeded randomness, so generated fixtures are the same on every run
+ */
+
+export function seededRandom(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A unit vector with normally distributed components
+ */
+export function randomUnitVector(random: () => number, dimensions: number): number[] {
+  const vector = Array.from({ length: dimensions }, () =>
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+  );
+  const norm = Math.hypot(...vector);
+  return vector.map((value) => value / norm);
+}
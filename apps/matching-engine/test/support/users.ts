@@ -0,0 +1,33 @@
+/**
+ * Profile fixtures
+ */
+
+import type { Skill, SkillLevel, UserProfile } from '../../src/types/user.types.js';
+
+export function skill(name: string, level: SkillLevel = 'intermediate', category?: string): Skill {
+  return {
+    id: name.toLowerCase().replace(/\W+/g, '-'),
+    name,
+    level,
+    ...(category !== undefined && { category }),
+  };
+}
+
+export function user(id: string, overrides: Partial<UserProfile> = {}): UserProfile {
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+  return {
+    id,
+    username: id,
+    email: `${id}@example.com`,
+    languages: ['en'],
+    offers: [],
+    wants: [],
+    trustScore: 0.5,
+    timezone: 'UTC',
+    availability: [],
+    createdAt,
+    updatedAt: createdAt,
+    lastActiveAt: createdAt,
+    ...overrides,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Webhook receiver
+ * Local HTTP endpoint that records every webhook request and answers from a script,
+ * so tests can check signatures and drive the service's retries.
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface ScriptedResponse {
+  status: number;
+  retryAfter?: number; // Seconds
+}
+
+export interface ReceivedWebhook {
+  headers: Record<string, string | undefined>;
+  body: string;
+  receivedAt: number;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  close(): Promise<void>;
+}
+
+/**
+ * Answer the nth request with script[n]; requests past the end of the script get 204
+ */
+export async function startWebhookReceiver(script: ScriptedResponse[] = []): Promise<WebhookReceiver> {
+  const received: ReceivedWebhook[] = [];
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const headers: Record<string, string | undefined> = {};
+      for (const [name, value] of Object.entries(req.headers)) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+      received.push({ headers, body: Buffer.concat(chunks).toString('utf8'), receivedAt: Date.now() });
+
+      const response = script[received.length - 1] ?? { status: 204 };
+      res.writeHead(response.status, response.retryAfter !== undefined
+        ? { 'Retry-After': String(response.retryAfter) }
+        : {});
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,27 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+    silent: 'passed-only',
+    // Keep the singletons off disk; tests that need files create their own
+    env: {
+      USER_STORE: 'memory',
+      MATCH_REQUEST_STORE: 'memory',
+      FEEDBACK_STORE: 'memory',
+      WEBHOOK_STORE: 'memory',
+      OUTCOME_LOG_PATH: 'off',
+      MATCHING_WEIGHTS_PATH: 'off',
+      CANDIDATE_INDEX_PATH: 'off',
+      EMBEDDING_CACHE_DIR: 'off',
+      MATCH_INDEX_SIZE: 'off',
+      EXPOSURE_SNAPSHOT_PATH: 'off',
+      EXPERIMENTS_PATH: 'off',
+      // Webhook retries in milliseconds rather than seconds
+      WEBHOOK_RETRY_BASE_MS: '20',
+      WEBHOOK_MAX_ATTEMPTS: '3',
+      WEBHOOK_ALLOWED_HOSTS: '127.0.0.1', // The local test receiver
+    },
+  },
+});